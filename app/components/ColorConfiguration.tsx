@@ -1,19 +1,72 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { DMC_COLOR_MAP, type DMCColor } from '../utils/dmcColors'
+import { type DMCColor } from '../utils/dmcColors'
+import { getDrillCatalog, type DrillCatalog } from '../utils/drillCatalogs'
+import { resolveDrillCode } from '../utils/drillFinishes'
+import {
+  parsePaletteFile,
+  mapSwatchesToCatalog,
+  resolvePaletteImport,
+  type PaletteImportEntry
+} from '../utils/paletteImport'
+import { type DitheringMode, type PaletteReducer } from '../utils/dmcFirstMatching'
+import { COLOR_QUANTIZERS, type ColorQuantizerMethod } from '../utils/colorMatching'
+import { CELL_COLOR_ESTIMATORS, type CellColorEstimator } from '../utils/imagePixelization'
+import { type DrillInventoryItem } from '../utils/drillInventory'
+import { type RateDistortionCurve } from '../utils/rateDistortion'
+import DrillInventoryPanel from './DrillInventoryPanel'
+import RateDistortionChart from './RateDistortionChart'
 
 interface ColorConfigurationProps {
   colorCount: number
   onColorCountChange: (count: number) => void
   confirmedColorCount: number
-  onConfirmColorSettings: (count: number, customColors?: string[]) => void
+  onConfirmColorSettings: (count: number, customColors?: string[], customDrills?: DMCColor[]) => void
   optimalColors: number
   maxColors: number
   isCalculating?: boolean
   isConfirmed?: boolean
+  ditheringMode?: DitheringMode
+  ditheringStrength?: number
+  onDitheringChange?: (mode: DitheringMode, strength: number) => void
+  colorEstimator?: CellColorEstimator
+  onColorEstimatorChange?: (estimator: CellColorEstimator) => void
+  saliencyStrength?: number
+  onSaliencyStrengthChange?: (strength: number) => void
+  paletteReducer?: PaletteReducer
+  onPaletteReducerChange?: (reducer: PaletteReducer) => void
+  quantizer?: ColorQuantizerMethod
+  onQuantizerChange?: (quantizer: ColorQuantizerMethod) => void
+  minRegionSize?: number
+  onMinRegionSizeChange?: (size: number) => void
+  abHighlightPercent?: number
+  onABHighlightPercentChange?: (percent: number) => void
+  catalogId?: string
+  catalogs?: DrillCatalog[]
+  onCatalogChange?: (catalogId: string) => void
+  onConfirmInventory?: (colorCount: number) => void
+  rateDistortion?: RateDistortionCurve | null
+  isAnalyzingRateDistortion?: boolean
+  onAnalyzeRateDistortion?: () => void
+  seedInput?: string
+  onSeedInputChange?: (input: string) => void
+  patternSeed?: number // Seed of the current pattern, offered for reuse
 }
 
+const DITHERING_OPTIONS: Array<{ value: DitheringMode, label: string }> = [
+  { value: 'none', label: 'None (nearest color)' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'atkinson', label: 'Atkinson' },
+  { value: 'ordered', label: 'Ordered (Bayer)' }
+]
+
+const PALETTE_REDUCER_OPTIONS: Array<{ value: PaletteReducer, label: string }> = [
+  { value: 'heuristic', label: 'Fast (merge similar colors)' },
+  { value: 'optimized', label: 'Optimized (lowest total color error)' },
+  { value: 'quantized', label: 'Quantize (cluster colors, then match drills)' }
+]
+
 interface ValidationResult {
   isValid: boolean
   validCodes: string[]
@@ -29,8 +82,35 @@ export default function ColorConfiguration({
   optimalColors,
   maxColors,
   isCalculating = false,
-  isConfirmed = false
+  isConfirmed = false,
+  ditheringMode = 'none',
+  ditheringStrength = 1,
+  onDitheringChange,
+  colorEstimator = 'mean',
+  onColorEstimatorChange,
+  saliencyStrength = 0,
+  onSaliencyStrengthChange,
+  paletteReducer = 'heuristic',
+  onPaletteReducerChange,
+  quantizer = 'wu',
+  onQuantizerChange,
+  minRegionSize = 0,
+  onMinRegionSizeChange,
+  abHighlightPercent = 0,
+  onABHighlightPercentChange,
+  catalogId,
+  catalogs = [],
+  onCatalogChange,
+  onConfirmInventory,
+  rateDistortion,
+  isAnalyzingRateDistortion = false,
+  onAnalyzeRateDistortion,
+  seedInput = '',
+  onSeedInputChange,
+  patternSeed
 }: ColorConfigurationProps) {
+  const catalog = getDrillCatalog(catalogId)
+
   // Local state
   const [localColorCount, setLocalColorCount] = useState<number>(colorCount)
   
@@ -40,12 +120,21 @@ export default function ColorConfiguration({
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null)
   const [showCustomPanel, setShowCustomPanel] = useState<boolean>(false)
   
+  // 🎨 Palette file import state
+  const [paletteImport, setPaletteImport] = useState<PaletteImportEntry[] | null>(null)
+  const [paletteImportError, setPaletteImportError] = useState<string | null>(null)
+  const [customDrills, setCustomDrills] = useState<DMCColor[]>([]) // User-defined drills from imported swatches
+  
+  // 📦 Drill inventory mode state
+  const [useInventory, setUseInventory] = useState<boolean>(false)
+  const [inventoryItems, setInventoryItems] = useState<DrillInventoryItem[]>([])
+  
   // Update local state when colorCount prop changes
   useEffect(() => {
     setLocalColorCount(colorCount)
   }, [colorCount])
   
-  // 🎯 DMC code validation function
+  // 🎯 Drill code validation function (against the selected brand catalog)
   const validateDMCCodes = (input: string): ValidationResult => {
     if (!input.trim()) {
       return { isValid: false, validCodes: [], invalidCodes: [], colors: [] }
@@ -57,7 +146,7 @@ export default function ColorConfiguration({
     const colors: DMCColor[] = []
     
     codes.forEach(code => {
-      const dmcColor = DMC_COLOR_MAP.get(code)
+      const dmcColor = customDrills.find(drill => drill.code === code) || resolveDrillCode(catalog, code)
       if (dmcColor) {
         validCodes.push(code)
         colors.push(dmcColor)
@@ -82,25 +171,61 @@ export default function ColorConfiguration({
     } else {
       setValidationResult(null)
     }
-  }, [customColorInput])
+  }, [customColorInput, catalogId, customDrills])
   
-  // 🎯 Mode toggle function
-  const handleModeToggle = () => {
-    const newMode = !useCustomColors
-    setUseCustomColors(newMode)
-    setShowCustomPanel(newMode)
+  // 🎯 Mode selection function
+  const selectMode = (mode: 'all' | 'custom' | 'inventory') => {
+    const customMode = mode === 'custom'
+    setUseCustomColors(customMode)
+    setShowCustomPanel(customMode)
+    setUseInventory(mode === 'inventory')
     
-    if (!newMode) {
-      // Switch to full color mode
+    if (!customMode) {
+      // Leaving user color mode
       setCustomColorInput('')
       setValidationResult(null)
     }
   }
   
+  // 🎨 Read a palette file and map its swatches to the selected catalog
+  const handlePaletteFile = async (file: File) => {
+    setPaletteImportError(null)
+    try {
+      const swatches = await parsePaletteFile(file)
+      if (swatches.length === 0) {
+        throw new Error('No colors found in this file')
+      }
+      setPaletteImport(mapSwatchesToCatalog(swatches, catalog))
+    } catch (error) {
+      setPaletteImport(null)
+      setPaletteImportError(error instanceof Error ? error.message : 'Failed to read palette file')
+    }
+  }
+  
+  const togglePaletteEntry = (index: number) => {
+    setPaletteImport(prev => prev && prev.map((entry, i) => i === index ? { ...entry, keepAsCustom: !entry.keepAsCustom } : entry))
+  }
+  
+  // 🎨 Add the imported palette to the code input
+  const applyPaletteImport = () => {
+    if (!paletteImport) return
+    
+    const { codes, customDrills: drills } = resolvePaletteImport(paletteImport, catalog, customDrills)
+    const existingCodes = customColorInput.split(',').map(code => code.trim()).filter(code => code.length > 0)
+    const mergedCodes = existingCodes.concat(codes.filter(code => !existingCodes.includes(code)))
+    
+    setCustomDrills(drills)
+    setCustomColorInput(mergedCodes.join(','))
+    setPaletteImport(null)
+  }
+  
   // 🎯 Confirm button click handler
   const handleConfirm = () => {
-    if (useCustomColors && validationResult?.isValid) {
-      onConfirmColorSettings(validationResult.validCodes.length, validationResult.validCodes)
+    if (useInventory) {
+      onConfirmInventory?.(inventoryItems.length)
+    } else if (useCustomColors && validationResult?.isValid) {
+      const usedCustomDrills = customDrills.filter(drill => validationResult.validCodes.includes(drill.code))
+      onConfirmColorSettings(validationResult.validCodes.length, validationResult.validCodes, usedCustomDrills)
     } else {
       onConfirmColorSettings(localColorCount)
     }
@@ -139,20 +264,40 @@ export default function ColorConfiguration({
           Color Configuration
         </h3>
         
+        {/* 🏷️ Drill Brand Selection */}
+        {onCatalogChange && catalogs.length > 1 && (
+          <div className="form-group" style={{ marginBottom: '1rem' }}>
+            <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Drill Brand</label>
+            <select
+              value={catalog.id}
+              onChange={(e) => onCatalogChange(e.target.value)}
+              disabled={isCalculating}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: '2px solid black',
+                borderRadius: '4px',
+                fontFamily: 'Baskervville, serif',
+                fontWeight: '500'
+              }}
+            >
+              {catalogs.map(c => (
+                <option key={c.id} value={c.id}>{c.name} ({c.colors.length} colors)</option>
+              ))}
+            </select>
+          </div>
+        )}
+        
         {/* 🎯 Mode Selection Toggle */}
         <div style={{ marginBottom: '1.5rem' }}>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginBottom: '0.5rem' }}>
             <button
-              onClick={() => {
-                if (useCustomColors) {
-                  handleModeToggle()
-                }
-              }}
+              onClick={() => selectMode('all')}
               style={{
                 padding: '10px 20px',
                 fontSize: '0.95rem',
-                backgroundColor: !useCustomColors ? 'black' : 'white',
-                color: !useCustomColors ? 'white' : 'black',
+                backgroundColor: !useCustomColors && !useInventory ? 'black' : 'white',
+                color: !useCustomColors && !useInventory ? 'white' : 'black',
                 border: '2px solid black',
                 borderRadius: '4px',
                 cursor: 'pointer',
@@ -161,11 +306,11 @@ export default function ColorConfiguration({
                 fontFamily: 'Baskervville, serif'
               }}
             >
-              Use All DMC Colors (447)
+              Use All {catalog.name} Colors ({catalog.colors.length})
             </button>
             
             <button
-              onClick={handleModeToggle}
+              onClick={() => selectMode('custom')}
               style={{
                 padding: '10px 20px',
                 fontSize: '0.95rem',
@@ -181,6 +326,26 @@ export default function ColorConfiguration({
             >
               Use Only My Color Codes
             </button>
+            
+            {onConfirmInventory && (
+              <button
+                onClick={() => selectMode('inventory')}
+                style={{
+                  padding: '10px 20px',
+                  fontSize: '0.95rem',
+                  backgroundColor: useInventory ? 'black' : 'white',
+                  color: useInventory ? 'white' : 'black',
+                  border: '2px solid black',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontWeight: '500',
+                  width: '100%',
+                  fontFamily: 'Baskervville, serif'
+                }}
+              >
+                Use Only My Drill Inventory
+              </button>
+            )}
           </div>
           
           <p style={{ 
@@ -190,15 +355,46 @@ export default function ColorConfiguration({
             fontFamily: 'Baskervville, serif',
             fontWeight: '500'
           }}>
-            {useCustomColors 
-              ? 'Enter your DMC color codes to generate patterns using only those colors.'
-              : 'Automatically select optimal colors from all 447 DMC colors for your image.'
+            {useInventory
+              ? `Generate using the ${catalog.name} drills you own, without using more of a color than you have.`
+              : useCustomColors 
+              ? `Enter your ${catalog.name} color codes to generate patterns using only those colors.`
+              : `Automatically select optimal colors from all ${catalog.colors.length} ${catalog.name} colors for your image.`
             }
           </p>
         </div>
         
         {/* Main Configuration Area */}
-        {!useCustomColors ? (
+        {useInventory ? (
+          // Drill Inventory Mode
+          <div style={{ minHeight: '300px' }}>
+            <DrillInventoryPanel
+              catalogId={catalog.id}
+              disabled={isCalculating}
+              onInventoryChange={setInventoryItems}
+            />
+            
+            <button
+              onClick={handleConfirm}
+              disabled={isCalculating || inventoryItems.length === 0}
+              style={{
+                marginTop: '1rem',
+                padding: '10px 20px',
+                fontSize: '1rem',
+                backgroundColor: (isCalculating || inventoryItems.length === 0) ? '#ccc' : 'black',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: (isCalculating || inventoryItems.length === 0) ? 'not-allowed' : 'pointer',
+                fontWeight: '500',
+                width: '100%',
+                fontFamily: 'Baskervville, serif'
+              }}
+            >
+              {isCalculating ? 'Processing...' : `Apply Inventory (${inventoryItems.length} colors)`}
+            </button>
+          </div>
+        ) : !useCustomColors ? (
           // Full Color Mode - Original Layout
           <div style={{ minHeight: '200px' }}>
             <div className="form-group">
@@ -256,13 +452,50 @@ export default function ColorConfiguration({
                 Configurable from 8 to 447 colors. Please click "Confirm" after setting.
               </p>
             </div>
+            
+            {/* 📉 Color count vs. accuracy */}
+            {onAnalyzeRateDistortion && (
+              <div className="form-group" style={{ marginTop: '1rem' }}>
+                <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Color Count vs. Accuracy</label>
+                <p style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+                  Measure the color error for every color count to see what each extra drill color buys. Click the chart to pick a count.
+                </p>
+                
+                <button
+                  onClick={onAnalyzeRateDistortion}
+                  disabled={isCalculating || isAnalyzingRateDistortion}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '0.9rem',
+                    backgroundColor: 'white',
+                    color: 'black',
+                    border: '2px solid black',
+                    borderRadius: '4px',
+                    cursor: (isCalculating || isAnalyzingRateDistortion) ? 'not-allowed' : 'pointer',
+                    fontWeight: '500',
+                    fontFamily: 'Baskervville, serif',
+                    marginBottom: '0.5rem'
+                  }}
+                >
+                  {isAnalyzingRateDistortion ? 'Measuring...' : rateDistortion ? 'Measure Again' : 'Measure Color Counts'}
+                </button>
+                
+                {rateDistortion && (
+                  <RateDistortionChart
+                    curve={rateDistortion}
+                    selectedColorCount={localColorCount}
+                    onSelectColorCount={(count) => setLocalColorCount(Math.max(8, count))}
+                  />
+                )}
+              </div>
+            )}
           </div>
         ) : (
           // User Color Mode - Vertical Layout
           <div style={{ minHeight: '300px' }}>
             {/* Code Input Section */}
             <div className="form-group" style={{ marginBottom: '1.5rem' }}>
-              <p style={{ marginBottom: '1.0rem', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Enter DMC color codes separated by commas. Example: 310,817,666,700</p>
+              <p style={{ marginBottom: '1.0rem', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Enter {catalog.name} color codes separated by commas. Example: 310,817,666,700</p>
               
               {/* Code input area with horizontal arrangement */}
               <div style={{ 
@@ -312,6 +545,124 @@ export default function ColorConfiguration({
               </div>
             </div>
 
+            {/* 🎨 Palette File Import */}
+            <div className="form-group" style={{ marginBottom: '1.5rem' }}>
+              <p style={{ marginBottom: '0.5rem', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+                Or import a palette file (GIMP .gpl, Adobe .aco/.ase, CSV)
+              </p>
+              <input
+                type="file"
+                accept=".gpl,.aco,.ase,.csv,.txt"
+                disabled={isCalculating}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handlePaletteFile(file)
+                  e.target.value = ''
+                }}
+                style={{ fontFamily: 'Baskervville, serif', fontSize: '0.85rem' }}
+              />
+              
+              {paletteImportError && (
+                <p style={{ fontSize: '0.8rem', color: '#dc3545', marginTop: '0.5rem' }}>{paletteImportError}</p>
+              )}
+              
+              {paletteImport && (
+                <div style={{ 
+                  marginTop: '0.75rem',
+                  border: '2px solid black',
+                  borderRadius: '8px',
+                  padding: '0.75rem',
+                  backgroundColor: 'rgba(0,0,0,0.02)'
+                }}>
+                  <p style={{ fontSize: '0.8rem', color: '#666', marginBottom: '0.5rem' }}>
+                    Each color maps to its nearest {catalog.name} drill. Tick "Custom" to keep the exact color as your own drill.
+                  </p>
+                  <div style={{ maxHeight: '220px', overflowY: 'auto' }}>
+                    <table style={{ width: '100%', fontSize: '0.8rem' }}>
+                      <thead>
+                        <tr style={{ borderBottom: '1px solid black' }}>
+                          <th style={{ padding: '0.3rem', textAlign: 'left', fontWeight: '500' }}>Imported</th>
+                          <th style={{ padding: '0.3rem', textAlign: 'left', fontWeight: '500' }}>Nearest {catalog.name}</th>
+                          <th style={{ padding: '0.3rem', textAlign: 'right', fontWeight: '500' }}>ΔE</th>
+                          <th style={{ padding: '0.3rem', textAlign: 'center', fontWeight: '500' }}>Custom</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {paletteImport.map((entry, index) => (
+                          <tr key={index}>
+                            <td style={{ padding: '0.3rem' }}>
+                              <span style={{ display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
+                                <span style={{
+                                  width: '20px',
+                                  height: '14px',
+                                  backgroundColor: `rgb(${entry.swatch.r}, ${entry.swatch.g}, ${entry.swatch.b})`,
+                                  border: '1px solid black',
+                                  display: 'inline-block'
+                                }} />
+                                {entry.swatch.name}
+                              </span>
+                            </td>
+                            <td style={{ padding: '0.3rem' }}>
+                              <span style={{ display: 'inline-flex', alignItems: 'center', gap: '6px', opacity: entry.keepAsCustom ? 0.4 : 1 }}>
+                                <span style={{
+                                  width: '20px',
+                                  height: '14px',
+                                  backgroundColor: `rgb(${entry.match.r}, ${entry.match.g}, ${entry.match.b})`,
+                                  border: '1px solid black',
+                                  display: 'inline-block'
+                                }} />
+                                {entry.match.code}
+                              </span>
+                            </td>
+                            <td style={{ padding: '0.3rem', textAlign: 'right' }}>{entry.deltaE.toFixed(1)}</td>
+                            <td style={{ padding: '0.3rem', textAlign: 'center' }}>
+                              <input
+                                type="checkbox"
+                                checked={entry.keepAsCustom}
+                                onChange={() => togglePaletteEntry(index)}
+                              />
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  
+                  <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+                    <button
+                      onClick={applyPaletteImport}
+                      style={{
+                        padding: '6px 14px',
+                        fontSize: '0.9rem',
+                        backgroundColor: 'black',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontFamily: 'Baskervville, serif'
+                      }}
+                    >
+                      Add {paletteImport.length} colors
+                    </button>
+                    <button
+                      onClick={() => setPaletteImport(null)}
+                      style={{
+                        padding: '6px 14px',
+                        fontSize: '0.9rem',
+                        backgroundColor: 'white',
+                        border: '1px solid black',
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontFamily: 'Baskervville, serif'
+                      }}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* Color Validation & Preview Section - Below Code Input */}
             <div style={{ 
               border: '2px solid black',
@@ -371,7 +722,7 @@ export default function ColorConfiguration({
                     fontFamily: 'Baskervville, serif',
                     fontWeight: '500'
                   }}>
-                    Please enter DMC color codes
+                    Please enter {catalog.name} color codes
                   </div>
                 )
               )}
@@ -431,6 +782,262 @@ export default function ColorConfiguration({
           </div>
         )}
         
+        {/* 🔬 Bead Color Sampling */}
+        {onColorEstimatorChange && (
+          <div className="form-group" style={{ marginTop: '1rem', marginBottom: '1rem' }}>
+            <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Bead Color Sampling</label>
+            <p style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+              How each bead's color is taken from the pixels it covers. Linear-light suits photos; dominant color suits logos and cartoons.
+            </p>
+            
+            <select
+              value={colorEstimator}
+              onChange={(e) => onColorEstimatorChange(e.target.value as CellColorEstimator)}
+              disabled={isCalculating}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: '2px solid black',
+                borderRadius: '4px',
+                fontFamily: 'Baskervville, serif',
+                fontWeight: '500'
+              }}
+            >
+              {CELL_COLOR_ESTIMATORS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        
+        {/* 👁️ Subject Focus */}
+        {onSaliencyStrengthChange && (
+          <div className="form-group" style={{ marginBottom: '1rem' }}>
+            <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Subject Focus</label>
+            <p style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+              Spend more colors on the detected subject (faces, foreground) and simplify the background (0 = off).
+            </p>
+            
+            <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                step="10"
+                value={Math.round(saliencyStrength * 100)}
+                onChange={(e) => onSaliencyStrengthChange(Number(e.target.value) / 100)}
+                disabled={isCalculating}
+                style={{ flex: 1 }}
+              />
+              <span style={{ minWidth: '48px', textAlign: 'right', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+                {Math.round(saliencyStrength * 100)}%
+              </span>
+            </div>
+          </div>
+        )}
+        
+        {/* 🎲 Reproducible generation */}
+        {onSeedInputChange && (
+          <div className="form-group" style={{ marginBottom: '1rem' }}>
+            <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Seed</label>
+            <p style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+              Leave empty for a new seed each time. Enter the seed printed on a chart to reproduce it exactly with the same settings.
+            </p>
+            
+            <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seedInput}
+                onChange={(e) => onSeedInputChange(e.target.value.replace(/[^0-9]/g, ''))}
+                disabled={isCalculating}
+                placeholder="Random"
+                style={{
+                  flex: 1,
+                  padding: '8px',
+                  border: '2px solid black',
+                  borderRadius: '4px',
+                  fontFamily: 'Baskervville, serif',
+                  fontWeight: '500'
+                }}
+              />
+              {patternSeed !== undefined && seedInput !== String(patternSeed) && (
+                <button
+                  onClick={() => onSeedInputChange(String(patternSeed))}
+                  style={{
+                    padding: '8px 12px',
+                    backgroundColor: 'white',
+                    color: 'black',
+                    border: '2px solid black',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontWeight: '500',
+                    fontFamily: 'Baskervville, serif'
+                  }}
+                >
+                  Keep Current ({patternSeed})
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        
+        {/* 📈 Palette Reduction */}
+        {onPaletteReducerChange && (
+          <div className="form-group" style={{ marginBottom: '1rem' }}>
+            <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Palette Reduction</label>
+            <p style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+              Optimized searches the whole catalog for the set of colors closest to every bead; slower, but usually more accurate.
+            </p>
+            
+            <select
+              value={paletteReducer}
+              onChange={(e) => onPaletteReducerChange(e.target.value as PaletteReducer)}
+              disabled={isCalculating}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: '2px solid black',
+                borderRadius: '4px',
+                fontFamily: 'Baskervville, serif',
+                fontWeight: '500'
+              }}
+            >
+              {PALETTE_REDUCER_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            
+            {paletteReducer === 'quantized' && onQuantizerChange && (
+              <>
+                <p style={{ fontFamily: 'Baskervville, serif', fontWeight: '500', marginTop: '0.5rem' }}>
+                  Every quantizer is benchmarked (time, mean ΔE) in the pattern statistics; the selected one builds the palette.
+                </p>
+                <select
+                  value={quantizer}
+                  onChange={(e) => onQuantizerChange(e.target.value as ColorQuantizerMethod)}
+                  disabled={isCalculating}
+                  style={{
+                    width: '100%',
+                    padding: '8px',
+                    border: '2px solid black',
+                    borderRadius: '4px',
+                    fontFamily: 'Baskervville, serif',
+                    fontWeight: '500'
+                  }}
+                >
+                  {COLOR_QUANTIZERS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+        )}
+        
+        {/* 🌈 Gradient Dithering */}
+        {onDitheringChange && (
+          <div className="form-group" style={{ marginTop: '1rem', marginBottom: '1rem' }}>
+            <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Gradient Dithering</label>
+            <p style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+              Blends neighbouring beads to keep skies and skin smooth with fewer colors.
+            </p>
+            
+            <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+              <select
+                value={ditheringMode}
+                onChange={(e) => onDitheringChange(e.target.value as DitheringMode, ditheringStrength)}
+                disabled={isCalculating}
+                style={{
+                  flex: 1,
+                  padding: '8px',
+                  border: '2px solid black',
+                  borderRadius: '4px',
+                  fontFamily: 'Baskervville, serif',
+                  fontWeight: '500'
+                }}
+              >
+                {DITHERING_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            
+            {ditheringMode !== 'none' && (
+              <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginTop: '0.5rem' }}>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={Math.round(ditheringStrength * 100)}
+                  onChange={(e) => onDitheringChange(ditheringMode, Number(e.target.value) / 100)}
+                  disabled={isCalculating}
+                  style={{ flex: 1 }}
+                />
+                <span style={{ minWidth: '48px', textAlign: 'right', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+                  {Math.round(ditheringStrength * 100)}%
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+        
+        {/* 🧹 Confetti Cleanup */}
+        {onMinRegionSizeChange && (
+          <div className="form-group" style={{ marginBottom: '1rem' }}>
+            <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Confetti Cleanup</label>
+            <p style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+              Merge color islands smaller than this many beads into a neighbouring color (0 = off).
+            </p>
+            
+            <input
+              type="number"
+              min="0"
+              max="50"
+              value={minRegionSize}
+              onChange={(e) => onMinRegionSizeChange(Math.max(0, Number(e.target.value)))}
+              disabled={isCalculating}
+              style={{ 
+                width: '100%',
+                padding: '8px',
+                border: '2px solid black',
+                borderRadius: '4px',
+                opacity: isCalculating ? 0.6 : 1,
+                fontFamily: 'Baskervville, serif',
+                fontWeight: '500',
+                boxSizing: 'border-box'
+              }}
+            />
+          </div>
+        )}
+        
+        {/* ✨ AB Highlights */}
+        {onABHighlightPercentChange && (
+          <div className="form-group" style={{ marginBottom: '1rem' }}>
+            <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>AB Drill Highlights</label>
+            <p style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+              Use AB drills for the brightest beads of each color (0 = off). Specialty codes such as 310AB can also be entered directly.
+            </p>
+            
+            <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+              <input
+                type="range"
+                min="0"
+                max="50"
+                step="5"
+                value={abHighlightPercent}
+                onChange={(e) => onABHighlightPercentChange(Number(e.target.value))}
+                disabled={isCalculating || useInventory}
+                style={{ flex: 1 }}
+              />
+              <span style={{ minWidth: '48px', textAlign: 'right', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+                {abHighlightPercent}%
+              </span>
+            </div>
+          </div>
+        )}
+        
         {/* 🎯 Status Display Area */}
         <div style={{ marginTop: '0.5rem' }}>
           {/* Processing Status Display */}
@@ -457,7 +1064,7 @@ export default function ColorConfiguration({
                 borderRadius: '50%',
                 animation: 'spin 1s linear infinite'
               }} />
-              {useCustomColors ? 'Analyzing with user colors...' : 'Analyzing optimal colors from all colors...'} Processing time may vary depending on image size.
+              {useInventory ? 'Analyzing with your drill inventory...' : useCustomColors ? 'Analyzing with user colors...' : 'Analyzing optimal colors from all colors...'} Processing time may vary depending on image size.
             </div>
           )}
           
@@ -475,7 +1082,7 @@ export default function ColorConfiguration({
               fontWeight: '500'
             }}>
               Color configuration confirmed: <strong>{confirmedColorCount} colors</strong> 
-              {useCustomColors ? ' (User-specified colors)' : ' (Selected from all DMC colors)'}
+              {useInventory ? ' (From your drill inventory)' : useCustomColors ? ' (User-specified colors)' : ` (Selected from all ${catalog.name} colors)`}
             </div>
           )}
           
@@ -498,8 +1105,8 @@ export default function ColorConfiguration({
             <div style={{ display: 'grid', gap: '0.5rem' }}>
               <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                 <span><strong>Current Mode:</strong></span>
-                <span style={{ fontWeight: '500', color: useCustomColors ? '#28a745' : '#007bff' }}>
-                  {useCustomColors ? 'User-owned Colors' : 'All DMC Colors'}
+                <span style={{ fontWeight: '500', color: useInventory || useCustomColors ? '#28a745' : '#007bff' }}>
+                  {useInventory ? 'Drill Inventory' : useCustomColors ? 'User-owned Colors' : `All ${catalog.name} Colors`}
                 </span>
               </div>
               
@@ -526,7 +1133,7 @@ export default function ColorConfiguration({
                   fontSize: '0.85rem',
                   fontFamily: 'Baskervville, serif'
                 }}>
-                  Please {useCustomColors ? 'enter DMC codes and click "Apply"' : 'set the number of colors and click "Confirm"'}
+                  Please {useInventory ? 'add your drills and click "Apply Inventory"' : useCustomColors ? 'enter DMC codes and click "Apply"' : 'set the number of colors and click "Confirm"'}
                 </p>
               </div>
             )}
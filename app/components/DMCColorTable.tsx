@@ -1,9 +1,12 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useMemo, useState, useEffect, Fragment } from 'react'
 import { DMCFirstPattern } from '../hooks/useDMCFirstPatternGeneration'
+import { buildCrossReference, getDrillCatalog, getDrillCatalogs, loadStoredDrillCatalogs, type CrossReferenceEntry } from '../utils/drillCatalogs'
 import { assignIconsToColors, type Icon } from '../utils/iconPlacement'
+import { getUsedColors } from '../utils/patternGrid'
 import { getCachedSVGIcon } from '../utils/svgIconGenerator'
+import { getDrillFinishInfo, type DrillFinishInfo } from '../utils/drillFinishes'
 
 interface DMCColorTableProps {
   pattern: DMCFirstPattern
@@ -17,44 +20,27 @@ interface ColorTableEntry {
   icon: Icon
   count: number
   percentage: number
+  finish?: DrillFinishInfo // Specialty drills are marked and listed separately
 }
 
 export default function DMCColorTable({ pattern, className = '' }: DMCColorTableProps) {
-  // Create pattern grid and assign icons (cached to prevent re-computation on every render)
-  const { patternGrid, iconAssignments } = useMemo(() => {
-    const createPatternGrid = () => {
-      const grid: Array<Array<string>> = []
-      const width = pattern.config.beadGridWidth
-      const height = pattern.config.beadGridHeight
-      
-      // Initialize grid
-      for (let y = 0; y < height; y++) {
-        grid[y] = new Array(width).fill('')
-      }
-      
-      // Fill grid with DMC codes
-      for (const pixel of pattern.constrainedPixels) {
-        if (pixel.x < width && pixel.y < height) {
-          grid[pixel.y][pixel.x] = pixel.selectedDMCColor.code
-        }
-      }
-      
-      return grid
-    }
-
-    const grid = createPatternGrid()
-    const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
-    const assignments = assignIconsToColors(uniqueColors, grid)
-
-    return {
-      patternGrid: grid,
-      iconAssignments: assignments
-    }
+  const sourceCatalog = getDrillCatalog(pattern.catalogId)
+  
+  // Optional legend conversion into another brand
+  const [convertCatalogId, setConvertCatalogId] = useState<string>('')
+  const [catalogOptions, setCatalogOptions] = useState(() => getDrillCatalogs())
+  
+  useEffect(() => {
+    loadStoredDrillCatalogs()
+    setCatalogOptions(getDrillCatalogs())
+  }, [])
+  
+  // Assign icons (cached to prevent re-computation on every render)
+  const iconAssignments = useMemo(() => {
+    const uniqueColors = getUsedColors(pattern.grid).map(color => color.code)
+    return assignIconsToColors(uniqueColors, pattern.grid)
   }, [
-    // Use only core properties as dependencies to prevent unnecessary recalculations
-    pattern.config.beadGridWidth,
-    pattern.config.beadGridHeight,
-    pattern.constrainedPixels.length,
+    pattern.grid, // A new grid is built for every generated pattern
     pattern.dmcPalette.selectedColors.map(c => c.code).join(',') // Detect color changes
   ])
 
@@ -77,13 +63,28 @@ export default function DMCColorTable({ pattern, className = '' }: DMCColorTable
         color: { r: dmcColor.r, g: dmcColor.g, b: dmcColor.b },
         icon,
         count: Number(count),
-        percentage: (Number(count) / pattern.statistics.totalPixels) * 100
+        percentage: (Number(count) / pattern.statistics.totalPixels) * 100,
+        finish: getDrillFinishInfo(dmcColor)
       })
     }
   }
 
-  // Sort by usage count (descending)
-  tableData.sort((a, b) => b.count - a.count)
+  // Sort by usage count (descending), specialty drills after standard drills
+  tableData.sort((a, b) => Number(!!a.finish) - Number(!!b.finish) || b.count - a.count)
+  const firstSpecialtyIndex = tableData.findIndex(entry => entry.finish)
+
+  const conversionTargets = catalogOptions.filter(c => c.id !== sourceCatalog.id)
+  const convertCatalog = convertCatalogId ? getDrillCatalog(convertCatalogId) : null
+  const crossReference = useMemo(() => {
+    const map = new Map<string, CrossReferenceEntry>()
+    if (!convertCatalog) return map
+    
+    const sourceColors = pattern.dmcPalette.selectedColors
+    buildCrossReference(sourceColors, convertCatalog).forEach(entry => {
+      map.set(entry.source.code, entry)
+    })
+    return map
+  }, [convertCatalog, pattern.dmcPalette.selectedColors])
 
   return (
     <div className={`dmc-color-table ${className}`} style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
@@ -92,9 +93,35 @@ export default function DMCColorTable({ pattern, className = '' }: DMCColorTable
         marginBottom: '1rem',
         fontFamily: 'Baskervville, serif'
       }}>
-        DMC Colors & Icons List
+        {sourceCatalog.name} Colors & Icons List
       </h4>
       
+      {/* Legend conversion to another brand */}
+      {conversionTargets.length > 0 && (
+        <div style={{ marginBottom: '1rem', display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <label style={{ fontSize: '0.85rem', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+            Convert legend to:
+          </label>
+          <select
+            value={convertCatalogId}
+            onChange={(e) => setConvertCatalogId(e.target.value)}
+            style={{
+              flex: 1,
+              padding: '4px 8px',
+              border: '2px solid black',
+              borderRadius: '4px',
+              fontFamily: 'Baskervville, serif',
+              fontWeight: '500'
+            }}
+          >
+            <option value="">— None —</option>
+            {conversionTargets.map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      
       <div style={{ 
         maxHeight: '400px', 
         overflowY: 'auto',
@@ -167,12 +194,47 @@ export default function DMCColorTable({ pattern, className = '' }: DMCColorTable
               }}>
                 Ratio
               </th>
+              {convertCatalog && (
+                <>
+                  <th style={{ 
+                    padding: '8px', 
+                    textAlign: 'left', 
+                    border: '1px solid white',
+                    fontFamily: 'Baskervville, serif',
+                    fontWeight: '500'
+                  }}>
+                    {convertCatalog.name} Match
+                  </th>
+                  <th style={{ 
+                    padding: '8px', 
+                    textAlign: 'center', 
+                    border: '1px solid white',
+                    fontFamily: 'Baskervville, serif',
+                    fontWeight: '500'
+                  }}>
+                    ΔE
+                  </th>
+                </>
+              )}
             </tr>
           </thead>
           <tbody>
             {tableData.map((entry, index) => (
+              <Fragment key={entry.dmcCode}>
+              {index === firstSpecialtyIndex && (
+                <tr>
+                  <td colSpan={convertCatalog ? 8 : 6} style={{ 
+                    padding: '6px',
+                    border: '1px solid black',
+                    backgroundColor: 'rgba(0,0,0,0.1)',
+                    fontFamily: 'Baskervville, serif',
+                    fontWeight: '700'
+                  }}>
+                    Specialty Drills (marked ◥)
+                  </td>
+                </tr>
+              )}
               <tr 
-                key={entry.dmcCode}
                 style={{ 
                   backgroundColor: index % 2 === 0 ? 'white' : 'rgba(0,0,0,0.05)'
                 }}
@@ -184,13 +246,26 @@ export default function DMCColorTable({ pattern, className = '' }: DMCColorTable
                   border: '1px solid black'
                 }}>
                   <div style={{
+                    position: 'relative',
                     width: '30px',
                     height: '20px',
                     backgroundColor: `rgb(${entry.color.r}, ${entry.color.g}, ${entry.color.b})`,
                     border: '1px solid black',
                     margin: '0 auto',
                     borderRadius: '2px'
-                  }} />
+                  }}>
+                    {entry.finish && (
+                      <span style={{
+                        position: 'absolute',
+                        top: 0,
+                        right: 0,
+                        width: 0,
+                        height: 0,
+                        borderTop: '8px solid black',
+                        borderLeft: '8px solid transparent'
+                      }} />
+                    )}
+                  </div>
                 </td>
                 
                 {/* Icon - SVG VECTOR (infinite resolution!) */}
@@ -218,7 +293,18 @@ export default function DMCColorTable({ pattern, className = '' }: DMCColorTable
                   fontWeight: '500',
                   fontFamily: 'Baskervville, serif'
                 }}>
-                  DMC {entry.dmcCode}
+                  {sourceCatalog.name} {entry.dmcCode}
+                  {entry.finish && (
+                    <span style={{
+                      marginLeft: '6px',
+                      padding: '0 4px',
+                      fontSize: '0.7rem',
+                      border: '1px solid black',
+                      borderRadius: '2px'
+                    }}>
+                      {entry.finish.label}
+                    </span>
+                  )}
                 </td>
                 
                 {/* Color Name */}
@@ -252,7 +338,45 @@ export default function DMCColorTable({ pattern, className = '' }: DMCColorTable
                 }}>
                   {entry.percentage.toFixed(1)}%
                 </td>
+                
+                {/* Cross-reference match */}
+                {convertCatalog && (() => {
+                  const match = crossReference.get(entry.dmcCode)
+                  return (
+                    <>
+                      <td style={{ 
+                        padding: '6px',
+                        border: '1px solid black',
+                        fontFamily: 'Baskervville, serif',
+                        fontWeight: '500'
+                      }}>
+                        {match && (
+                          <span style={{ display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
+                            <span style={{
+                              width: '16px',
+                              height: '12px',
+                              backgroundColor: `rgb(${match.match.r}, ${match.match.g}, ${match.match.b})`,
+                              border: '1px solid black',
+                              display: 'inline-block'
+                            }} />
+                            {match.match.code} · {match.match.name}
+                          </span>
+                        )}
+                      </td>
+                      <td style={{ 
+                        padding: '6px',
+                        textAlign: 'center',
+                        border: '1px solid black',
+                        fontFamily: 'Baskervville, serif',
+                        fontWeight: '500'
+                      }}>
+                        {match ? match.deltaE.toFixed(1) : '-'}
+                      </td>
+                    </>
+                  )
+                })()}
               </tr>
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -271,10 +395,59 @@ export default function DMCColorTable({ pattern, className = '' }: DMCColorTable
         <p><strong>Summary:</strong></p>
         <p>• Total <span style={{ fontWeight: 'bold', color: 'red' }}>{tableData.length}</span> colors used</p>
         <p>• Total {pattern.statistics.totalPixels.toLocaleString()} beads required</p>
+        {firstSpecialtyIndex >= 0 && (
+          <p>• Specialty drills: {tableData.slice(firstSpecialtyIndex).reduce((sum, entry) => sum + entry.count, 0).toLocaleString()} beads in {tableData.length - firstSpecialtyIndex} colors</p>
+        )}
 
-        <p>• Most used color: DMC {tableData[0]?.dmcCode} ({tableData[0]?.percentage.toFixed(1)}%)</p>
+        <p>• Most used color: {sourceCatalog.name} {tableData[0]?.dmcCode} ({tableData[0]?.percentage.toFixed(1)}%)</p>
+        {convertCatalog && crossReference.size > 0 && (
+          <p>• {convertCatalog.name} conversion: average ΔE {(Array.from(crossReference.values()).reduce((sum, e) => sum + e.deltaE, 0) / crossReference.size).toFixed(1)}</p>
+        )}
       </div>
       
+      {/* 📦 Inventory Shortfall */}
+      {pattern.statistics.inventory && (
+        <div style={{ 
+          marginTop: '1rem',
+          padding: '0.5rem',
+          backgroundColor: pattern.statistics.inventory.shortfall.length > 0 ? 'rgba(220, 53, 69, 0.05)' : 'rgba(40, 167, 69, 0.05)',
+          border: `1px solid ${pattern.statistics.inventory.shortfall.length > 0 ? '#dc3545' : '#28a745'}`,
+          fontSize: '0.8rem',
+          fontFamily: 'Baskervville, serif',
+          fontWeight: '500'
+        }}>
+          <p><strong>Drill Inventory:</strong></p>
+          {pattern.statistics.inventory.shortfall.length === 0 ? (
+            <p>• Pattern fits within your inventory ({pattern.statistics.inventory.totalOwned.toLocaleString()} drills owned)</p>
+          ) : (
+            <>
+              <p>• {pattern.statistics.inventory.substitutedBeads.toLocaleString()} beads moved to a substitute color to stay within stock</p>
+              <p>• Still short on these colors:</p>
+              <table style={{ width: '100%', fontSize: '0.8rem', marginTop: '0.25rem' }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid black' }}>
+                    <th style={{ padding: '0.25rem', textAlign: 'left', fontWeight: '500' }}>Code</th>
+                    <th style={{ padding: '0.25rem', textAlign: 'right', fontWeight: '500' }}>Owned</th>
+                    <th style={{ padding: '0.25rem', textAlign: 'right', fontWeight: '500' }}>Required</th>
+                    <th style={{ padding: '0.25rem', textAlign: 'right', fontWeight: '500' }}>Short</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pattern.statistics.inventory.shortfall.map(entry => (
+                    <tr key={entry.dmcColor.code}>
+                      <td style={{ padding: '0.25rem' }}>{sourceCatalog.name} {entry.dmcColor.code}</td>
+                      <td style={{ padding: '0.25rem', textAlign: 'right' }}>{entry.owned.toLocaleString()}</td>
+                      <td style={{ padding: '0.25rem', textAlign: 'right' }}>{entry.required.toLocaleString()}</td>
+                      <td style={{ padding: '0.25rem', textAlign: 'right', color: '#dc3545' }}>{entry.shortfall.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+      
       {/* Usage Instructions */}
       <div style={{ 
         marginTop: '1rem',
@@ -1,7 +1,19 @@
 'use client'
 
-import { useMemo, useState } from 'react'
-import { DMC_COLORS, type DMCColor } from '../utils/dmcColors'
+import { useEffect, useMemo, useState } from 'react'
+import { type DMCColor } from '../utils/dmcColors'
+import {
+  DEFAULT_CATALOG_ID,
+  buildCrossReference,
+  getDrillCatalog,
+  getDrillCatalogs,
+  loadStoredDrillCatalogs,
+  parseDrillCatalogCSV,
+  removeUserDrillCatalog,
+  saveUserDrillCatalog,
+  type CrossReferenceEntry,
+  type DrillCatalog,
+} from '../utils/drillCatalogs'
 
 function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
   const rn = r / 255
@@ -34,33 +46,89 @@ function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
 }
 
 // Sort by color: grayscales first (light → dark), then chromatic by hue → lightness
-const DMC_COLORS_SORTED: DMCColor[] = [...DMC_COLORS].sort((a, b) => {
-  const [ha, sa, la] = rgbToHsl(a.r, a.g, a.b)
-  const [hb, sb, lb] = rgbToHsl(b.r, b.g, b.b)
-  const aIsGray = sa < 0.1
-  const bIsGray = sb < 0.1
+function sortByColor(colors: DMCColor[]): DMCColor[] {
+  return [...colors].sort((a, b) => {
+    const [ha, sa, la] = rgbToHsl(a.r, a.g, a.b)
+    const [hb, sb, lb] = rgbToHsl(b.r, b.g, b.b)
+    const aIsGray = sa < 0.1
+    const bIsGray = sb < 0.1
 
-  if (aIsGray && !bIsGray) return -1
-  if (!aIsGray && bIsGray) return 1
-  if (aIsGray && bIsGray) return lb - la // light → dark
+    if (aIsGray && !bIsGray) return -1
+    if (!aIsGray && bIsGray) return 1
+    if (aIsGray && bIsGray) return lb - la // light → dark
 
-  if (Math.abs(ha - hb) > 1) return ha - hb
-  return lb - la
-})
+    if (Math.abs(ha - hb) > 1) return ha - hb
+    return lb - la
+  })
+}
 
 export default function DMCFullTable() {
   const [query, setQuery] = useState('')
+  const [catalogs, setCatalogs] = useState<DrillCatalog[]>(() => getDrillCatalogs())
+  const [catalogId, setCatalogId] = useState(DEFAULT_CATALOG_ID)
+  const [crossRefId, setCrossRefId] = useState('')
+  const [importName, setImportName] = useState('')
+  const [importMessage, setImportMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadStoredDrillCatalogs()
+    setCatalogs(getDrillCatalogs())
+  }, [])
+
+  const catalog = getDrillCatalog(catalogId)
+  const crossRefCatalog = crossRefId && crossRefId !== catalog.id ? getDrillCatalog(crossRefId) : null
+
+  const sortedColors = useMemo(() => sortByColor(catalog.colors), [catalog])
+
+  const crossReference = useMemo(() => {
+    const map = new Map<DMCColor, CrossReferenceEntry>()
+    if (!crossRefCatalog) return map
+    buildCrossReference(catalog.colors, crossRefCatalog).forEach((entry) => {
+      map.set(entry.source, entry)
+    })
+    return map
+  }, [catalog, crossRefCatalog])
 
   const filteredColors = useMemo(() => {
     const trimmed = query.trim().toLowerCase()
-    if (!trimmed) return DMC_COLORS_SORTED
-    return DMC_COLORS_SORTED.filter(
+    if (!trimmed) return sortedColors
+    return sortedColors.filter(
       (c) =>
         c.code.toLowerCase().includes(trimmed) ||
         c.name.toLowerCase().includes(trimmed) ||
         c.hex.toLowerCase().includes(trimmed),
     )
-  }, [query])
+  }, [query, sortedColors])
+
+  const handleCatalogFile = async (file: File) => {
+    const brandName = importName.trim() || file.name.replace(/\.[^/.]+$/, '')
+    const id = brandName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'custom'
+
+    if (catalogs.some((c) => c.id === id && c.builtIn)) {
+      setImportMessage(`"${brandName}" is a built-in catalog and cannot be replaced.`)
+      return
+    }
+
+    try {
+      const text = await file.text()
+      const imported = parseDrillCatalogCSV(text, id, brandName)
+      saveUserDrillCatalog(imported)
+      setCatalogs(getDrillCatalogs())
+      setCatalogId(imported.id)
+      setImportName('')
+      setImportMessage(`Imported ${imported.colors.length} ${brandName} colors.`)
+    } catch (error) {
+      setImportMessage(error instanceof Error ? error.message : 'Failed to import catalog.')
+    }
+  }
+
+  const handleRemoveCatalog = () => {
+    if (catalog.builtIn) return
+    removeUserDrillCatalog(catalog.id)
+    setCatalogs(getDrillCatalogs())
+    setCatalogId(DEFAULT_CATALOG_ID)
+    if (crossRefId === catalog.id) setCrossRefId('')
+  }
 
   const headerCellStyle: React.CSSProperties = {
     padding: '8px',
@@ -77,18 +145,110 @@ export default function DMCFullTable() {
     fontWeight: 500,
   }
 
+  const selectStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '0.5rem 0.75rem',
+    border: '2px solid black',
+    backgroundColor: 'white',
+    color: 'black',
+    fontFamily: 'Baskervville, serif',
+    fontWeight: 500,
+    fontSize: '0.95rem',
+  }
+
   return (
     <div
       className="dmc-full-table"
       style={{ fontFamily: 'Baskervville, serif', fontWeight: 500 }}
     >
+      {/* Brand & cross-reference selection */}
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', flex: 1, minWidth: '200px' }}>
+          Brand
+          <select value={catalog.id} onChange={(e) => setCatalogId(e.target.value)} style={selectStyle}>
+            {catalogs.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name} ({c.colors.length})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', flex: 1, minWidth: '200px' }}>
+          Cross-reference to
+          <select
+            value={crossRefCatalog ? crossRefCatalog.id : ''}
+            onChange={(e) => setCrossRefId(e.target.value)}
+            style={selectStyle}
+            disabled={catalogs.length < 2}
+          >
+            <option value="">— None —</option>
+            {catalogs
+              .filter((c) => c.id !== catalog.id)
+              .map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Brand catalog import */}
+      <div
+        style={{
+          marginBottom: '1rem',
+          padding: '0.75rem',
+          border: '1px solid black',
+          backgroundColor: 'rgba(0,0,0,0.03)',
+          fontSize: '0.85rem',
+        }}
+      >
+        <p style={{ marginBottom: '0.5rem' }}>
+          Add another brand from a CSV file with one color per line: <code>code,name,hex</code> (optional 4th column: AB, fluorescent, glow or metallic)
+        </p>
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={importName}
+            onChange={(e) => setImportName(e.target.value)}
+            placeholder="Brand name"
+            style={{ ...selectStyle, flex: '0 1 200px' }}
+          />
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleCatalogFile(file)
+              e.target.value = ''
+            }}
+          />
+          {!catalog.builtIn && (
+            <button
+              onClick={handleRemoveCatalog}
+              style={{
+                padding: '0.4rem 0.75rem',
+                border: '2px solid black',
+                backgroundColor: 'white',
+                cursor: 'pointer',
+                fontFamily: 'Baskervville, serif',
+                fontWeight: 500,
+              }}
+            >
+              Remove {catalog.name}
+            </button>
+          )}
+        </div>
+        {importMessage && <p style={{ marginTop: '0.5rem', opacity: 0.8 }}>{importMessage}</p>}
+      </div>
+
       {/* Search */}
       <div style={{ marginBottom: '1rem' }}>
         <input
           type="text"
           value={query}
           onChange={(e) => setQuery(e.target.value)}
-          placeholder="Search by DMC code, color name, or hex..."
+          placeholder={`Search by ${catalog.name} code, color name, or hex...`}
           style={{
             width: '100%',
             padding: '0.75rem 1rem',
@@ -113,7 +273,7 @@ export default function DMCFullTable() {
         }}
       >
         Showing <strong>{filteredColors.length.toLocaleString()}</strong> of{' '}
-        <strong>{DMC_COLORS_SORTED.length.toLocaleString()}</strong> DMC colors —
+        <strong>{sortedColors.length.toLocaleString()}</strong> {catalog.name} colors —
         sorted by color
       </p>
 
@@ -129,17 +289,23 @@ export default function DMCFullTable() {
           <thead style={{ backgroundColor: 'black', color: 'white' }}>
             <tr>
               <th style={headerCellStyle}>Color</th>
-              <th style={{ ...headerCellStyle, textAlign: 'left' }}>DMC Code</th>
+              <th style={{ ...headerCellStyle, textAlign: 'left' }}>{catalog.name} Code</th>
               <th style={{ ...headerCellStyle, textAlign: 'left' }}>Name</th>
               <th style={headerCellStyle}>RGB</th>
               <th style={headerCellStyle}>HEX</th>
+              {crossRefCatalog && (
+                <>
+                  <th style={{ ...headerCellStyle, textAlign: 'left' }}>{crossRefCatalog.name} Match</th>
+                  <th style={headerCellStyle}>ΔE</th>
+                </>
+              )}
             </tr>
           </thead>
           <tbody>
             {filteredColors.length === 0 ? (
               <tr>
                 <td
-                  colSpan={5}
+                  colSpan={crossRefCatalog ? 7 : 5}
                   style={{
                     ...bodyCellStyle,
                     textAlign: 'center',
@@ -147,13 +313,13 @@ export default function DMCFullTable() {
                     opacity: 0.6,
                   }}
                 >
-                  No DMC colors found for &quot;{query}&quot;
+                  No {catalog.name} colors found for &quot;{query}&quot;
                 </td>
               </tr>
             ) : (
               filteredColors.map((color, index) => (
                 <tr
-                  key={color.code}
+                  key={`${catalog.id}-${color.code}`}
                   style={{
                     backgroundColor:
                       index % 2 === 0 ? 'white' : 'rgba(0,0,0,0.04)',
@@ -174,7 +340,7 @@ export default function DMCFullTable() {
                       }}
                     />
                   </td>
-                  <td style={bodyCellStyle}>DMC {color.code}</td>
+                  <td style={bodyCellStyle}>{catalog.name} {color.code}</td>
                   <td style={bodyCellStyle}>{color.name}</td>
                   <td style={{ ...bodyCellStyle, textAlign: 'center' }}>
                     {color.r}, {color.g}, {color.b}
@@ -188,6 +354,32 @@ export default function DMCFullTable() {
                   >
                     #{color.hex}
                   </td>
+                  {crossRefCatalog && (() => {
+                    const entry = crossReference.get(color)
+                    return (
+                      <>
+                        <td style={bodyCellStyle}>
+                          {entry && (
+                            <span style={{ display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
+                              <span
+                                style={{
+                                  width: '20px',
+                                  height: '14px',
+                                  backgroundColor: `rgb(${entry.match.r}, ${entry.match.g}, ${entry.match.b})`,
+                                  border: '1px solid black',
+                                  display: 'inline-block',
+                                }}
+                              />
+                              {crossRefCatalog.name} {entry.match.code}
+                            </span>
+                          )}
+                        </td>
+                        <td style={{ ...bodyCellStyle, textAlign: 'center' }}>
+                          {entry ? entry.deltaE.toFixed(1) : '-'}
+                        </td>
+                      </>
+                    )
+                  })()}
                 </tr>
               ))
             )}
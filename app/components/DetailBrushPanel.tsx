@@ -0,0 +1,220 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { loadImageData, resizeImageForDisplay } from '../utils/imagePixelization'
+import {
+  DETAIL_KEEP,
+  DETAIL_SIMPLIFY,
+  createDetailMask,
+  hasDetailMask,
+  paintDetailMask,
+  type DetailBrushMode,
+  type DetailMask
+} from '../utils/detailMask'
+
+interface DetailBrushPanelProps {
+  imageSrc: string
+  mask: DetailMask | null
+  onMaskChange: (mask: DetailMask | null) => void
+  simplifyColorCount: number
+  onSimplifyColorCountChange: (count: number) => void
+  appliedMask?: DetailMask | null // Mask of the current pattern, to flag pending changes
+}
+
+// Painting works on a downscaled copy; the mask is stored at this resolution
+const PREVIEW_MAX_SIZE = 360
+
+const BRUSH_MODES: Array<{ mode: DetailBrushMode, label: string, color: string }> = [
+  { mode: 'keep', label: 'Keep Detail', color: 'rgba(22, 163, 74, 0.45)' },
+  { mode: 'simplify', label: 'Simplify', color: 'rgba(37, 99, 235, 0.45)' },
+  { mode: 'erase', label: 'Erase', color: 'transparent' }
+]
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  fontSize: '0.75rem',
+  backgroundColor: 'white',
+  border: '1px solid black',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: 'Baskervville, serif',
+  fontWeight: '500'
+}
+
+export default function DetailBrushPanel({
+  imageSrc,
+  mask,
+  onMaskChange,
+  simplifyColorCount,
+  onSimplifyColorCountChange,
+  appliedMask
+}: DetailBrushPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const isPaintingRef = useRef<boolean>(false)
+  const [source, setSource] = useState<ImageData | null>(null)
+  const [draft, setDraft] = useState<DetailMask | null>(null) // Mask while a stroke is in progress
+  const [brushMode, setBrushMode] = useState<DetailBrushMode>('keep')
+  const [brushSize, setBrushSize] = useState<number>(12)
+
+  // Load a small copy of the source image
+  useEffect(() => {
+    let cancelled = false
+    resizeImageForDisplay(imageSrc, PREVIEW_MAX_SIZE, PREVIEW_MAX_SIZE)
+      .then(loadImageData)
+      .then(data => {
+        if (!cancelled) setSource(data)
+      })
+      .catch(error => console.error('Failed to load brush preview:', error))
+    return () => { cancelled = true }
+  }, [imageSrc])
+
+  const shownMask = draft || mask
+
+  // Draw the image with painted regions tinted on top
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !source) return
+
+    canvas.width = source.width
+    canvas.height = source.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    ctx.putImageData(source, 0, 0)
+    if (!shownMask) return
+
+    const scaleX = source.width / shownMask.width
+    const scaleY = source.height / shownMask.height
+    for (let y = 0; y < shownMask.height; y++) {
+      for (let x = 0; x < shownMask.width; x++) {
+        const value = shownMask.values[y * shownMask.width + x]
+        if (value === 0) continue
+        ctx.fillStyle = value === DETAIL_KEEP ? BRUSH_MODES[0].color : BRUSH_MODES[1].color
+        ctx.fillRect(x * scaleX, y * scaleY, Math.ceil(scaleX), Math.ceil(scaleY))
+      }
+    }
+  }, [source, shownMask])
+
+  const paintAt = (e: React.MouseEvent<HTMLCanvasElement>, base: DetailMask) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const x = ((e.clientX - rect.left) / rect.width) * base.width
+    const y = ((e.clientY - rect.top) / rect.height) * base.height
+    setDraft(paintDetailMask(base, x, y, brushSize / 2, brushMode))
+  }
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!source) return
+    isPaintingRef.current = true
+    const base = mask && mask.width === source.width && mask.height === source.height
+      ? mask
+      : createDetailMask(source.width, source.height)
+    paintAt(e, base)
+  }
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!isPaintingRef.current || !draft) return
+    paintAt(e, draft)
+  }
+
+  // Commit the stroke to the parent once, not on every mouse move
+  const handleMouseUp = () => {
+    if (!isPaintingRef.current) return
+    isPaintingRef.current = false
+    if (draft) {
+      onMaskChange(hasDetailMask(draft) ? draft : null)
+      setDraft(null)
+    }
+  }
+
+  const countCells = (value: number) => {
+    if (!shownMask) return 0
+    let count = 0
+    for (let i = 0; i < shownMask.values.length; i++) {
+      if (shownMask.values[i] === value) count++
+    }
+    return count
+  }
+  const totalCells = shownMask ? shownMask.values.length : 1
+  const keepPercent = Math.round((countCells(DETAIL_KEEP) / totalCells) * 100)
+  const simplifyPercent = Math.round((countCells(DETAIL_SIMPLIFY) / totalCells) * 100)
+
+  const isPending = (appliedMask ?? null) !== mask
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', gap: '0.5rem', overflow: 'auto', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+      <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+        {source ? (
+          <canvas
+            ref={canvasRef}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+            style={{ maxWidth: '100%', maxHeight: '260px', border: '1px solid black', cursor: 'crosshair' }}
+          />
+        ) : (
+          <p style={{ fontSize: '0.8rem', color: '#666' }}>Loading preview...</p>
+        )}
+        <p style={{ fontSize: '0.7rem', color: '#666', margin: 0 }}>
+          Keep detail: {keepPercent}% · Simplify: {simplifyPercent}%
+        </p>
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.4rem', flexWrap: 'wrap' }}>
+        {BRUSH_MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => setBrushMode(option.mode)}
+            style={{
+              ...buttonStyle,
+              backgroundColor: brushMode === option.mode ? 'black' : 'white',
+              color: brushMode === option.mode ? 'white' : 'black'
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+        <button style={buttonStyle} disabled={!mask} onClick={() => onMaskChange(null)}>
+          Clear
+        </button>
+      </div>
+
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.75rem' }}>
+          <span>Brush Size</span>
+          <span>{brushSize}px</span>
+        </div>
+        <input
+          type="range"
+          min="2"
+          max="60"
+          value={brushSize}
+          onChange={(e) => setBrushSize(Number(e.target.value))}
+          style={{ width: '100%' }}
+        />
+      </div>
+
+      <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.75rem' }}>
+        <span>Colors in simplified areas</span>
+        <input
+          type="number"
+          min="1"
+          max="20"
+          value={simplifyColorCount}
+          onChange={(e) => onSimplifyColorCountChange(Math.max(1, Math.min(20, Number(e.target.value) || 1)))}
+          style={{ width: '60px', padding: '2px 6px', border: '1px solid black', borderRadius: '4px', fontFamily: 'Baskervville, serif' }}
+        />
+      </label>
+
+      <p style={{ fontSize: '0.7rem', color: '#666', fontStyle: 'italic', margin: 0 }}>
+        Keep-detail colors are never merged away; simplified areas share a few colors taken from the color budget.
+      </p>
+
+      {isPending && (
+        <p style={{ fontSize: '0.75rem', color: '#b45309', fontStyle: 'italic', margin: 0 }}>
+          Brush changed — generate the pattern to apply it.
+        </p>
+      )}
+    </div>
+  )
+}
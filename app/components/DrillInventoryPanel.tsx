@@ -0,0 +1,248 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { getDrillCatalog } from '../utils/drillCatalogs'
+import { resolveDrillCode } from '../utils/drillFinishes'
+import {
+  getDrillInventory,
+  setDrillInventoryQuantity,
+  removeDrillInventoryItem,
+  clearDrillInventory,
+  parseInventoryInput,
+  type DrillInventoryItem
+} from '../utils/drillInventory'
+
+interface DrillInventoryPanelProps {
+  catalogId?: string
+  disabled?: boolean
+  onInventoryChange?: (items: DrillInventoryItem[]) => void
+}
+
+export default function DrillInventoryPanel({
+  catalogId,
+  disabled = false,
+  onInventoryChange
+}: DrillInventoryPanelProps) {
+  const catalog = getDrillCatalog(catalogId)
+
+  const [items, setItems] = useState<DrillInventoryItem[]>([])
+  const [bulkInput, setBulkInput] = useState<string>('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+
+  // Keep the latest callback without re-triggering the load effect
+  const onInventoryChangeRef = useRef(onInventoryChange)
+  onInventoryChangeRef.current = onInventoryChange
+
+  const reload = useCallback(async () => {
+    try {
+      const stored = await getDrillInventory(catalog.id)
+      stored.sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }))
+      setItems(stored)
+      onInventoryChangeRef.current?.(stored)
+    } catch (error) {
+      setMessage('Inventory storage is not available in this browser.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [catalog.id])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  // 📦 Add or update quantities from "code:quantity" input
+  const handleBulkAdd = async () => {
+    const parsed = parseInventoryInput(bulkInput)
+    const unknown = parsed.filter(item => !resolveDrillCode(catalog, item.code)).map(item => item.code)
+    const valid = parsed.filter(item => resolveDrillCode(catalog, item.code))
+
+    if (valid.length === 0) {
+      setMessage(unknown.length > 0 ? `Unknown codes: ${unknown.join(', ')}` : 'Enter entries like 310:500, 817:200')
+      return
+    }
+
+    for (const item of valid) {
+      await setDrillInventoryQuantity(catalog.id, item.code, item.quantity)
+    }
+    setBulkInput('')
+    setMessage(`Saved ${valid.length} colors.${unknown.length > 0 ? ` Unknown codes skipped: ${unknown.join(', ')}` : ''}`)
+    await reload()
+  }
+
+  const handleQuantityChange = async (code: string, quantity: number) => {
+    await setDrillInventoryQuantity(catalog.id, code, quantity)
+    await reload()
+  }
+
+  const handleRemove = async (code: string) => {
+    await removeDrillInventoryItem(catalog.id, code)
+    await reload()
+  }
+
+  const handleClear = async () => {
+    if (!confirm(`Remove all ${catalog.name} colors from your inventory?`)) return
+    await clearDrillInventory(catalog.id)
+    await reload()
+  }
+
+  const totalDrills = items.reduce((sum, item) => sum + item.quantity, 0)
+
+  return (
+    <div style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+      <p style={{ marginBottom: '0.5rem', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+        Add owned drills as code:quantity, separated by commas. Example: 310:500, 817:200
+      </p>
+
+      <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-start', marginBottom: '0.5rem' }}>
+        <textarea
+          value={bulkInput}
+          onChange={(e) => setBulkInput(e.target.value)}
+          disabled={disabled}
+          placeholder="310:500, 817:200, 666:150"
+          style={{
+            flex: 1,
+            minHeight: '60px',
+            padding: '8px',
+            border: '2px solid black',
+            borderRadius: '4px',
+            fontSize: '0.9rem',
+            resize: 'vertical',
+            fontFamily: 'monospace',
+            boxSizing: 'border-box'
+          }}
+        />
+        <button
+          onClick={handleBulkAdd}
+          disabled={disabled || !bulkInput.trim()}
+          style={{
+            padding: '8px 16px',
+            fontSize: '1rem',
+            backgroundColor: (disabled || !bulkInput.trim()) ? '#ccc' : 'black',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: (disabled || !bulkInput.trim()) ? 'not-allowed' : 'pointer',
+            fontWeight: '500',
+            fontFamily: 'Baskervville, serif'
+          }}
+        >
+          Save
+        </button>
+      </div>
+
+      {message && (
+        <p style={{ fontSize: '0.8rem', color: '#666', fontStyle: 'italic', marginBottom: '0.5rem' }}>
+          {message}
+        </p>
+      )}
+
+      <div style={{
+        border: '2px solid black',
+        borderRadius: '8px',
+        padding: '0.75rem',
+        backgroundColor: 'rgba(0,0,0,0.02)'
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+          <h4 style={{ fontWeight: '500', fontSize: '1rem', margin: 0, fontFamily: 'Baskervville, serif' }}>
+            My {catalog.name} Inventory
+          </h4>
+          <span style={{ fontSize: '0.8rem' }}>
+            {items.length} colors · {totalDrills.toLocaleString()} drills
+          </span>
+        </div>
+
+        {isLoading ? (
+          <p style={{ fontSize: '0.85rem', color: '#666' }}>Loading inventory...</p>
+        ) : items.length === 0 ? (
+          <p style={{ fontSize: '0.85rem', color: '#666' }}>No drills recorded yet.</p>
+        ) : (
+          <div style={{ maxHeight: '220px', overflowY: 'auto' }}>
+            <table style={{ width: '100%', fontSize: '0.8rem' }}>
+              <thead>
+                <tr style={{ borderBottom: '1px solid black' }}>
+                  <th style={{ padding: '0.3rem', textAlign: 'left', fontWeight: '500' }}>Code</th>
+                  <th style={{ padding: '0.3rem', textAlign: 'left', fontWeight: '500' }}>Color</th>
+                  <th style={{ padding: '0.3rem', textAlign: 'right', fontWeight: '500' }}>Quantity</th>
+                  <th style={{ padding: '0.3rem' }} />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => {
+                  const color = resolveDrillCode(catalog, item.code)
+                  return (
+                    <tr key={item.code}>
+                      <td style={{ padding: '0.3rem' }}>{item.code}</td>
+                      <td style={{ padding: '0.3rem' }}>
+                        {color && (
+                          <div
+                            title={color.name}
+                            style={{
+                              width: '30px',
+                              height: '20px',
+                              backgroundColor: `rgb(${color.r}, ${color.g}, ${color.b})`,
+                              border: '1px solid black',
+                              borderRadius: '2px'
+                            }}
+                          />
+                        )}
+                      </td>
+                      <td style={{ padding: '0.3rem', textAlign: 'right' }}>
+                        <input
+                          type="number"
+                          min="0"
+                          defaultValue={item.quantity}
+                          disabled={disabled}
+                          onBlur={(e) => {
+                            const quantity = Math.max(0, Number(e.target.value))
+                            if (quantity !== item.quantity) handleQuantityChange(item.code, quantity)
+                          }}
+                          style={{
+                            width: '80px',
+                            padding: '2px 4px',
+                            border: '1px solid black',
+                            borderRadius: '2px',
+                            textAlign: 'right'
+                          }}
+                        />
+                      </td>
+                      <td style={{ padding: '0.3rem', textAlign: 'center' }}>
+                        <button
+                          onClick={() => handleRemove(item.code)}
+                          disabled={disabled}
+                          title="Remove"
+                          style={{ background: 'none', border: 'none', cursor: 'pointer' }}
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <button
+            onClick={handleClear}
+            disabled={disabled}
+            style={{
+              marginTop: '0.5rem',
+              padding: '4px 12px',
+              fontSize: '0.8rem',
+              backgroundColor: 'white',
+              border: '1px solid black',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontFamily: 'Baskervville, serif'
+            }}
+          >
+            Clear inventory
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { loadImageData, resizeImageForDisplay } from '../utils/imagePixelization'
+import {
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  applyImageAdjustments,
+  hasImageAdjustments,
+  sampleWhiteBalanceColor,
+  type ImageAdjustments
+} from '../utils/imageAdjustments'
+
+interface ImageAdjustmentPanelProps {
+  imageSrc: string
+  adjustments: ImageAdjustments
+  onAdjustmentsChange: (adjustments: ImageAdjustments) => void
+  appliedAdjustments?: ImageAdjustments // Settings of the current pattern, to flag pending changes
+}
+
+// Preview works on a downscaled copy so sliders stay responsive
+const PREVIEW_MAX_SIZE = 360
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  fontSize: '0.75rem',
+  fontFamily: 'Baskervville, serif',
+  fontWeight: '500'
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  fontSize: '0.75rem',
+  backgroundColor: 'white',
+  border: '1px solid black',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: 'Baskervville, serif',
+  fontWeight: '500'
+}
+
+export default function ImageAdjustmentPanel({
+  imageSrc,
+  adjustments,
+  onAdjustmentsChange,
+  appliedAdjustments
+}: ImageAdjustmentPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [before, setBefore] = useState<ImageData | null>(null)
+  const [after, setAfter] = useState<ImageData | null>(null)
+  const [split, setSplit] = useState<number>(50) // % of width showing the original
+  const [isPickingWhite, setIsPickingWhite] = useState<boolean>(false)
+
+  // Load a small copy of the source image
+  useEffect(() => {
+    let cancelled = false
+    resizeImageForDisplay(imageSrc, PREVIEW_MAX_SIZE, PREVIEW_MAX_SIZE)
+      .then(loadImageData)
+      .then(data => {
+        if (!cancelled) setBefore(data)
+      })
+      .catch(error => console.error('Failed to load adjustment preview:', error))
+    return () => { cancelled = true }
+  }, [imageSrc])
+
+  // Re-run the adjustment pipeline on the preview copy
+  useEffect(() => {
+    if (!before) return
+    setAfter(applyImageAdjustments(before, adjustments))
+  }, [before, adjustments])
+
+  // Draw original on the left of the split, adjusted on the right
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !before || !after) return
+
+    canvas.width = before.width
+    canvas.height = before.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    const splitX = Math.round((split / 100) * before.width)
+    ctx.putImageData(after, 0, 0)
+    ctx.putImageData(before, 0, 0, 0, 0, splitX, before.height)
+
+    ctx.strokeStyle = 'white'
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    ctx.moveTo(splitX, 0)
+    ctx.lineTo(splitX, before.height)
+    ctx.stroke()
+  }, [before, after, split])
+
+  const update = (changes: Partial<ImageAdjustments>) => {
+    onAdjustmentsChange({ ...adjustments, ...changes })
+  }
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!isPickingWhite || !before) return
+
+    const rect = e.currentTarget.getBoundingClientRect()
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * before.width)
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * before.height)
+    update({ whiteBalance: sampleWhiteBalanceColor(before, x, y) })
+    setIsPickingWhite(false)
+  }
+
+  const isPending = JSON.stringify(appliedAdjustments ?? DEFAULT_IMAGE_ADJUSTMENTS) !== JSON.stringify(adjustments)
+
+  const sliders: Array<{ key: 'brightness' | 'contrast' | 'gamma' | 'saturation' | 'claheClipLimit', label: string, min: number, max: number, step: number }> = [
+    { key: 'brightness', label: 'Brightness', min: -100, max: 100, step: 1 },
+    { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+    { key: 'gamma', label: 'Gamma', min: 0.2, max: 3, step: 0.05 },
+    { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+    { key: 'claheClipLimit', label: 'Local Contrast (CLAHE)', min: 0, max: 4, step: 0.5 }
+  ]
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', gap: '0.5rem', overflow: 'auto', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+      <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+        {before ? (
+          <canvas
+            ref={canvasRef}
+            onClick={handleCanvasClick}
+            style={{ maxWidth: '100%', maxHeight: '260px', border: '1px solid black', cursor: isPickingWhite ? 'crosshair' : 'default' }}
+          />
+        ) : (
+          <p style={{ fontSize: '0.8rem', color: '#666' }}>Loading preview...</p>
+        )}
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={split}
+          onChange={(e) => setSplit(Number(e.target.value))}
+          style={{ width: '100%', maxWidth: '360px' }}
+          aria-label="Before / after split"
+        />
+        <p style={{ fontSize: '0.7rem', color: '#666', margin: 0 }}>
+          ← Before | After →{isPickingWhite ? ' — click something that should be white or gray' : ''}
+        </p>
+      </div>
+
+      {sliders.map(slider => (
+        <div key={slider.key}>
+          <div style={labelStyle}>
+            <span>{slider.label}</span>
+            <span>{slider.key === 'gamma' ? adjustments.gamma.toFixed(2) : adjustments[slider.key]}</span>
+          </div>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={adjustments[slider.key]}
+            onChange={(e) => update({ [slider.key]: Number(e.target.value) })}
+            style={{ width: '100%' }}
+          />
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+        <label style={{ ...labelStyle, gap: '0.3rem', alignItems: 'center' }}>
+          <input
+            type="checkbox"
+            checked={adjustments.autoLevels}
+            onChange={(e) => update({ autoLevels: e.target.checked })}
+          />
+          Auto Levels
+        </label>
+        <button
+          style={{ ...buttonStyle, backgroundColor: isPickingWhite ? 'black' : 'white', color: isPickingWhite ? 'white' : 'black' }}
+          onClick={() => setIsPickingWhite(!isPickingWhite)}
+        >
+          Pick White Balance
+        </button>
+        {adjustments.whiteBalance && (
+          <>
+            <div
+              title={`Neutral reference rgb(${adjustments.whiteBalance.r}, ${adjustments.whiteBalance.g}, ${adjustments.whiteBalance.b})`}
+              style={{
+                width: '18px',
+                height: '18px',
+                border: '1px solid black',
+                backgroundColor: `rgb(${adjustments.whiteBalance.r}, ${adjustments.whiteBalance.g}, ${adjustments.whiteBalance.b})`
+              }}
+            />
+            <button style={buttonStyle} onClick={() => update({ whiteBalance: null })}>
+              Clear
+            </button>
+          </>
+        )}
+        <button
+          style={buttonStyle}
+          disabled={!hasImageAdjustments(adjustments)}
+          onClick={() => onAdjustmentsChange(DEFAULT_IMAGE_ADJUSTMENTS)}
+        >
+          Reset
+        </button>
+      </div>
+
+      {isPending && (
+        <p style={{ fontSize: '0.75rem', color: '#b45309', fontStyle: 'italic', margin: 0 }}>
+          Adjustments changed — generate the pattern to apply them.
+        </p>
+      )}
+    </div>
+  )
+}
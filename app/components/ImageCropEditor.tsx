@@ -0,0 +1,330 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import {
+  CANVAS_SIZE_PRESETS,
+  DEFAULT_IMAGE_TRANSFORM,
+  applyImageTransform,
+  createTransformedCanvas,
+  clampCropRect,
+  fitCropToAspect,
+  getLargestInscribedRect,
+  getRotatedSize,
+  getTotalRotation,
+  type CropRect,
+  type ImageTransform
+} from '../utils/imageTransform'
+import { imageDataToDataURL } from '../utils/imagePixelization'
+
+export interface ImageCropResult {
+  dataUrl: string
+  width: number
+  height: number
+  transform: ImageTransform
+  canvasSizeCm: { width: number, height: number } | null // Set when cropped to a standard canvas size
+}
+
+interface ImageCropEditorProps {
+  imageSrc: string // Original (untransformed) image
+  initialTransform?: ImageTransform
+  onApply: (result: ImageCropResult) => void
+  onCancel: () => void
+}
+
+const MAX_DISPLAY_SIZE = 480
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  fontSize: '0.85rem',
+  backgroundColor: 'white',
+  border: '1px solid black',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: 'Baskervville, serif',
+  fontWeight: '500'
+}
+
+export default function ImageCropEditor({
+  imageSrc,
+  initialTransform = DEFAULT_IMAGE_TRANSFORM,
+  onApply,
+  onCancel
+}: ImageCropEditorProps) {
+  const imageRef = useRef<HTMLImageElement | null>(null)
+  const transformedRef = useRef<HTMLCanvasElement | null>(null)
+  const displayRef = useRef<HTMLCanvasElement>(null)
+  const dragStartRef = useRef<{ x: number, y: number } | null>(null)
+
+  const [isLoaded, setIsLoaded] = useState<boolean>(false)
+  const [transform, setTransform] = useState<ImageTransform>(initialTransform)
+  const [aspectPreset, setAspectPreset] = useState<string>('free') // 'free' or preset label
+  const [landscape, setLandscape] = useState<boolean>(false)
+  const [bounds, setBounds] = useState<{ width: number, height: number }>({ width: 0, height: 0 })
+
+  const preset = CANVAS_SIZE_PRESETS.find(p => p.label === aspectPreset) || null
+  const aspect = preset
+    ? (landscape ? preset.heightCm / preset.widthCm : preset.widthCm / preset.heightCm)
+    : null
+
+  // Load the original image once
+  useEffect(() => {
+    const img = new Image()
+    img.onload = () => {
+      imageRef.current = img
+      setIsLoaded(true)
+    }
+    img.onerror = () => alert('Failed to load image for editing.')
+    img.src = imageSrc
+  }, [imageSrc])
+
+  // Rebuild the rotated/mirrored image when rotation or mirroring changes
+  useEffect(() => {
+    const img = imageRef.current
+    if (!isLoaded || !img) return
+
+    const canvas = createTransformedCanvas(img, img.width, img.height, { ...transform, crop: null })
+    transformedRef.current = canvas
+    setBounds({ width: canvas.width, height: canvas.height })
+  }, [isLoaded, transform.quarterTurns, transform.straightenAngle, transform.flipHorizontal])
+
+  // Draw preview with crop overlay
+  useEffect(() => {
+    const source = transformedRef.current
+    const display = displayRef.current
+    if (!source || !display) return
+
+    const scale = Math.min(1, MAX_DISPLAY_SIZE / Math.max(source.width, source.height))
+    display.width = Math.round(source.width * scale)
+    display.height = Math.round(source.height * scale)
+
+    const ctx = display.getContext('2d')
+    if (!ctx) return
+
+    ctx.drawImage(source, 0, 0, display.width, display.height)
+
+    if (transform.crop) {
+      const crop = transform.crop
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'
+      ctx.beginPath()
+      ctx.rect(0, 0, display.width, display.height)
+      ctx.rect(crop.x * scale, crop.y * scale, crop.width * scale, crop.height * scale)
+      ctx.fill('evenodd')
+
+      ctx.strokeStyle = 'white'
+      ctx.lineWidth = 2
+      ctx.strokeRect(crop.x * scale, crop.y * scale, crop.width * scale, crop.height * scale)
+    }
+  }, [bounds, transform.crop])
+
+  // Free rotation leaves blank corners; default the crop to the largest clean rectangle
+  const updateRotation = (quarterTurns: number, straightenAngle: number) => {
+    const img = imageRef.current
+    if (!img) return
+
+    const degrees = quarterTurns * 90 + straightenAngle
+    const inscribed = getLargestInscribedRect(img.width, img.height, degrees)
+    const { width, height } = getRotatedSize(img.width, img.height, degrees)
+    const crop = straightenAngle !== 0 || aspect
+      ? (aspect ? fitCropToAspect(inscribed, aspect, width, height) : inscribed)
+      : null
+
+    setTransform(prev => ({ ...prev, quarterTurns, straightenAngle, crop }))
+  }
+
+  const handleAspectChange = (presetLabel: string, isLandscape: boolean) => {
+    setAspectPreset(presetLabel)
+    setLandscape(isLandscape)
+
+    const selected = CANVAS_SIZE_PRESETS.find(p => p.label === presetLabel)
+    if (!selected || !bounds.width) return
+
+    const ratio = isLandscape ? selected.heightCm / selected.widthCm : selected.widthCm / selected.heightCm
+    const base = transform.crop || { x: 0, y: 0, width: bounds.width, height: bounds.height }
+    setTransform(prev => ({ ...prev, crop: fitCropToAspect(base, ratio, bounds.width, bounds.height) }))
+  }
+
+  // Convert a mouse position to transformed-image pixels
+  const toImagePoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * bounds.width,
+      y: ((e.clientY - rect.top) / rect.height) * bounds.height
+    }
+  }
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    dragStartRef.current = toImagePoint(e)
+  }
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current
+    if (!start) return
+
+    const point = toImagePoint(e)
+    let width = Math.abs(point.x - start.x)
+    let height = Math.abs(point.y - start.y)
+    if (aspect) {
+      // Aspect-locked: the larger drag direction wins
+      if (width / height > aspect) {
+        height = width / aspect
+      } else {
+        width = height * aspect
+      }
+    }
+
+    const crop: CropRect = {
+      x: point.x < start.x ? start.x - width : start.x,
+      y: point.y < start.y ? start.y - height : start.y,
+      width,
+      height
+    }
+    if (crop.width < 4 || crop.height < 4) return
+
+    const clamped = clampCropRect(crop, bounds.width, bounds.height)
+    setTransform(prev => ({
+      ...prev,
+      crop: aspect ? fitCropToAspect(clamped, aspect, bounds.width, bounds.height) : clamped
+    }))
+  }
+
+  const handleMouseUp = () => {
+    dragStartRef.current = null
+  }
+
+  const handleApply = () => {
+    const img = imageRef.current
+    if (!img) return
+
+    const imageData = applyImageTransform(img, img.width, img.height, transform)
+    onApply({
+      dataUrl: imageDataToDataURL(imageData),
+      width: imageData.width,
+      height: imageData.height,
+      transform,
+      canvasSizeCm: preset
+        ? { width: landscape ? preset.heightCm : preset.widthCm, height: landscape ? preset.widthCm : preset.heightCm }
+        : null
+    })
+  }
+
+  const outputWidth = transform.crop ? Math.round(transform.crop.width) : bounds.width
+  const outputHeight = transform.crop ? Math.round(transform.crop.height) : bounds.height
+
+  return (
+    <div style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+      <h3 style={{ fontSize: '1.1rem', fontWeight: '700', marginBottom: '0.75rem', fontFamily: 'Baskervville, serif' }}>
+        Crop & Rotate
+      </h3>
+
+      <div style={{ display: 'flex', justifyContent: 'center', marginBottom: '0.75rem' }}>
+        {isLoaded ? (
+          <canvas
+            ref={displayRef}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+            style={{ maxWidth: '100%', border: '2px solid black', cursor: 'crosshair' }}
+          />
+        ) : (
+          <p style={{ fontSize: '0.9rem', color: '#666' }}>Loading image...</p>
+        )}
+      </div>
+
+      <p style={{ fontSize: '0.8rem', color: '#666', fontStyle: 'italic', marginBottom: '0.75rem' }}>
+        Drag on the image to select the crop area. Result: {outputWidth} × {outputHeight}px
+      </p>
+
+      {/* Rotation */}
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+        <button style={buttonStyle} onClick={() => updateRotation((transform.quarterTurns + 3) % 4, transform.straightenAngle)}>
+          ⟲ 90°
+        </button>
+        <button style={buttonStyle} onClick={() => updateRotation((transform.quarterTurns + 1) % 4, transform.straightenAngle)}>
+          ⟳ 90°
+        </button>
+        <button
+          style={{ ...buttonStyle, backgroundColor: transform.flipHorizontal ? 'black' : 'white', color: transform.flipHorizontal ? 'white' : 'black' }}
+          onClick={() => setTransform(prev => ({
+            ...prev,
+            flipHorizontal: !prev.flipHorizontal,
+            // Keep the crop over the same part of the picture
+            crop: prev.crop && { ...prev.crop, x: bounds.width - prev.crop.x - prev.crop.width }
+          }))}
+        >
+          Mirror
+        </button>
+        <button style={buttonStyle} onClick={() => setTransform(prev => ({ ...prev, crop: null }))}>
+          Clear crop
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={() => {
+            setAspectPreset('free')
+            setLandscape(false)
+            setTransform(DEFAULT_IMAGE_TRANSFORM)
+          }}
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="form-group" style={{ marginBottom: '0.75rem' }}>
+        <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+          Straighten: {transform.straightenAngle.toFixed(1)}° (total {getTotalRotation(transform).toFixed(1)}°)
+        </label>
+        <input
+          type="range"
+          min="-45"
+          max="45"
+          step="0.5"
+          value={transform.straightenAngle}
+          onChange={(e) => updateRotation(transform.quarterTurns, Number(e.target.value))}
+          style={{ width: '100%' }}
+        />
+      </div>
+
+      {/* Aspect lock */}
+      <div className="form-group" style={{ marginBottom: '1rem' }}>
+        <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Crop Shape</label>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <select
+            value={aspectPreset}
+            onChange={(e) => handleAspectChange(e.target.value, landscape)}
+            style={{
+              flex: 1,
+              padding: '6px',
+              border: '2px solid black',
+              borderRadius: '4px',
+              fontFamily: 'Baskervville, serif',
+              fontWeight: '500'
+            }}
+          >
+            <option value="free">Free</option>
+            {CANVAS_SIZE_PRESETS.map(p => (
+              <option key={p.label} value={p.label}>Canvas {p.label}</option>
+            ))}
+          </select>
+          {preset && preset.widthCm !== preset.heightCm && (
+            <button style={buttonStyle} onClick={() => handleAspectChange(aspectPreset, !landscape)}>
+              {landscape ? 'Landscape' : 'Portrait'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+        <button style={buttonStyle} onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!isLoaded}
+          style={{ ...buttonStyle, backgroundColor: 'black', color: 'white', border: 'none' }}
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  )
+}
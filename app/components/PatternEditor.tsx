@@ -0,0 +1,402 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { DMCFirstPattern } from '../hooks/useDMCFirstPatternGeneration'
+import { type DMCColor } from '../utils/dmcColors'
+import { getDrillCatalog } from '../utils/drillCatalogs'
+import { EMPTY_CELL, getCellColor, getUsedColors, type PatternGrid } from '../utils/patternGrid'
+import {
+  copySelection,
+  createLassoSelection,
+  createRectSelection,
+  fillRegion,
+  hasSelection,
+  mirrorBeads,
+  moveSelection,
+  paintBeads,
+  pasteClip,
+  restrictToShape,
+  type BeadPoint,
+  type BeadSelection,
+  type MirrorAxis
+} from '../utils/patternEditing'
+
+interface PatternEditorProps {
+  pattern: DMCFirstPattern
+  onEdit: (grid: PatternGrid) => void
+  onUndo: () => void
+  onRedo: () => void
+  canUndo: boolean
+  canRedo: boolean
+  maxSize?: number // Largest canvas side in pixels
+}
+
+type EditorTool = 'pencil' | 'fill' | 'eyedropper' | 'rect' | 'lasso' | 'move' | 'paste'
+
+const TOOLS: Array<{ tool: EditorTool, label: string, title: string }> = [
+  { tool: 'pencil', label: 'Pencil', title: 'Paint single beads' },
+  { tool: 'fill', label: 'Fill', title: 'Recolor a connected same-color region' },
+  { tool: 'eyedropper', label: 'Pick', title: 'Take the color of a bead' },
+  { tool: 'rect', label: 'Rect Select', title: 'Select a rectangle' },
+  { tool: 'lasso', label: 'Lasso', title: 'Select a freehand area' },
+  { tool: 'move', label: 'Move', title: 'Drag the selected beads' }
+]
+
+const SELECTION_COLOR = 'rgba(37, 99, 235, 0.35)'
+const EMPTY_CELL_COLOR = '#f2f2f2'
+
+const buttonStyle: React.CSSProperties = {
+  padding: '3px 8px',
+  fontSize: '0.7rem',
+  backgroundColor: 'white',
+  border: '1px solid black',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: 'Baskervville, serif',
+  fontWeight: '500'
+}
+
+export default function PatternEditor({
+  pattern,
+  onEdit,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  maxSize = 480
+}: PatternEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const { grid } = pattern
+  const usedColors = getUsedColors(grid)
+  const catalog = getDrillCatalog(pattern.catalogId)
+
+  const [tool, setTool] = useState<EditorTool>('pencil')
+  const [color, setColor] = useState<DMCColor | null>(() => usedColors[0] ?? null)
+  const [colorCode, setColorCode] = useState<string>('')
+  const [selection, setSelection] = useState<BeadSelection | null>(null)
+  const [clip, setClip] = useState<PatternGrid | null>(null)
+  const [draft, setDraft] = useState<PatternGrid | null>(null) // Grid while a stroke or move is in progress
+  const [lasso, setLasso] = useState<BeadPoint[] | null>(null)
+  const [hover, setHover] = useState<BeadPoint | null>(null)
+  const dragRef = useRef<{ start: BeadPoint, last: BeadPoint } | null>(null)
+
+  const cellSize = Math.max(2, Math.floor(maxSize / Math.max(grid.width, grid.height)))
+  const shownGrid = draft || grid
+
+  // A new pattern (other size) invalidates the selection
+  useEffect(() => {
+    setSelection(null)
+    setDraft(null)
+  }, [grid.width, grid.height])
+
+  // Edits never place drills outside the canvas shape
+  const commit = (edited: PatternGrid) => onEdit(restrictToShape(edited, pattern.config))
+
+  // Draw beads, then selection, lasso outline and paste preview on top
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    canvas.width = grid.width * cellSize
+    canvas.height = grid.height * cellSize
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    for (let y = 0; y < shownGrid.height; y++) {
+      for (let x = 0; x < shownGrid.width; x++) {
+        const bead = getCellColor(shownGrid, x, y)
+        ctx.fillStyle = bead ? `rgb(${bead.r}, ${bead.g}, ${bead.b})` : EMPTY_CELL_COLOR
+        ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize)
+      }
+    }
+
+    if (selection) {
+      ctx.fillStyle = SELECTION_COLOR
+      for (let i = 0; i < selection.cells.length; i++) {
+        if (!selection.cells[i]) continue
+        const x = i % selection.width
+        const y = (i - x) / selection.width
+        ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize)
+      }
+    }
+
+    if (lasso && lasso.length > 1) {
+      ctx.strokeStyle = 'black'
+      ctx.lineWidth = 1
+      ctx.setLineDash([4, 3])
+      ctx.beginPath()
+      lasso.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x * cellSize, point.y * cellSize)
+        else ctx.lineTo(point.x * cellSize, point.y * cellSize)
+      })
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+
+    if (tool === 'paste' && clip && hover) {
+      ctx.globalAlpha = 0.6
+      for (let y = 0; y < clip.height; y++) {
+        for (let x = 0; x < clip.width; x++) {
+          const value = clip.cells[y * clip.width + x]
+          if (value === EMPTY_CELL) continue
+          const bead = clip.palette[value]
+          ctx.fillStyle = `rgb(${bead.r}, ${bead.g}, ${bead.b})`
+          ctx.fillRect((hover.x + x) * cellSize, (hover.y + y) * cellSize, cellSize, cellSize)
+        }
+      }
+      ctx.globalAlpha = 1
+      ctx.strokeStyle = 'black'
+      ctx.strokeRect(hover.x * cellSize, hover.y * cellSize, clip.width * cellSize, clip.height * cellSize)
+    }
+  }, [shownGrid, grid.width, grid.height, cellSize, selection, lasso, tool, clip, hover])
+
+  const copy = () => {
+    if (hasSelection(selection)) setClip(copySelection(grid, selection))
+  }
+
+  const startPaste = () => {
+    if (clip) setTool('paste')
+  }
+
+  const mirror = (axis: MirrorAxis) => {
+    const result = mirrorBeads(grid, axis, selection)
+    commit(result.grid)
+    setSelection(result.selection)
+  }
+
+  // ⌨️ Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo, Ctrl/Cmd+C/V copy/paste, Esc deselect.
+  // Only while the canvas has focus, and copy/paste only with a selection/clip, so the page's own
+  // text fields keep their shortcuts.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const key = e.key.toLowerCase()
+    if (e.key === 'Escape') {
+      if (!selection && !lasso && tool !== 'paste') return
+      setSelection(null)
+      setLasso(null)
+      if (tool === 'paste') setTool('move')
+    } else if (!(e.ctrlKey || e.metaKey)) {
+      return
+    } else if (key === 'z' && !e.shiftKey) {
+      onUndo()
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      onRedo()
+    } else if (key === 'c' && hasSelection(selection)) {
+      copy()
+    } else if (key === 'v' && clip) {
+      startPaste()
+    } else {
+      return
+    }
+    e.preventDefault()
+  }
+
+  // Bead under the pointer; `exact` keeps fractions (lasso outlines)
+  const toCell = (e: React.MouseEvent<HTMLCanvasElement>, exact = false): BeadPoint => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const x = ((e.clientX - rect.left) / rect.width) * grid.width
+    const y = ((e.clientY - rect.top) / rect.height) * grid.height
+    return exact ? { x, y } : { x: Math.floor(x), y: Math.floor(y) }
+  }
+
+  // Beads on the segment between two pointer positions, so fast strokes leave no gaps
+  const lineCells = (from: BeadPoint, to: BeadPoint): BeadPoint[] => {
+    const steps = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y), 1)
+    const points: BeadPoint[] = []
+    for (let i = 1; i <= steps; i++) {
+      points.push({
+        x: Math.round(from.x + ((to.x - from.x) * i) / steps),
+        y: Math.round(from.y + ((to.y - from.y) * i) / steps)
+      })
+    }
+    return points
+  }
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.currentTarget.focus() // Keyboard shortcuts follow the canvas
+    const cell = toCell(e)
+    switch (tool) {
+      case 'pencil':
+        if (!color) return
+        dragRef.current = { start: cell, last: cell }
+        setDraft(paintBeads(grid, [cell], color))
+        break
+      case 'fill':
+        if (color) commit(fillRegion(grid, cell.x, cell.y, color))
+        break
+      case 'eyedropper': {
+        const picked = getCellColor(grid, cell.x, cell.y)
+        if (picked) {
+          setColor(picked)
+          setTool('pencil')
+        }
+        break
+      }
+      case 'rect':
+        dragRef.current = { start: cell, last: cell }
+        setSelection(createRectSelection(grid.width, grid.height, cell, cell))
+        break
+      case 'lasso':
+        dragRef.current = { start: cell, last: cell }
+        setSelection(null)
+        setLasso([toCell(e, true)])
+        break
+      case 'move':
+        if (selection && selection.cells[cell.y * grid.width + cell.x]) {
+          dragRef.current = { start: cell, last: cell }
+        }
+        break
+      case 'paste':
+        if (clip) commit(pasteClip(grid, clip, cell.x, cell.y))
+        break
+    }
+  }
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const cell = toCell(e)
+    setHover(cell)
+    const drag = dragRef.current
+    if (!drag || (cell.x === drag.last.x && cell.y === drag.last.y && tool !== 'lasso')) return
+
+    if (tool === 'pencil' && color && draft) {
+      setDraft(paintBeads(draft, lineCells(drag.last, cell), color))
+    } else if (tool === 'rect') {
+      setSelection(createRectSelection(grid.width, grid.height, drag.start, cell))
+    } else if (tool === 'lasso') {
+      const point = toCell(e, true)
+      setLasso(prev => (prev ? [...prev, point] : [point]))
+    } else if (tool === 'move' && selection) {
+      setDraft(moveSelection(grid, selection, cell.x - drag.start.x, cell.y - drag.start.y).grid)
+    }
+    drag.last = cell
+  }
+
+  // Strokes and moves become one undo step each, committed when the button is released
+  const handleMouseUp = () => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag) return
+
+    if (tool === 'pencil' && draft) {
+      commit(draft)
+    } else if (tool === 'lasso' && lasso) {
+      setSelection(createLassoSelection(grid.width, grid.height, lasso))
+      setLasso(null)
+    } else if (tool === 'move' && selection && draft) {
+      const result = moveSelection(grid, selection, drag.last.x - drag.start.x, drag.last.y - drag.start.y)
+      commit(result.grid)
+      setSelection(result.selection)
+    }
+    setDraft(null)
+  }
+
+  const handleColorCodeChange = (code: string) => {
+    setColorCode(code)
+    const match = catalog.colors.find(entry => entry.code.toLowerCase() === code.trim().toLowerCase())
+    if (match) setColor(match)
+  }
+
+  const selected = hasSelection(selection)
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', gap: '0.4rem', overflow: 'auto', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+      {/* Tools */}
+      <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap' }}>
+        {TOOLS.map(option => (
+          <button
+            key={option.tool}
+            title={option.title}
+            onClick={() => setTool(option.tool)}
+            style={{
+              ...buttonStyle,
+              backgroundColor: tool === option.tool ? 'black' : 'white',
+              color: tool === option.tool ? 'white' : 'black'
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Selection, mirror and history actions */}
+      <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap' }}>
+        <button style={buttonStyle} disabled={!selected} onClick={copy} title="Copy selection (Ctrl+C)">Copy</button>
+        <button
+          style={{ ...buttonStyle, backgroundColor: tool === 'paste' ? 'black' : 'white', color: tool === 'paste' ? 'white' : 'black' }}
+          disabled={!clip}
+          onClick={startPaste}
+          title="Click the pattern to place the copied beads (Ctrl+V)"
+        >
+          Paste
+        </button>
+        <button style={buttonStyle} disabled={!selected} onClick={() => setSelection(null)} title="Clear selection (Esc)">Deselect</button>
+        <button style={buttonStyle} onClick={() => mirror('horizontal')} title={selected ? 'Mirror the selection left ↔ right' : 'Mirror the whole pattern left ↔ right'}>Mirror ↔</button>
+        <button style={buttonStyle} onClick={() => mirror('vertical')} title={selected ? 'Mirror the selection top ↕ bottom' : 'Mirror the whole pattern top ↕ bottom'}>Mirror ↕</button>
+        <button style={buttonStyle} disabled={!canUndo} onClick={onUndo} title="Undo (Ctrl+Z)">Undo</button>
+        <button style={buttonStyle} disabled={!canRedo} onClick={onRedo} title="Redo (Ctrl+Shift+Z)">Redo</button>
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'center' }}>
+        <canvas
+          ref={canvasRef}
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => {
+            handleMouseUp()
+            setHover(null)
+          }}
+          style={{ maxWidth: '100%', border: '1px solid black', cursor: tool === 'move' ? 'move' : 'crosshair', imageRendering: 'pixelated' }}
+        />
+      </div>
+
+      {/* Current color: pattern colors, or any catalog drill by code */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.75rem' }}>
+        <span
+          style={{
+            width: '18px',
+            height: '18px',
+            border: '1px solid black',
+            backgroundColor: color ? `rgb(${color.r}, ${color.g}, ${color.b})` : 'transparent'
+          }}
+        />
+        <span>{color ? `${color.code} ${color.name}` : 'Pick a color'}</span>
+        <input
+          list="pattern-editor-drills"
+          value={colorCode}
+          placeholder={`${catalog.name} code`}
+          onChange={(e) => handleColorCodeChange(e.target.value)}
+          style={{ width: '90px', marginLeft: 'auto', padding: '2px 6px', border: '1px solid black', borderRadius: '4px', fontFamily: 'Baskervville, serif' }}
+        />
+        <datalist id="pattern-editor-drills">
+          {catalog.colors.map(entry => (
+            <option key={entry.code} value={entry.code}>{entry.name}</option>
+          ))}
+        </datalist>
+      </div>
+      <div style={{ display: 'flex', gap: '2px', flexWrap: 'wrap' }}>
+        {usedColors.map(entry => (
+          <button
+            key={entry.code}
+            title={`${entry.code} ${entry.name}`}
+            onClick={() => setColor(entry)}
+            style={{
+              width: '16px',
+              height: '16px',
+              padding: 0,
+              backgroundColor: `rgb(${entry.r}, ${entry.g}, ${entry.b})`,
+              border: color?.code === entry.code ? '2px solid black' : '1px solid #999',
+              cursor: 'pointer'
+            }}
+          />
+        ))}
+      </div>
+
+      {pattern.edited && (
+        <p style={{ fontSize: '0.7rem', color: '#b45309', fontStyle: 'italic', margin: 0 }}>
+          Edited by hand — generating the pattern again replaces these edits.
+        </p>
+      )}
+    </div>
+  )
+}
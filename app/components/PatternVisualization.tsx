@@ -11,6 +11,7 @@ import {
   createWebPreviewSVG,
   createDetailedSVG 
 } from '../utils/svgPatternVisualization'
+import { getUsedColors } from '../utils/patternGrid'
 
 interface PatternVisualizationProps {
   pattern: DMCFirstPattern
@@ -61,9 +62,9 @@ export default function PatternVisualization({
           // Note: SVG legends not implemented yet, fallback to canvas if needed
           if (showLegend) {
             console.log('⚠️ SVG legend not implemented, using canvas fallback')
-            const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
+            const uniqueColors = getUsedColors(pattern.grid).map(color => color.code)
             const { iconAssignments } = await import('../utils/iconPlacement').then(module => ({
-              iconAssignments: module.assignIconsToColors(uniqueColors, [])
+              iconAssignments: module.assignIconsToColors(uniqueColors, pattern.grid)
             }))
             const legendCanvas = createPatternLegend(pattern, iconAssignments, 40)
             const legendDataUrl = canvasToDataURL(legendCanvas)
@@ -2,7 +2,7 @@
 
 import { useEffect } from 'react'
 import { useImagePixelization } from '../hooks/useImagePixelization'
-import { BeadPixel, PixelizationConfig } from '../utils/imagePixelization'
+import { BeadPixel, CellColorEstimator, PixelizationConfig } from '../utils/imagePixelization'
 
 interface PixelizationPreviewProps {
   imageData: string | null
@@ -10,6 +10,7 @@ interface PixelizationPreviewProps {
   beadType: 'circular' | 'square'
   imageWidth: number
   imageHeight: number
+  colorEstimator?: CellColorEstimator
   onPixelizationComplete?: (pixels: BeadPixel[], config: PixelizationConfig) => void
 }
 
@@ -19,6 +20,7 @@ export default function PixelizationPreview({
   beadType,
   imageWidth,
   imageHeight,
+  colorEstimator,
   onPixelizationComplete
 }: PixelizationPreviewProps) {
   const {
@@ -40,6 +42,7 @@ export default function PixelizationPreview({
         imageWidth,
         imageHeight,
         useAverageColor: true,
+        colorEstimator,
         maxDisplayWidth: 400,
         maxDisplayHeight: 300
       }).then(() => {
@@ -48,7 +51,7 @@ export default function PixelizationPreview({
         }
       }).catch(() => {})
     }
-  }, [imageData, targetWidth, beadType, imageWidth, imageHeight, pixelizeImageFromSrc])
+  }, [imageData, targetWidth, beadType, imageWidth, imageHeight, colorEstimator, pixelizeImageFromSrc])
 
   const pixelizationInfo = getPixelizationInfo()
 
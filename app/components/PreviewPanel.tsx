@@ -2,8 +2,14 @@
 
 import { useState, useRef, useEffect } from 'react'
 import PatternVisualization from './PatternVisualization'
+import ImageAdjustmentPanel from './ImageAdjustmentPanel'
+import DetailBrushPanel from './DetailBrushPanel'
+import PatternEditor from './PatternEditor'
 import { BeadPixel, PixelizationConfig } from '../utils/imagePixelization'
 import { DMCFirstPattern } from '../hooks/useDMCFirstPatternGeneration'
+import { type ImageAdjustments } from '../utils/imageAdjustments'
+import { type DetailMask } from '../utils/detailMask'
+import { type PatternGrid } from '../utils/patternGrid'
 
 interface PreviewPanelProps {
   imageData: string
@@ -15,6 +21,9 @@ interface PreviewPanelProps {
   dmcPattern?: DMCFirstPattern | null
   dmcPreviewUrl?: string | null
   isGeneratingPattern?: boolean
+  // Coarse nearest-color pass shown while the full pattern is generated
+  draftPreview?: { imageUrl: string, blockSize: number } | null
+  generationStatus?: string // Current pipeline phase, e.g. "Matching colors 42%"
   calculatedSize?: {
     actualWidth: number
     actualHeight: number
@@ -27,6 +36,18 @@ interface PreviewPanelProps {
     percentage: number
     count: number
   }> | null
+  adjustments?: ImageAdjustments
+  onAdjustmentsChange?: (adjustments: ImageAdjustments) => void
+  detailMask?: DetailMask | null
+  onDetailMaskChange?: (mask: DetailMask | null) => void
+  simplifyColorCount?: number
+  onSimplifyColorCountChange?: (count: number) => void
+  // Bead editor: edited grids replace the pattern's grid (undoable)
+  onPatternEdit?: (grid: PatternGrid) => void
+  onUndoEdit?: () => void
+  onRedoEdit?: () => void
+  canUndoEdit?: boolean
+  canRedoEdit?: boolean
 }
 
 export default function PreviewPanel({ 
@@ -39,13 +60,36 @@ export default function PreviewPanel({
   dmcPattern,
   dmcPreviewUrl,
   isGeneratingPattern = false,
+  draftPreview = null,
+  generationStatus,
   calculatedSize,
-  colorStatistics
+  colorStatistics,
+  adjustments,
+  onAdjustmentsChange,
+  detailMask = null,
+  onDetailMaskChange,
+  simplifyColorCount = 3,
+  onSimplifyColorCountChange,
+  onPatternEdit,
+  onUndoEdit,
+  onRedoEdit,
+  canUndoEdit = false,
+  canRedoEdit = false
 }: PreviewPanelProps) {
   const [pixelizationData, setPixelizationData] = useState<{
     pixels: BeadPixel[]
     config: PixelizationConfig
   } | null>(null)
+  const [view, setView] = useState<'pattern' | 'edit' | 'adjust' | 'brush'>('pattern')
+  const canAdjust = !!adjustments && !!onAdjustmentsChange
+  const canPaint = !!onDetailMaskChange && !!onSimplifyColorCountChange
+  const canEdit = !!dmcPattern && !!onPatternEdit && !!onUndoEdit && !!onRedoEdit
+  const views = [
+    { view: 'pattern' as const, label: 'Pattern', enabled: true },
+    { view: 'edit' as const, label: 'Edit Beads', enabled: canEdit },
+    { view: 'adjust' as const, label: 'Adjust Image', enabled: canAdjust },
+    { view: 'brush' as const, label: 'Detail Brush', enabled: canPaint }
+  ].filter(option => option.enabled)
 
   // Container size tracking for responsive image scaling
   const imageContainerRef = useRef<HTMLDivElement>(null)
@@ -120,6 +164,26 @@ export default function PreviewPanel({
 
   // Calculate optimal maxSize based on container dimensions
   const optimalMaxSize = Math.min(containerSize.width, containerSize.height, 800)
+
+  // Which stage the preview shows: quick draft while generating, then the full pattern
+  const stageBadge = (label: string, detail: string, draft: boolean) => (
+    <div style={{
+      position: 'absolute',
+      top: '4px',
+      left: '4px',
+      padding: '2px 8px',
+      fontSize: '0.7rem',
+      backgroundColor: draft ? 'rgba(255,255,255,0.9)' : 'black',
+      color: draft ? 'black' : 'white',
+      border: '1px solid black',
+      borderRadius: '4px',
+      fontFamily: 'Baskervville, serif',
+      fontWeight: '500',
+      pointerEvents: 'none'
+    }}>
+      <strong>{label}</strong> · {detail}
+    </div>
+  )
   
   return (
     <div style={{ 
@@ -129,6 +193,30 @@ export default function PreviewPanel({
       fontFamily: 'Baskervville, serif',
       fontWeight: '500'
     }}>
+      {views.length > 1 && (
+        <div style={{ display: 'flex', gap: '0.25rem', marginBottom: '0.25rem' }}>
+          {views.map(option => (
+            <button
+              key={option.view}
+              onClick={() => setView(option.view)}
+              style={{
+                padding: '3px 10px',
+                fontSize: '0.75rem',
+                backgroundColor: view === option.view ? 'black' : 'white',
+                color: view === option.view ? 'white' : 'black',
+                border: '1px solid black',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontFamily: 'Baskervville, serif',
+                fontWeight: '500'
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+      
       {/* Preview Image Area - 5/6 of height */}
       <div 
         ref={imageContainerRef}
@@ -144,7 +232,54 @@ export default function PreviewPanel({
           maxHeight: '100%' // Enforce height boundary
         }}
       >
-        {isGeneratingPattern ? (
+        {canEdit && view === 'edit' && !isGeneratingPattern ? (
+          <PatternEditor
+            pattern={dmcPattern!}
+            onEdit={onPatternEdit!}
+            onUndo={onUndoEdit!}
+            onRedo={onRedoEdit!}
+            canUndo={canUndoEdit}
+            canRedo={canRedoEdit}
+            maxSize={optimalMaxSize}
+          />
+        ) : canAdjust && view === 'adjust' ? (
+          <ImageAdjustmentPanel
+            imageSrc={imageData}
+            adjustments={adjustments!}
+            onAdjustmentsChange={onAdjustmentsChange!}
+            appliedAdjustments={dmcPattern ? dmcPattern.adjustments : undefined}
+          />
+        ) : canPaint && view === 'brush' ? (
+          <DetailBrushPanel
+            imageSrc={imageData}
+            mask={detailMask}
+            onMaskChange={onDetailMaskChange!}
+            simplifyColorCount={simplifyColorCount}
+            onSimplifyColorCountChange={onSimplifyColorCountChange!}
+            appliedMask={dmcPattern ? dmcPattern.detailMask : undefined}
+          />
+        ) : isGeneratingPattern && draftPreview ? (
+          <div style={{ position: 'relative', display: 'flex', alignItems: 'center', justifyContent: 'center', width: '100%', height: '100%' }}>
+            <img
+              src={draftPreview.imageUrl}
+              alt="Quick draft of the pattern"
+              style={{
+                maxWidth: optimalMaxSize,
+                maxHeight: optimalMaxSize,
+                width: '100%',
+                height: '100%',
+                objectFit: 'contain',
+                imageRendering: 'pixelated',
+                opacity: 0.85
+              }}
+            />
+            {stageBadge(
+              'Quick preview',
+              `${draftPreview.blockSize > 1 ? `${draftPreview.blockSize}×${draftPreview.blockSize} beads per block, ` : ''}nearest colors. Full pattern: ${generationStatus ?? 'preparing...'}`,
+              true
+            )}
+          </div>
+        ) : isGeneratingPattern ? (
           <div className="processing-status" style={{ 
             display: 'flex', 
             flexDirection: 'column',
@@ -159,19 +294,22 @@ export default function PreviewPanel({
               fontWeight: '500',
               fontSize: '1rem',
               marginTop: '1rem'
-            }}>Matching DMC Colors...</p>
+            }}>{generationStatus ?? 'Matching DMC Colors...'}</p>
           </div>
         ) : dmcPattern ? (
-          <PatternVisualization
-            pattern={dmcPattern}
-            showGrid={false}  // 🎯 Clean preview: No grid lines
-            showIcons={false}  // 🎨 Clean preview: Show colors only
-            showColors={true}
-            scale={12}
-            showLegend={false}
-            useSVG={true}  // 🚀 Use SVG for lightweight, scalable preview
-            maxSize={optimalMaxSize}  // Dynamic size based on container
-          />
+          <div style={{ position: 'relative', display: 'flex', alignItems: 'center', justifyContent: 'center', width: '100%', height: '100%' }}>
+            <PatternVisualization
+              pattern={dmcPattern}
+              showGrid={false}  // 🎯 Clean preview: No grid lines
+              showIcons={false}  // 🎨 Clean preview: Show colors only
+              showColors={true}
+              scale={12}
+              showLegend={false}
+              useSVG={true}  // 🚀 Use SVG for lightweight, scalable preview
+              maxSize={optimalMaxSize}  // Dynamic size based on container
+            />
+            {stageBadge('Full pattern', `${dmcPattern.statistics.guaranteedColors} colors`, false)}
+          </div>
         ) : (
           <div style={{ 
             width: '80%',
@@ -191,7 +329,7 @@ export default function PreviewPanel({
               lineHeight: '1.4'
             }}>
               {colorCount} Color DMC Pattern<br/>
-              {pixelizationData ? 'Click "Generate Pattern" button' : '(Available after pixelization)'}
+              Click "Generate Pattern" button
             </p>
           </div>
         )}
@@ -272,6 +410,39 @@ export default function PreviewPanel({
             }}>
               <p style={{ margin: 0 }}>Colors: {dmcPattern.statistics.guaranteedColors}</p>
               <p style={{ margin: 0 }}>Quality: {(dmcPattern.statistics.selectionQuality * 100).toFixed(1)}%</p>
+              {dmcPattern.statistics.quantizerBenchmark && (
+                <div style={{ marginTop: '0.15rem' }}>
+                  <p style={{ margin: 0, fontWeight: '700', fontSize: '0.7rem' }}>Quantizer Benchmark:</p>
+                  {dmcPattern.statistics.quantizerBenchmark.map(entry => (
+                    <p key={entry.method} style={{ margin: 0, fontSize: '0.65rem', fontWeight: entry.selected ? '700' : '500' }}>
+                      {entry.method}: {entry.timeMs.toFixed(0)}ms, ΔE {entry.meanDeltaE.toFixed(2)}, {entry.colorCount} drills{entry.selected ? ' ✓' : ''}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {dmcPattern.seed !== undefined && (
+                <p style={{ margin: 0 }}>Seed: {dmcPattern.seed}</p>
+              )}
+              {dmcPattern.statistics.paletteOptimization && (
+                <p style={{ margin: 0 }} title="Full catalog → after reducing to the palette">
+                  Reduction ({dmcPattern.statistics.paletteOptimization.method}): {(dmcPattern.statistics.paletteOptimization.qualityBefore * 100).toFixed(1)}% → {(dmcPattern.statistics.paletteOptimization.qualityAfter * 100).toFixed(1)}%
+                </p>
+              )}
+              {dmcPattern.statistics.confettiCleanup && (
+                <p style={{ margin: 0 }}>
+                  Cleanup: {dmcPattern.statistics.confettiCleanup.changedBeads.toLocaleString()} beads (+{dmcPattern.statistics.confettiCleanup.averageAddedError.toFixed(1)} ΔE avg)
+                </p>
+              )}
+              {dmcPattern.statistics.protectedColors && (
+                <div style={{ marginTop: '0.15rem' }}>
+                  <p style={{ margin: 0, fontWeight: '700', fontSize: '0.7rem' }}>Protected Rare Colors:</p>
+                  {dmcPattern.statistics.protectedColors.map(entry => (
+                    <p key={entry.dmcColor.code} title={entry.reason} style={{ margin: 0, fontSize: '0.65rem' }}>
+                      {entry.dmcColor.code}: {entry.percentage.toFixed(2)}% — {entry.reason}
+                    </p>
+                  ))}
+                </div>
+              )}
               <div style={{ marginTop: '0.15rem' }}>
                 <p style={{ margin: 0, fontWeight: '700', fontSize: '0.7rem' }}>Main Colors:</p>
                 {colorStatistics.slice(0, 2).map((stat, index) => (
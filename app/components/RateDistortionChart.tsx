@@ -0,0 +1,105 @@
+'use client'
+
+import { useState } from 'react'
+import { type RateDistortionCurve } from '../utils/rateDistortion'
+
+interface RateDistortionChartProps {
+  curve: RateDistortionCurve
+  selectedColorCount?: number
+  onSelectColorCount?: (count: number) => void
+}
+
+const CHART_WIDTH = 320
+const CHART_HEIGHT = 180
+const PADDING = { top: 10, right: 10, bottom: 28, left: 34 }
+
+export default function RateDistortionChart({
+  curve,
+  selectedColorCount,
+  onSelectColorCount
+}: RateDistortionChartProps) {
+  const [hoverCount, setHoverCount] = useState<number | null>(null)
+
+  const { points, kneeColorCount } = curve
+  if (points.length === 0) {
+    return null
+  }
+
+  const minCount = points[0].colorCount
+  const maxCount = points[points.length - 1].colorCount
+  const maxError = Math.max(...points.map(point => point.p95DeltaE), 1)
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom
+
+  const xFor = (count: number) =>
+    PADDING.left + (maxCount > minCount ? ((count - minCount) / (maxCount - minCount)) * plotWidth : plotWidth / 2)
+  const yFor = (error: number) => PADDING.top + plotHeight - (error / maxError) * plotHeight
+  const pathFor = (key: 'meanDeltaE' | 'p95DeltaE') =>
+    points.map((point, i) => `${i === 0 ? 'M' : 'L'}${xFor(point.colorCount).toFixed(1)},${yFor(point[key]).toFixed(1)}`).join(' ')
+
+  const countAtEvent = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const x = ((e.clientX - rect.left) / rect.width) * CHART_WIDTH
+    const ratio = Math.min(Math.max((x - PADDING.left) / plotWidth, 0), 1)
+    return Math.round(minCount + ratio * (maxCount - minCount))
+  }
+
+  const knee = points.find(point => point.colorCount === kneeColorCount)
+  const hovered = hoverCount !== null ? points.find(point => point.colorCount === hoverCount) : undefined
+  const shown = hovered || knee
+  const yTicks = [0, maxError / 2, maxError]
+
+  return (
+    <div style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        style={{ width: '100%', maxWidth: `${CHART_WIDTH * 1.5}px`, cursor: onSelectColorCount ? 'pointer' : 'default' }}
+        onMouseMove={(e) => setHoverCount(countAtEvent(e))}
+        onMouseLeave={() => setHoverCount(null)}
+        onClick={(e) => onSelectColorCount?.(countAtEvent(e))}
+      >
+        {/* Axes */}
+        <line x1={PADDING.left} y1={PADDING.top + plotHeight} x2={PADDING.left + plotWidth} y2={PADDING.top + plotHeight} stroke="black" />
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={PADDING.top + plotHeight} stroke="black" />
+        {yTicks.map(tick => (
+          <text key={tick} x={PADDING.left - 4} y={yFor(tick) + 3} fontSize="8" textAnchor="end">{tick.toFixed(0)}</text>
+        ))}
+        <text x={PADDING.left} y={CHART_HEIGHT - 14} fontSize="8" textAnchor="middle">{minCount}</text>
+        <text x={PADDING.left + plotWidth} y={CHART_HEIGHT - 14} fontSize="8" textAnchor="middle">{maxCount}</text>
+        <text x={PADDING.left + plotWidth / 2} y={CHART_HEIGHT - 3} fontSize="8" textAnchor="middle">Colors</text>
+        <text x={8} y={PADDING.top + plotHeight / 2} fontSize="8" textAnchor="middle" transform={`rotate(-90 8 ${PADDING.top + plotHeight / 2})`}>ΔE</text>
+
+        {/* Knee */}
+        {knee && (
+          <>
+            <line x1={xFor(knee.colorCount)} y1={PADDING.top} x2={xFor(knee.colorCount)} y2={PADDING.top + plotHeight} stroke="#b45309" strokeDasharray="3 2" />
+            <circle cx={xFor(knee.colorCount)} cy={yFor(knee.meanDeltaE)} r={4} fill="#b45309" />
+          </>
+        )}
+
+        {/* Currently selected color count */}
+        {selectedColorCount !== undefined && selectedColorCount >= minCount && selectedColorCount <= maxCount && (
+          <line x1={xFor(selectedColorCount)} y1={PADDING.top} x2={xFor(selectedColorCount)} y2={PADDING.top + plotHeight} stroke="#2563eb" />
+        )}
+
+        <path d={pathFor('p95DeltaE')} fill="none" stroke="#888" strokeDasharray="4 2" />
+        <path d={pathFor('meanDeltaE')} fill="none" stroke="black" strokeWidth={1.5} />
+
+        {hovered && (
+          <circle cx={xFor(hovered.colorCount)} cy={yFor(hovered.meanDeltaE)} r={3} fill="black" />
+        )}
+      </svg>
+
+      <p style={{ fontSize: '0.75rem', margin: '0.25rem 0 0 0' }}>
+        <span>— Mean ΔE</span>
+        <span style={{ color: '#888', marginLeft: '0.75rem' }}>- - 95th percentile</span>
+        <span style={{ color: '#b45309', marginLeft: '0.75rem' }}>● Knee: {kneeColorCount} colors</span>
+      </p>
+      {shown && (
+        <p style={{ fontSize: '0.75rem', color: '#666', margin: 0 }}>
+          {shown.colorCount} colors: mean ΔE {shown.meanDeltaE.toFixed(1)}, 95% of beads within ΔE {shown.p95DeltaE.toFixed(1)}
+        </p>
+      )}
+    </div>
+  )
+}
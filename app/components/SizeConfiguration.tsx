@@ -1,5 +1,8 @@
 'use client'
-import { useEffect } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { CANVAS_SHAPES, createShapeMask, type CanvasShape, type CanvasShapeOption } from '../utils/canvasShapes'
+import { loadImageData } from '../utils/imagePixelization'
+import { type PixelArtGrid } from '../utils/pixelArtGrid'
 
 interface SizeConfigurationProps {
   targetWidth: number
@@ -15,6 +18,11 @@ interface SizeConfigurationProps {
     beadGridHeight: number
     totalBeads: number
   }) => void
+  canvasShape?: CanvasShapeOption
+  onCanvasShapeChange?: (canvasShape: CanvasShapeOption) => void
+  pixelArtGrid?: PixelArtGrid | null // Detected grid of the current image (null = not pixel art)
+  pixelArtMode?: boolean
+  onPixelArtModeChange?: (enabled: boolean) => void
 }
 
 export default function SizeConfiguration({ 
@@ -24,8 +32,15 @@ export default function SizeConfiguration({
   imageHeight,
   beadType,
   beadSize,
-  onCalculatedSizeChange
+  onCalculatedSizeChange,
+  canvasShape = { shape: 'rectangle' },
+  onCanvasShapeChange,
+  pixelArtGrid = null,
+  pixelArtMode = false,
+  onPixelArtModeChange
 }: SizeConfigurationProps) {
+  const [maskError, setMaskError] = useState<string | null>(null)
+  
   // Calculate bead size based on type
   const beadSizeMm = beadSize
   const beadsPerCm = 10 / beadSizeMm
@@ -37,16 +52,22 @@ export default function SizeConfiguration({
   const aspectRatio = imageHeight / imageWidth
   
   // Calculate dimensions that align with bead grid
-  const beadGridWidth = Math.round(targetWidth * beadsPerCm)
+  // (pixel-art mode: one bead per art pixel, so the grid comes from the image instead of the width)
+  const usePixelArtGrid = pixelArtMode && !!pixelArtGrid
   const targetHeight = targetWidth * aspectRatio
-  const beadGridHeight = Math.round(targetHeight * beadsPerCm)
+  const beadGridWidth = usePixelArtGrid ? pixelArtGrid!.gridWidth : Math.round(targetWidth * beadsPerCm)
+  const beadGridHeight = usePixelArtGrid ? pixelArtGrid!.gridHeight : Math.round(targetHeight * beadsPerCm)
   
   // Calculate actual physical dimensions that align with bead grid
   const actualWidth = beadGridWidth / beadsPerCm
   const actualHeight = beadGridHeight / beadsPerCm
   
-  // Calculate total beads
-  const totalBeads = beadGridWidth * beadGridHeight
+  // Calculate total beads (empty cells outside a shaped canvas don't count)
+  const shapeMask = useMemo(
+    () => createShapeMask(canvasShape, beadGridWidth, beadGridHeight),
+    [canvasShape, beadGridWidth, beadGridHeight]
+  )
+  const totalBeads = shapeMask ? shapeMask.beadCount : beadGridWidth * beadGridHeight
   
   // Notify parent component of calculated values
   useEffect(() => {
@@ -65,6 +86,26 @@ export default function SizeConfiguration({
   const maxBeadsForHeight = Math.floor((targetWidth * beadsPerCm) * aspectRatio)
   const maxTotalBeads = maxBeadsForWidth * maxBeadsForHeight
   
+  const handleShapeChange = (shape: CanvasShape) => {
+    setMaskError(null)
+    // Keep a previously uploaded mask when switching back to custom
+    onCanvasShapeChange?.({ shape, maskImage: canvasShape.maskImage })
+  }
+  
+  const handleMaskUpload = async (file: File) => {
+    setMaskError(null)
+    const url = URL.createObjectURL(file)
+    try {
+      const maskImage = await loadImageData(url)
+      onCanvasShapeChange?.({ shape: 'custom', maskImage })
+      console.log(`🔷 Shape mask loaded: ${maskImage.width}x${maskImage.height}`)
+    } catch (error) {
+      setMaskError('Could not read the mask image.')
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+  
   return (
     <div className="mb-8" style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
       <h3 style={{ 
@@ -81,10 +122,12 @@ export default function SizeConfiguration({
         <select 
           value={targetWidth} 
           onChange={(e) => onTargetWidthChange(Number(e.target.value))}
+          disabled={usePixelArtGrid}
           style={{ 
             width: '100%',
             fontFamily: 'Baskervville, serif',
-            fontWeight: '500'
+            fontWeight: '500',
+            opacity: usePixelArtGrid ? 0.6 : 1
           }}
         >
           {sizeOptions.map(size => (
@@ -95,6 +138,73 @@ export default function SizeConfiguration({
         </select>
       </div>
       
+      {onPixelArtModeChange && (
+        <div className="form-group">
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+            <input
+              type="checkbox"
+              checked={pixelArtMode}
+              disabled={!pixelArtGrid}
+              onChange={(e) => onPixelArtModeChange(e.target.checked)}
+            />
+            Pixel Art Mode
+          </label>
+          <p style={{ fontSize: '0.8rem', color: '#666', fontStyle: 'italic', marginTop: '0.25rem' }}>
+            {pixelArtGrid
+              ? `Detected ${pixelArtGrid.gridWidth} × ${pixelArtGrid.gridHeight} art pixels (${pixelArtGrid.scale}px each). ` +
+                (usePixelArtGrid ? `One bead per pixel: ${actualWidth.toFixed(1)} × ${actualHeight.toFixed(1)}cm.` : 'Enable to map each one to exactly one bead.')
+              : 'No pixel-art grid detected in this image.'}
+          </p>
+        </div>
+      )}
+      
+      {onCanvasShapeChange && (
+        <div className="form-group">
+          <label style={{ fontFamily: 'Baskervville, serif', fontWeight: '500' }}>Canvas Shape</label>
+          <select
+            value={canvasShape.shape}
+            onChange={(e) => handleShapeChange(e.target.value as CanvasShape)}
+            style={{
+              width: '100%',
+              fontFamily: 'Baskervville, serif',
+              fontWeight: '500'
+            }}
+          >
+            {CANVAS_SHAPES.map(option => (
+              <option key={option.shape} value={option.shape}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          
+          {canvasShape.shape === 'custom' && (
+            <div style={{ marginTop: '0.5rem' }}>
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleMaskUpload(file)
+                  e.target.value = ''
+                }}
+                style={{ fontSize: '0.8rem', fontFamily: 'Baskervville, serif' }}
+              />
+              <p style={{ fontSize: '0.75rem', color: '#666', fontStyle: 'italic', marginTop: '0.25rem' }}>
+                Black (or opaque) areas become beads; white (or transparent) areas stay empty.
+              </p>
+            </div>
+          )}
+          {maskError && (
+            <p style={{ fontSize: '0.8rem', color: '#dc2626', marginTop: '0.25rem' }}>{maskError}</p>
+          )}
+          {shapeMask && (
+            <p style={{ fontSize: '0.8rem', color: '#666', marginTop: '0.25rem' }}>
+              {shapeMask.beadCount.toLocaleString()} of {(beadGridWidth * beadGridHeight).toLocaleString()} cells hold beads
+            </p>
+          )}
+        </div>
+      )}
+      
       {/* <div style={{ 
         padding: '1rem', 
         border: '1px solid black', 
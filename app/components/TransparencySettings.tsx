@@ -0,0 +1,89 @@
+'use client'
+
+import { getDrillCatalog } from '../utils/drillCatalogs'
+import { resolveDrillCode } from '../utils/drillFinishes'
+import { type TransparencyMode } from '../utils/imagePixelization'
+
+interface TransparencySettingsProps {
+  mode: TransparencyMode
+  backgroundCode: string
+  catalogId?: string
+  onChange: (mode: TransparencyMode, backgroundCode: string) => void
+}
+
+export default function TransparencySettings({
+  mode,
+  backgroundCode,
+  catalogId,
+  onChange
+}: TransparencySettingsProps) {
+  const catalog = getDrillCatalog(catalogId)
+  const backgroundColor = backgroundCode ? resolveDrillCode(catalog, backgroundCode.trim()) : undefined
+
+  const optionStyle = (selected: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '6px 8px',
+    fontSize: '0.8rem',
+    backgroundColor: selected ? 'black' : 'white',
+    color: selected ? 'white' : 'black',
+    border: '1px solid black',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontFamily: 'Baskervville, serif',
+    fontWeight: '500'
+  })
+
+  return (
+    <div style={{ marginTop: '0.75rem', fontFamily: 'Baskervville, serif', fontWeight: '500' }}>
+      <p style={{ fontSize: '0.85rem', fontWeight: '700', marginBottom: '0.4rem' }}>
+        Transparent Areas
+      </p>
+      <div style={{ display: 'flex', gap: '0.4rem' }}>
+        <button style={optionStyle(mode === 'empty')} onClick={() => onChange('empty', backgroundCode)}>
+          Leave Empty
+        </button>
+        <button style={optionStyle(mode === 'background')} onClick={() => onChange('background', backgroundCode)}>
+          Fill With Drill
+        </button>
+      </div>
+
+      {mode === 'background' && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem' }}>
+          <input
+            type="text"
+            value={backgroundCode}
+            onChange={(e) => onChange('background', e.target.value)}
+            placeholder={`${catalog.name} code, e.g. White`}
+            style={{
+              flex: 1,
+              padding: '4px 8px',
+              fontSize: '0.85rem',
+              border: '1px solid black',
+              borderRadius: '4px',
+              fontFamily: 'Baskervville, serif'
+            }}
+          />
+          {backgroundColor && (
+            <div
+              title={`${backgroundColor.code} ${backgroundColor.name}`}
+              style={{
+                width: '24px',
+                height: '24px',
+                border: '1px solid black',
+                backgroundColor: `rgb(${backgroundColor.r}, ${backgroundColor.g}, ${backgroundColor.b})`
+              }}
+            />
+          )}
+        </div>
+      )}
+
+      <p style={{ fontSize: '0.75rem', color: backgroundCode && !backgroundColor && mode === 'background' ? '#dc2626' : '#666', fontStyle: 'italic', marginTop: '0.3rem' }}>
+        {mode === 'empty'
+          ? 'Mostly transparent cells get no drill (partial drill canvas).'
+          : backgroundCode && !backgroundColor
+          ? `Unknown ${catalog.name} code: ${backgroundCode}`
+          : 'Mostly transparent cells use this drill; soft edges blend into it.'}
+      </p>
+    </div>
+  )
+}
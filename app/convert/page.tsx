@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { getStoredImageUnlimited, storeImageUnlimited } from '../utils/imageStorageUnlimited'
 import SizeConfiguration from '../components/SizeConfiguration'
 import BeadConfiguration from '../components/BeadConfiguration'
@@ -8,10 +8,25 @@ import ColorConfiguration from '../components/ColorConfiguration'
 import PreviewPanel from '../components/PreviewPanel'
 import DMCColorTable from '../components/DMCColorTable'
 import ImageUpload from '../components/ImageUpload'
-import { useDMCFirstPatternGeneration } from '../hooks/useDMCFirstPatternGeneration'
+import ImageCropEditor, { type ImageCropResult } from '../components/ImageCropEditor'
+import TransparencySettings from '../components/TransparencySettings'
+import { useDMCFirstPatternGeneration, type DMCFirstPatternOptions } from '../hooks/useDMCFirstPatternGeneration'
 import AdUnit from '../components/AdUnit'
 import { generateRealSizePDF, generateVectorPDF } from '../utils/pdfGenerator'
 import { generatePureSVGPattern, downloadSVGFile } from '../utils/svgGenerator'
+import { type DMCColor } from '../utils/dmcColors'
+import { type DitheringMode, type PaletteReducer } from '../utils/dmcFirstMatching'
+import { type ColorQuantizerMethod } from '../utils/colorMatching'
+import { DEFAULT_IMAGE_TRANSFORM, type ImageTransform } from '../utils/imageTransform'
+import { type CanvasShapeOption } from '../utils/canvasShapes'
+import { loadImageData, hasTransparency, type TransparencyMode, type CellColorEstimator } from '../utils/imagePixelization'
+import { DEFAULT_IMAGE_ADJUSTMENTS, type ImageAdjustments } from '../utils/imageAdjustments'
+import { detectPixelArtGrid, type PixelArtGrid } from '../utils/pixelArtGrid'
+import { type DetailMask } from '../utils/detailMask'
+import { type RateDistortionCurve } from '../utils/rateDistortion'
+import { parsePatternSeed } from '../utils/seededRandom'
+import { describeGenerationProgress, isAbortError } from '../utils/patternGenerationWorker'
+import { DEFAULT_CATALOG_ID, getDrillCatalog, getDrillCatalogs, loadStoredDrillCatalogs, type DrillCatalog } from '../utils/drillCatalogs'
 
 
 export default function ConvertPage() {
@@ -19,9 +34,31 @@ export default function ConvertPage() {
   const [imageName, setImageName] = useState<string>('')
   const [imageWidth, setImageWidth] = useState<number>(0)
   const [imageHeight, setImageHeight] = useState<number>(0)
+
+  // Crop/rotate step: edits always start from the original upload
+  const [originalImageData, setOriginalImageData] = useState<string | null>(null)
+  const [imageTransform, setImageTransform] = useState<ImageTransform>(DEFAULT_IMAGE_TRANSFORM)
+  const [showCropEditor, setShowCropEditor] = useState(false)
+  
+  // Transparent PNG sources: empty cells or a background drill
+  const [imageHasTransparency, setImageHasTransparency] = useState(false)
+  const [transparencyMode, setTransparencyMode] = useState<TransparencyMode>('empty')
+  const [transparentBackgroundCode, setTransparentBackgroundCode] = useState<string>('')
+  
+  // Pixel-art sources: one bead per detected art pixel
+  const [pixelArtGrid, setPixelArtGrid] = useState<PixelArtGrid | null>(null)
+  const [pixelArtMode, setPixelArtMode] = useState(false)
+  
+  // Non-destructive brightness/contrast/levels/white balance, applied at generation time
+  const [imageAdjustments, setImageAdjustments] = useState<ImageAdjustments>(DEFAULT_IMAGE_ADJUSTMENTS)
+  
+  // Painted "keep detail" / "simplify" regions over the source image
+  const [detailMask, setDetailMask] = useState<DetailMask | null>(null)
+  const [simplifyColorCount, setSimplifyColorCount] = useState<number>(3)
   
   // Configuration states
   const [targetWidth, setTargetWidth] = useState<number>(50) // cm
+  const [canvasShape, setCanvasShape] = useState<CanvasShapeOption>({ shape: 'rectangle' })
   const [beadType, setBeadType] = useState<'circular' | 'square'>('circular')
   const [colorCount, setColorCount] = useState<number>(200)
   
@@ -46,12 +83,22 @@ export default function ConvertPage() {
   const {
     isGenerating,
     isAnalyzingColors,
+    progress: generationProgress,
+    draftPreview,
     error: patternError,
     pattern,
     previewImageUrl,
     colorStatistics,
     generatePattern,
+    cancelGeneration,
+    hasCachedFullMatch,
+    applyPatternEdit,
+    undoPatternEdit,
+    redoPatternEdit,
+    canUndoEdit,
+    canRedoEdit,
     calculateColorSuggestions,
+    calculateRateDistortion,
     quickColorAnalysis,
     clearPattern,
     getPatternInfo
@@ -65,6 +112,30 @@ export default function ConvertPage() {
   // 🎯 NEW: 사용자 지정 색상 관련 state
   const [useCustomColors, setUseCustomColors] = useState<boolean>(false)
   const [customColorCodes, setCustomColorCodes] = useState<string[]>([]) // 사용자가 입력한 DMC 코드들
+  const [customDrills, setCustomDrills] = useState<DMCColor[]>([]) // Imported palette colors kept as user-defined drills
+
+  // Generate only from the user's drill inventory
+  const [useInventory, setUseInventory] = useState<boolean>(false)
+
+  // Gradient dithering settings
+  const [ditheringMode, setDitheringMode] = useState<DitheringMode>('none')
+  const [colorEstimator, setColorEstimator] = useState<CellColorEstimator>('mean')
+  const [saliencyStrength, setSaliencyStrength] = useState<number>(0)
+  const [paletteReducer, setPaletteReducer] = useState<PaletteReducer>('heuristic')
+  const [quantizer, setQuantizer] = useState<ColorQuantizerMethod>('wu')
+  const [seedInput, setSeedInput] = useState<string>('') // Empty = new seed per generation
+  const [ditheringStrength, setDitheringStrength] = useState<number>(0.8)
+  const [minRegionSize, setMinRegionSize] = useState<number>(0)
+  const [abHighlightPercent, setABHighlightPercent] = useState<number>(0)
+
+  // Measured color error per color count (rate–distortion chart)
+  const [rateDistortion, setRateDistortion] = useState<RateDistortionCurve | null>(null)
+  const [isAnalyzingRateDistortion, setIsAnalyzingRateDistortion] = useState(false)
+  const rateDistortionAbortRef = useRef<AbortController | null>(null)
+
+  // Drill brand catalog
+  const [catalogId, setCatalogId] = useState<string>(DEFAULT_CATALOG_ID)
+  const [availableCatalogs, setAvailableCatalogs] = useState<DrillCatalog[]>(() => getDrillCatalogs())
   
   // PDF generation state
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false)
@@ -77,6 +148,12 @@ export default function ConvertPage() {
   const [canCloseAd, setCanCloseAd] = useState(false)
 
   
+  useEffect(() => {
+    // Register brand catalogs the user imported on the DMC table page
+    loadStoredDrillCatalogs()
+    setAvailableCatalogs(getDrillCatalogs())
+  }, [])
+
   useEffect(() => {
     // Load image using unlimited storage system
     const loadStoredImage = async () => {
@@ -85,6 +162,8 @@ export default function ConvertPage() {
         
         if (storedData) {
           setImageData(storedData.dataUrl)
+          setOriginalImageData(storedData.dataUrl)
+          setImageTransform(DEFAULT_IMAGE_TRANSFORM)
           setImageName(storedData.fileName)
           
           console.log(`�� Loaded image: ${storedData.fileName}`)
@@ -116,6 +195,53 @@ export default function ConvertPage() {
     loadStoredImage()
   }, [])
 
+  useEffect(() => {
+    // Only offer transparency settings when the current image actually has transparent pixels,
+    // and pixel-art mode when it has a detectable art pixel grid
+    if (!imageData) {
+      setImageHasTransparency(false)
+      setPixelArtGrid(null)
+      return
+    }
+    
+    let cancelled = false
+    loadImageData(imageData)
+      .then(data => {
+        if (cancelled) return
+        const grid = detectPixelArtGrid(data)
+        setImageHasTransparency(hasTransparency(data))
+        setPixelArtGrid(grid)
+        if (!grid) setPixelArtMode(false)
+      })
+      .catch(() => {
+        if (cancelled) return
+        setImageHasTransparency(false)
+        setPixelArtGrid(null)
+        setPixelArtMode(false)
+      })
+    return () => { cancelled = true }
+  }, [imageData])
+
+  useEffect(() => {
+    // A measured curve only holds for the image, grid and color settings it was measured on
+    rateDistortionAbortRef.current?.abort()
+    setRateDistortion(null)
+  }, [
+    imageData, targetWidth, beadType, circularSize, squareSize, catalogId, pixelArtMode, imageAdjustments,
+    canvasShape, colorEstimator, transparencyMode, transparentBackgroundCode, saliencyStrength
+  ])
+
+  useEffect(() => {
+    // ⏹️ A run still in progress would produce a pattern for the old settings
+    cancelGeneration()
+  }, [
+    cancelGeneration, imageData, targetWidth, canvasShape, beadType, circularSize, squareSize, colorCount,
+    useCustomColors, customColorCodes, useInventory, catalogId, ditheringMode, ditheringStrength,
+    minRegionSize, abHighlightPercent, transparencyMode, transparentBackgroundCode, imageAdjustments,
+    colorEstimator, saliencyStrength, detailMask, simplifyColorCount, paletteReducer, quantizer,
+    seedInput, pixelArtMode
+  ])
+
   // Handle image upload in convert page
   const handleImageUpload = async (file: File) => {
     try {
@@ -125,7 +251,10 @@ export default function ConvertPage() {
         const storedData = await getStoredImageUnlimited('uploadedImage')
         if (storedData) {
           setImageData(storedData.dataUrl)
+          setOriginalImageData(storedData.dataUrl)
+          setImageTransform(DEFAULT_IMAGE_TRANSFORM)
           setImageName(storedData.fileName)
+          setDetailMask(null) // Painted regions belong to the previous image
           
           // Get image dimensions
           const img = new Image()
@@ -148,7 +277,23 @@ export default function ConvertPage() {
     }
   }
 
-  const handleConfirmColorSettings = async (currentColorCount: number, customColors?: string[]) => {
+  // Replace the working image with the cropped/rotated version; the bead grid follows its new size
+  const handleApplyCrop = (result: ImageCropResult) => {
+    setImageData(result.dataUrl)
+    setImageWidth(result.width)
+    setImageHeight(result.height)
+    setImageTransform(result.transform)
+    if (result.canvasSizeCm) {
+      setTargetWidth(result.canvasSizeCm.width)
+    }
+    setColorConfirmed(false)
+    setDetailMask(null) // Painted regions no longer line up with the transformed image
+    clearPattern()
+    setShowCropEditor(false)
+    console.log(`✂️ Image transformed: ${result.width}x${result.height}px`)
+  }
+
+  const handleConfirmColorSettings = async (currentColorCount: number, customColors?: string[], importedDrills?: DMCColor[]) => {
     if (!imageData || !imageWidth || !imageHeight || !targetWidth || !beadType) {
       alert('Image or pattern settings are not completed.')
       return
@@ -158,9 +303,12 @@ export default function ConvertPage() {
     
     try {
 
+      setUseInventory(false)
+
       if (customColors && customColors.length > 0) {
         setUseCustomColors(true)
         setCustomColorCodes(customColors)
+        setCustomDrills(importedDrills || [])
         setPendingColorCount(customColors.length)
         setColorCount(customColors.length)
         
@@ -197,6 +345,10 @@ export default function ConvertPage() {
         setColorConfirmed(true)
         
         alert(`Color settings confirmed.\nSelected colors: ${currentColorCount}`)
+
+        // The new count was committed during the analysis above, so the cancel effect for the
+        // old settings has already run and leaves this run alone
+        regenerateForColorCount(currentColorCount)
       }
       
     } catch (error) {
@@ -210,6 +362,61 @@ export default function ConvertPage() {
   }
   
 
+  // 📉 Measure the color error for every color count with the current image and grid settings
+  const handleAnalyzeRateDistortion = async () => {
+    if (!imageData || !imageWidth || !imageHeight || !targetWidth || !beadType) {
+      alert('Image or pattern settings are not completed.')
+      return
+    }
+
+    rateDistortionAbortRef.current?.abort()
+    const controller = new AbortController()
+    rateDistortionAbortRef.current = controller
+    setIsAnalyzingRateDistortion(true)
+    try {
+      const curve = await calculateRateDistortion(imageData, {
+        targetWidth,
+        beadType,
+        imageWidth,
+        imageHeight,
+        beadSize: beadType === 'circular'
+          ? (beadSettingsConfirmed ? confirmedCircularSize : circularSize)
+          : (beadSettingsConfirmed ? confirmedSquareSize : squareSize),
+        catalogId,
+        canvasShape,
+        adjustments: imageAdjustments,
+        colorEstimator,
+        pixelArt: pixelArtMode && !!pixelArtGrid
+      }, 60, controller.signal)
+      setRateDistortion(curve)
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Rate–distortion analysis failed:', error)
+        alert('Color count analysis failed. Please try again.')
+      }
+    } finally {
+      // A newer measurement owns the flag now
+      if (rateDistortionAbortRef.current === controller) {
+        rateDistortionAbortRef.current = null
+        setIsAnalyzingRateDistortion(false)
+      }
+    }
+  }
+
+  // 📦 Switch to inventory-constrained generation
+  const handleConfirmInventory = (inventoryColorCount: number) => {
+    setUseInventory(true)
+    setUseCustomColors(false)
+    setCustomColorCodes([])
+    setPendingColorCount(inventoryColorCount)
+    setColorCount(inventoryColorCount)
+    setOptimalColors(inventoryColorCount)
+    setMaxColors(inventoryColorCount)
+    setColorConfirmed(true)
+    
+    alert(`Inventory settings confirmed.\nColors owned: ${inventoryColorCount}`)
+  }
+
   const handleConfirmBeadSettings = () => {
 
     if (circularSize < 1.0 || circularSize > 10.0) {
@@ -230,6 +437,68 @@ export default function ConvertPage() {
     alert(`Bead settings confirmed.\nCircular bead: diameter ${circularSize}mm\nSquare bead: side ${squareSize}mm\nCurrent selection: ${beadType === 'circular' ? 'Circular' : 'Square'} bead`)
   }
 
+  // Generation settings as currently chosen on the page
+  const buildGenerationOptions = (): DMCFirstPatternOptions => {
+    const currentBeadSize = beadType === 'circular' 
+      ? (beadSettingsConfirmed ? confirmedCircularSize : circularSize)
+      : (beadSettingsConfirmed ? confirmedSquareSize : squareSize)
+
+    return {
+      targetWidth,
+      beadType,
+      colorCount,
+      imageWidth,
+      imageHeight,
+      beadSize: currentBeadSize,
+      useCustomColors,
+      customColorCodes: useCustomColors ? customColorCodes : undefined,
+      customDrills: useCustomColors ? customDrills : undefined,
+      catalogId,
+      useInventory,
+      ditheringMode,
+      ditheringStrength,
+      minRegionSize,
+      abHighlightPercent: useInventory ? 0 : abHighlightPercent,
+      canvasShape,
+      transparencyMode: imageHasTransparency ? transparencyMode : undefined,
+      transparentBackgroundCode: transparentBackgroundCode.trim(),
+      adjustments: imageAdjustments,
+      colorEstimator,
+      saliencyStrength,
+      detailMask,
+      simplifyColorCount,
+      paletteReducer,
+      quantizer,
+      seed: parsePatternSeed(seedInput),
+      pixelArt: pixelArtMode && !!pixelArtGrid
+    }
+  }
+
+  /**
+   * ♻️ Only the color count changed since the last pattern: the full-catalog match is cached,
+   * so reduce and remap right away (no confirmation). Hand-edited patterns wait for the
+   * Generate button so edits aren't silently replaced.
+   */
+  const regenerateForColorCount = (count: number) => {
+    if (!imageData || !pattern || pattern.edited) return
+    const options: DMCFirstPatternOptions = {
+      ...buildGenerationOptions(),
+      colorCount: count,
+      useCustomColors: false, // Confirming a color count leaves custom-color and inventory mode
+      customColorCodes: undefined,
+      customDrills: undefined,
+      useInventory: false,
+      abHighlightPercent
+    }
+    if (!hasCachedFullMatch(imageData, options)) return
+
+    generatePattern(imageData, options).catch(error => {
+      if (!isAbortError(error)) {
+        console.error('Pattern regeneration failed:', error)
+      }
+    })
+  }
+
   // Handle pattern generation with confirmation
   const handleGeneratePreview = async () => {
     if (!imageData) return
@@ -240,14 +509,20 @@ export default function ConvertPage() {
       : (beadSettingsConfirmed ? confirmedSquareSize : squareSize)
     
 
-    const colorModeText = useCustomColors 
+    const brandName = getDrillCatalog(catalogId).name
+    const colorModeText = useInventory
+      ? `📦 From your ${brandName} drill inventory (${colorCount} colors)`
+      : useCustomColors 
       ? `🎨 Custom colors: ${colorCount} (${customColorCodes.slice(0, 3).join(', ')}${customColorCodes.length > 3 ? ' etc...' : ''})`
-      : `🎨 Selected from all colors: ${colorCount}`
+      : `🎨 Selected from all ${brandName} colors: ${colorCount}`
     
     const confirmMessage = `Do you want to generate a pattern with the following settings?\n\n` +
       `📐 Pattern size: ${targetWidth}cm (width)\n` +
       `🔵 Bead type: ${beadType === 'circular' ? 'Circular' : 'Square'} (${currentBeadSize}mm)\n` +
-      `${colorModeText}\n\n` +
+      `${colorModeText}\n` +
+      `🌈 Dithering: ${ditheringMode === 'none' ? 'Off' : `${ditheringMode} (${Math.round(ditheringStrength * 100)}%)`}\n` +
+      `🧹 Confetti cleanup: ${minRegionSize > 1 ? `regions < ${minRegionSize} beads` : 'Off'}\n` +
+      `✨ AB highlights: ${abHighlightPercent > 0 && !useInventory ? `brightest ${abHighlightPercent}% of each color` : 'Off'}\n\n` +
       `※ If you changed settings, please click the 'Confirm' button for each setting first.`
     
     const confirmed = confirm(confirmMessage)
@@ -273,18 +548,11 @@ export default function ConvertPage() {
     
     try {
 
-      await generatePattern(imageData, {
-        targetWidth,
-        beadType,
-        colorCount,
-        imageWidth,
-        imageHeight,
-        beadSize: currentBeadSize,
-        useCustomColors,
-        customColorCodes: useCustomColors ? customColorCodes : undefined
-      })
+      await generatePattern(imageData, buildGenerationOptions())
     } catch (error) {
-      console.error('Pattern generation failed:', error)
+      if (!isAbortError(error)) {
+        console.error('Pattern generation failed:', error)
+      }
     }
   }
 
@@ -452,6 +720,33 @@ export default function ConvertPage() {
                 <p style={{ fontFamily: 'Baskervville, serif', fontWeight: 500, fontSize: '0.85rem', marginTop: '0.5rem' }}>
                   {imageWidth} × {imageHeight}px
                 </p>
+                <button
+                  onClick={() => setShowCropEditor(true)}
+                  style={{
+                    marginTop: '0.5rem',
+                    padding: '6px 12px',
+                    fontSize: '0.85rem',
+                    backgroundColor: 'white',
+                    border: '1px solid black',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontFamily: 'Baskervville, serif',
+                    fontWeight: 500
+                  }}
+                >
+                  Crop & Rotate
+                </button>
+                {imageHasTransparency && (
+                  <TransparencySettings
+                    mode={transparencyMode}
+                    backgroundCode={transparentBackgroundCode}
+                    catalogId={catalogId}
+                    onChange={(mode, code) => {
+                      setTransparencyMode(mode)
+                      setTransparentBackgroundCode(code)
+                    }}
+                  />
+                )}
               </>
             ) : (
               <>
@@ -482,6 +777,11 @@ export default function ConvertPage() {
                 : (beadSettingsConfirmed ? confirmedSquareSize : squareSize)
               }
               onCalculatedSizeChange={setCalculatedSize}
+              canvasShape={canvasShape}
+              onCanvasShapeChange={setCanvasShape}
+              pixelArtGrid={pixelArtGrid}
+              pixelArtMode={pixelArtMode}
+              onPixelArtModeChange={setPixelArtMode}
             />
 
             <BeadConfiguration
@@ -509,10 +809,45 @@ export default function ConvertPage() {
               onColorCountChange={setPendingColorCount}
               confirmedColorCount={colorCount}
               onConfirmColorSettings={handleConfirmColorSettings}
+              onConfirmInventory={handleConfirmInventory}
               optimalColors={optimalColors}
               maxColors={maxColors}
               isCalculating={isCalculatingColors}
               isConfirmed={colorConfirmed}
+              ditheringMode={ditheringMode}
+              ditheringStrength={ditheringStrength}
+              onDitheringChange={(mode, strength) => {
+                setDitheringMode(mode)
+                setDitheringStrength(strength)
+              }}
+              colorEstimator={colorEstimator}
+              onColorEstimatorChange={setColorEstimator}
+              saliencyStrength={saliencyStrength}
+              onSaliencyStrengthChange={setSaliencyStrength}
+              paletteReducer={paletteReducer}
+              onPaletteReducerChange={setPaletteReducer}
+              quantizer={quantizer}
+              onQuantizerChange={setQuantizer}
+              rateDistortion={rateDistortion}
+              isAnalyzingRateDistortion={isAnalyzingRateDistortion}
+              onAnalyzeRateDistortion={handleAnalyzeRateDistortion}
+              seedInput={seedInput}
+              onSeedInputChange={setSeedInput}
+              patternSeed={pattern?.seed}
+              minRegionSize={minRegionSize}
+              onMinRegionSizeChange={setMinRegionSize}
+              abHighlightPercent={abHighlightPercent}
+              onABHighlightPercentChange={setABHighlightPercent}
+              catalogId={catalogId}
+              catalogs={availableCatalogs}
+              onCatalogChange={(id) => {
+                setCatalogId(id)
+                // Custom codes belong to the previous brand; require re-entry
+                setUseCustomColors(false)
+                setCustomColorCodes([])
+                setUseInventory(false)
+                setColorConfirmed(false)
+              }}
             />
           </div>
 
@@ -561,7 +896,23 @@ export default function ConvertPage() {
                 fontFamily: 'Baskervville, serif',
                 fontWeight: 500
               }}>
-                Up to 5 minutes required
+                {generationProgress ? describeGenerationProgress(generationProgress) : 'Preparing image...'}
+                <button
+                  onClick={cancelGeneration}
+                  style={{
+                    marginLeft: '0.5rem',
+                    padding: '2px 10px',
+                    fontSize: '0.75rem',
+                    backgroundColor: 'white',
+                    border: '1px solid black',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontFamily: 'Baskervville, serif',
+                    fontWeight: 500
+                  }}
+                >
+                  Cancel
+                </button>
               </div>
             )}
           </div>
@@ -573,7 +924,7 @@ export default function ConvertPage() {
               <br/>
             </h2>
             
-            {pattern && imageData ? (
+            {imageData ? (
               <div style={{ height: 'calc(100% - 3.5rem)' }}>
                 <PreviewPanel
                   imageData={imageData}
@@ -585,8 +936,21 @@ export default function ConvertPage() {
                   dmcPattern={pattern}
                   dmcPreviewUrl={previewImageUrl}
                   isGeneratingPattern={isGenerating}
+                  draftPreview={draftPreview}
+                  generationStatus={generationProgress ? describeGenerationProgress(generationProgress) : undefined}
                   calculatedSize={calculatedSize}
                   colorStatistics={colorStatistics}
+                  adjustments={imageAdjustments}
+                  onAdjustmentsChange={setImageAdjustments}
+                  detailMask={detailMask}
+                  onDetailMaskChange={setDetailMask}
+                  simplifyColorCount={simplifyColorCount}
+                  onSimplifyColorCountChange={setSimplifyColorCount}
+                  onPatternEdit={applyPatternEdit}
+                  onUndoEdit={undoPatternEdit}
+                  onRedoEdit={redoPatternEdit}
+                  canUndoEdit={canUndoEdit}
+                  canRedoEdit={canRedoEdit}
                 />
               </div>
             ) : (
@@ -800,6 +1164,39 @@ export default function ConvertPage() {
         </div>
       )}
 
+      {/* Crop & Rotate Overlay */}
+      {showCropEditor && originalImageData && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 9000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            padding: '1.5rem',
+            borderRadius: '8px',
+            maxWidth: '560px',
+            width: '90%',
+            maxHeight: '90vh',
+            overflowY: 'auto'
+          }}>
+            <ImageCropEditor
+              imageSrc={originalImageData}
+              initialTransform={imageTransform}
+              onApply={handleApplyCrop}
+              onCancel={() => setShowCropEditor(false)}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Interstitial Ad Overlay */}
       {showInterstitialAd && (
         <div style={{
@@ -3,40 +3,80 @@
 // New DMC-First Pattern Generation Hook
 // Architecture: Image Analysis → DMC Selection → Constrained Pixelization
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { 
   analyzeImageForDMCSelection, 
   pixelizeWithConstrainedDMCColors,
-  generateFullDMCPattern,
   type DMCFirstPalette,
   type ConstrainedPixel,
   type FullDMCPattern,
-  type FullMatchedPixel
+  type DitheringMode,
+  type ConfettiCleanupReport,
+  type InventoryUsageReport,
+  type ABHighlightReport,
+  type TransparencyReport,
+  type ProtectedColorReport,
+  type PaletteReducer,
+  type PaletteOptimizationReport,
+  type QuantizerBenchmark,
+  type PatternGenerationProgress
 } from '../utils/dmcFirstMatching'
+import {
+  computeRateDistortionCurveInWorker,
+  generateFullDMCPatternInWorker,
+  isAbortError,
+  throwIfAborted
+} from '../utils/patternGenerationWorker'
+import { type ColorQuantizerMethod } from '../utils/colorMatching'
 import { 
   calculatePixelizationConfig,
   loadImageData,
   imageDataToDataURL,
-  type PixelizationConfig
+  type PixelizationConfig,
+  type TransparencyMode,
+  type CellColorEstimator
 } from '../utils/imagePixelization'
 import { DMCColor } from '../utils/dmcColors'
+import { DEFAULT_CATALOG_ID, getDrillCatalog } from '../utils/drillCatalogs'
+import { type CanvasShapeOption } from '../utils/canvasShapes'
+import { calculatePixelArtConfig, detectPixelArtGrid, extractPixelArtImage } from '../utils/pixelArtGrid'
+import { applyImageAdjustments, hasImageAdjustments, type ImageAdjustments } from '../utils/imageAdjustments'
+import { getDrillInventory } from '../utils/drillInventory'
+import { hasDetailMask, type DetailMask } from '../utils/detailMask'
+import { type RateDistortionCurve } from '../utils/rateDistortion'
+import { buildPatternGrid, countPaletteUsage, forEachBead, type PatternGrid } from '../utils/patternGrid'
+import { createDraftPreview } from '../utils/draftPreview'
 
 export interface DMCFirstPattern {
-  constrainedPixels: ConstrainedPixel[]
+  catalogId: string
+  grid: PatternGrid // Palette index per bead cell (exporters and icon placement read this)
   dmcPalette: DMCFirstPalette
   config: PixelizationConfig
+  adjustments?: ImageAdjustments // Image adjustments the pattern was generated with (for exact regeneration)
+  detailMask?: DetailMask // Painted keep-detail/simplify regions the pattern was generated with
+  seed?: number // Generation seed; regenerate with it and the same settings for the identical chart
+  edited?: boolean // Beads changed by hand after generation (regenerating discards the edits)
   statistics: {
     totalPixels: number
     guaranteedColors: number
     averageSelectionDistance: number
     colorUsage: Map<string, number>
     selectionQuality: number
+    confettiCleanup?: ConfettiCleanupReport
+    inventory?: InventoryUsageReport
+    abHighlights?: ABHighlightReport
+    transparency?: TransparencyReport
+    protectedColors?: ProtectedColorReport[]
+    paletteOptimization?: PaletteOptimizationReport
+    quantizerBenchmark?: QuantizerBenchmark[]
   }
 }
 
 export interface DMCFirstGenerationState {
   isGenerating: boolean
   isAnalyzingColors: boolean
+  progress: PatternGenerationProgress | null // Current pipeline phase while generating
+  draftPreview: { imageUrl: string, blockSize: number } | null // Quick low-resolution pass shown until the full pattern is ready
   error: string | null
   pattern: DMCFirstPattern | null
   previewImageUrl: string | null
@@ -58,68 +98,170 @@ export interface DMCFirstPatternOptions {
   // 🎯 NEW: 사용자 지정 색상 지원
   useCustomColors?: boolean
   customColorCodes?: string[]
+  customDrills?: DMCColor[] // User-defined drills referenced by customColorCodes (imported palettes)
+  // Drill brand catalog to generate against (default: DMC)
+  catalogId?: string
+  // Inventory-only mode: use the owned colors/quantities stored in IndexedDB
+  useInventory?: boolean
+  // Gradient dithering applied when mapping beads to the final palette
+  ditheringMode?: DitheringMode
+  ditheringStrength?: number // 0-1
+  // Merge single beads / tiny islands smaller than this many beads (0 = off)
+  minRegionSize?: number
+  // Brightest N% of beads in each color become AB drills (0 = off)
+  abHighlightPercent?: number
+  // Round/oval/heart/custom-mask canvas; cells outside the shape are left empty
+  canvasShape?: CanvasShapeOption
+  // Transparent PNG areas: leave cells empty or fill them with a background drill
+  transparencyMode?: TransparencyMode
+  transparentBackgroundCode?: string
+  // Brightness/contrast/levels/white balance applied to the source before matching
+  adjustments?: ImageAdjustments
+  // How each bead's color is taken from its source pixels (photos: 'linear', flat art: 'mode')
+  colorEstimator?: CellColorEstimator
+  // Give the subject (saliency map) more of the color budget, 0-1 (0 = off)
+  saliencyStrength?: number
+  // Painted "keep detail" / "simplify" regions, and how many colors simplified regions may use
+  detailMask?: DetailMask | null
+  simplifyColorCount?: number
+  // 'optimized' picks the palette minimizing total ΔE (k-medoids) instead of merging similar colors
+  paletteReducer?: PaletteReducer
+  // Clustering algorithm for the 'quantized' palette reducer (all are benchmarked)
+  quantizer?: ColorQuantizerMethod
+  // Reproduce an earlier pattern; a new seed is generated (and recorded) when omitted
+  seed?: number | null
+  // Sprite art: detect the native pixel grid and use one bead per art pixel (size follows from bead size)
+  pixelArt?: boolean
 }
 
 export function useDMCFirstPatternGeneration() {
   const [state, setState] = useState<DMCFirstGenerationState>({
     isGenerating: false,
     isAnalyzingColors: false,
+    progress: null,
+    draftPreview: null,
     error: null,
     pattern: null,
     previewImageUrl: null,
     colorStatistics: null
   })
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // ✏️ Bead edits: grids before (undo) and after (redo) the current one
+  const editHistoryRef = useRef<{ undo: PatternGrid[], redo: PatternGrid[] }>({ undo: [], redo: [] })
+  const [editHistorySize, setEditHistorySize] = useState({ undo: 0, redo: 0 })
+  const patternRef = useRef<DMCFirstPattern | null>(null) // Latest pattern, ahead of state between renders
+  // ♻️ Inputs of the last finished full-catalog run (its match is cached in the worker)
+  const lastFullMatchRef = useRef<{ imageSrc: string, options: DMCFirstPatternOptions } | null>(null)
+
+  const resetEditHistory = () => {
+    editHistoryRef.current = { undo: [], redo: [] }
+    setEditHistorySize({ undo: 0, redo: 0 })
+  }
 
   /**
    * NEW ARCHITECTURE: Generate pattern using DMC-first approach
+   * ⏹️ Runs in a worker; a new call, cancelGeneration() or the given signal cancels a run in progress
    */
   const generatePattern = useCallback(async (
     imageSrc: string,
-    options: DMCFirstPatternOptions
+    options: DMCFirstPatternOptions,
+    signal?: AbortSignal
   ) => {
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    const handleExternalAbort = () => controller.abort()
+    signal?.addEventListener('abort', handleExternalAbort)
+    if (signal?.aborted) controller.abort()
+
     setState(prev => ({
       ...prev,
       isGenerating: true,
+      progress: null,
+      draftPreview: null,
       error: null
     }))
 
     try {
       console.log(`🚀 Starting DMC-first pattern generation with ${options.colorCount} colors`)
 
-      // PHASE 1: Load original image data
-      const imageData = await loadImageData(imageSrc)
-      console.log(`📸 Loaded image: ${imageData.width}x${imageData.height}`)
-
-      // PHASE 2: Calculate pixelization configuration
-      const config = calculatePixelizationConfig(
-        options.targetWidth,
-        options.imageWidth,
-        options.imageHeight,
-        options.beadType,
-        options.beadSize
-      )
-      console.log(`📐 Pattern grid: ${config.beadGridWidth}x${config.beadGridHeight}`)
+      // PHASE 1: Load original image data, then apply adjustments (the stored image is never modified)
+      const sourceImageData = await loadImageData(imageSrc)
+      console.log(`📸 Loaded image: ${sourceImageData.width}x${sourceImageData.height}`)
+      
+      // PHASE 2: Adjust the image and calculate pixelization configuration
+      const { imageData, config, adjustments } = prepareImageForGrid(sourceImageData, options)
+
+      // 🖼️ Coarse nearest-color draft first (before the pixel buffer goes to the worker)
+      const draft = createDraftPreview(imageData, config, getDrillCatalog(options.catalogId).colors)
+      throwIfAborted(controller.signal)
+      setState(prev => ({ ...prev, draftPreview: { imageUrl: imageDataToDataURL(draft.imageData), blockSize: draft.blockSize } }))
+      console.log(`🖼️ Draft preview: ${draft.imageData.width}x${draft.imageData.height} (${draft.blockSize}×${draft.blockSize} beads per cell)`)
+
+      // 📦 Inventory-only mode reads the user's owned drills
+      const inventory = options.useInventory
+        ? await getDrillInventory(options.catalogId || DEFAULT_CATALOG_ID)
+        : undefined
+      if (options.useInventory && (!inventory || inventory.length === 0)) {
+        throw new Error('Your drill inventory is empty. Add owned colors first.')
+      }
+      throwIfAborted(controller.signal)
 
       // 🎯 NEW ALGORITHM: Full DMC Matching → Color Reduction with Custom Colors Support
       setState(prev => ({ ...prev, isAnalyzingColors: true }))
       
-      const fullPattern = await generateFullDMCPattern(
+      const fullPattern = await generateFullDMCPatternInWorker(
         imageData,
         config,
         options.colorCount,
         options.analysisQuality || 'standard',
-        options.useCustomColors ? options.customColorCodes : undefined
+        options.useCustomColors ? options.customColorCodes : undefined,
+        {
+          catalogId: options.catalogId,
+          inventory,
+          customDrills: options.useCustomColors ? options.customDrills : undefined,
+          dithering: {
+            mode: options.ditheringMode || 'none',
+            strength: options.ditheringStrength ?? 1
+          },
+          confettiCleanup: {
+            minRegionSize: options.minRegionSize ?? 0
+          },
+          abHighlights: {
+            percent: options.abHighlightPercent ?? 0
+          },
+          transparency: options.transparencyMode
+            ? { mode: options.transparencyMode, backgroundCode: options.transparentBackgroundCode }
+            : undefined,
+          saliency: options.saliencyStrength ? { strength: options.saliencyStrength } : undefined,
+          detailPriority: hasDetailMask(options.detailMask)
+            ? { mask: options.detailMask!, simplifyColorCount: options.simplifyColorCount ?? 3 }
+            : undefined,
+          paletteReducer: options.paletteReducer,
+          quantizer: options.quantizer,
+          seed: options.seed ?? undefined,
+          onProgress: progress => setState(prev => ({ ...prev, progress }))
+        },
+        controller.signal
       )
+      throwIfAborted(controller.signal)
       
       setState(prev => ({ ...prev, isAnalyzingColors: false }))
       
-      const colorModeLog = options.useCustomColors 
+      const colorModeLog = options.useInventory
+        ? `📦 INVENTORY: Used ${fullPattern.statistics.reducedColorCount} of ${inventory?.length} owned colors`
+        : options.useCustomColors 
         ? `🎨 CUSTOM COLORS: Used ${options.customColorCodes?.length} user-specified colors`
         : `🎨 ALL COLORS: Used ${fullPattern.statistics.originalColorCount} colors, reduced to ${fullPattern.statistics.reducedColorCount}`
       console.log(colorModeLog)
 
       // Convert to legacy format for UI compatibility
-      const pattern: DMCFirstPattern = convertFullPatternToLegacy(fullPattern)
+      const pattern: DMCFirstPattern = {
+        ...convertFullPatternToLegacy(fullPattern),
+        adjustments,
+        detailMask: options.detailMask ?? undefined,
+        seed: fullPattern.statistics.seed
+      }
 
       // PHASE 7: Generate preview image
       const previewImageData = generateConstrainedPatternPreview(pattern, 10)
@@ -128,9 +270,14 @@ export function useDMCFirstPatternGeneration() {
       // PHASE 8: Calculate color statistics for UI
       const colorStatistics = generateColorStatistics(pattern)
 
+      resetEditHistory()
+      patternRef.current = pattern
+      lastFullMatchRef.current = options.useCustomColors || options.useInventory ? null : { imageSrc, options }
       setState(prev => ({
         ...prev,
         isGenerating: false,
+        progress: null,
+        draftPreview: null,
         pattern,
         previewImageUrl,
         colorStatistics
@@ -149,18 +296,51 @@ export function useDMCFirstPatternGeneration() {
         colorStatistics
       }
     } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) {
+        // A replacing run owns the state now; only a plain cancel resets it
+        if (abortControllerRef.current === controller) {
+          setState(prev => ({ ...prev, isGenerating: false, isAnalyzingColors: false, progress: null, draftPreview: null }))
+        }
+        console.log('⏹️ Pattern generation cancelled')
+        throw error
+      }
       const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.'
       setState(prev => ({
         ...prev,
         isGenerating: false,
         isAnalyzingColors: false,
+        progress: null,
+        draftPreview: null,
         error: errorMessage
       }))
       console.error('DMC-first pattern generation failed:', error)
       throw error
+    } finally {
+      signal?.removeEventListener('abort', handleExternalAbort)
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
     }
   }, [])
 
+  /**
+   * ♻️ Whether these settings differ from the last finished run only in the color count,
+   * so regenerating skips matching and only reduces and remaps (near-instant)
+   */
+  const hasCachedFullMatch = useCallback((imageSrc: string, options: DMCFirstPatternOptions) => {
+    const last = lastFullMatchRef.current
+    if (!last || last.imageSrc !== imageSrc || last.options.colorCount === options.colorCount) return false
+    const keys = Object.keys({ ...last.options, ...options }) as Array<keyof DMCFirstPatternOptions>
+    return keys.every(key => key === 'colorCount' || key === 'seed' || last.options[key] === options[key])
+  }, [])
+
+  /**
+   * ⏹️ Cancel the pattern generation in progress, if any (the previous pattern stays)
+   */
+  const cancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
   /**
    * NEW COLOR SUGGESTION SYSTEM: Unlimited color capability
    */
@@ -208,6 +388,30 @@ export function useDMCFirstPatternGeneration() {
     }
   }, [])
 
+  /**
+   * 📉 Measured mean / 95th-percentile ΔE for every color count up to maxColors (full catalog mode)
+   * ⏹️ Measured in a worker; the given signal cancels it
+   */
+  const calculateRateDistortion = useCallback(async (
+    imageSrc: string,
+    options: Omit<DMCFirstPatternOptions, 'colorCount'>,
+    maxColors: number = 60,
+    signal?: AbortSignal
+  ): Promise<RateDistortionCurve> => {
+    const sourceImageData = await loadImageData(imageSrc)
+    throwIfAborted(signal)
+    const { imageData, config } = prepareImageForGrid(sourceImageData, options)
+    const curve = await computeRateDistortionCurveInWorker(
+      imageData,
+      config,
+      maxColors,
+      getDrillCatalog(options.catalogId).colors,
+      signal
+    )
+    console.log(`📉 Rate–distortion: ${curve.points.length} color counts measured on ${curve.sampledBeads} beads, knee at ${curve.kneeColorCount} colors`)
+    return curve
+  }, [])
+
   /**
    * Quick color analysis for real-time updates
    */
@@ -233,10 +437,59 @@ export function useDMCFirstPatternGeneration() {
     }
   }, [])
 
+  /**
+   * Show an edited (or undone/redone) grid. The pattern ref is updated at once, so edits
+   * committed before the next render build on each other instead of on a stale pattern.
+   */
+  const showEditedGrid = (current: DMCFirstPattern, grid: PatternGrid, edited: boolean) => {
+    const editedState = createEditedPatternState(current, grid, edited)
+    patternRef.current = editedState.pattern
+    const history = editHistoryRef.current
+    setEditHistorySize({ undo: history.undo.length, redo: history.redo.length })
+    setState(prev => ({ ...prev, ...editedState }))
+  }
+
+  /**
+   * ✏️ Replace the pattern's beads with an edited grid (undoable).
+   * Statistics, the palette and the preview follow the new grid, so the color table,
+   * icon assignments and exports all see the edit.
+   */
+  const applyPatternEdit = useCallback((grid: PatternGrid) => {
+    const current = patternRef.current
+    if (!current || grid === current.grid) return
+    const history = editHistoryRef.current
+    history.undo.push(current.grid)
+    history.redo = []
+    showEditedGrid(current, grid, true)
+  }, [])
+
+  const undoPatternEdit = useCallback(() => {
+    const current = patternRef.current
+    const history = editHistoryRef.current
+    if (!current || history.undo.length === 0) return
+    const previous = history.undo.pop()!
+    history.redo.push(current.grid)
+    showEditedGrid(current, previous, history.undo.length > 0) // Back at the generated pattern once the stack is empty
+  }, [])
+
+  const redoPatternEdit = useCallback(() => {
+    const current = patternRef.current
+    const history = editHistoryRef.current
+    if (!current || history.redo.length === 0) return
+    const next = history.redo.pop()!
+    history.undo.push(current.grid)
+    showEditedGrid(current, next, true)
+  }, [])
+
   const clearPattern = useCallback(() => {
+    abortControllerRef.current?.abort()
+    resetEditHistory()
+    patternRef.current = null
     setState({
       isGenerating: false,
       isAnalyzingColors: false,
+      progress: null,
+      draftPreview: null,
       error: null,
       pattern: null,
       previewImageUrl: null,
@@ -255,14 +508,23 @@ export function useDMCFirstPatternGeneration() {
       physicalSize: `${state.pattern.config.targetWidth}cm × ${state.pattern.config.targetHeight.toFixed(1)}cm`,
       beadType: state.pattern.config.beadConfig.type === 'circular' ? '원형' : '사각형',
       analysisStrategy: state.pattern.dmcPalette.analysisData.selectionStrategy,
-      imageComplexity: (state.pattern.dmcPalette.analysisData.imageComplexity * 100).toFixed(1)
+      imageComplexity: (state.pattern.dmcPalette.analysisData.imageComplexity * 100).toFixed(1),
+      quantizerBenchmark: state.pattern.statistics.quantizerBenchmark
     }
   }, [state.pattern])
 
   return {
     ...state,
     generatePattern,
+    cancelGeneration,
+    hasCachedFullMatch,
+    applyPatternEdit,
+    undoPatternEdit,
+    redoPatternEdit,
+    canUndoEdit: editHistorySize.undo > 0,
+    canRedoEdit: editHistorySize.redo > 0,
     calculateColorSuggestions,
+    calculateRateDistortion,
     quickColorAnalysis,
     clearPattern,
     getPatternInfo
@@ -352,19 +614,19 @@ function generateConstrainedPatternPreview(
   ctx.fillStyle = 'white'
   ctx.fillRect(0, 0, width, height)
 
-  // Draw each pixel with its selected DMC color
-  for (const pixel of pattern.constrainedPixels) {
-    const x = pixel.x * scale
-    const y = pixel.y * scale
+  // Draw each bead with its selected DMC color
+  forEachBead(pattern.grid, (beadX, beadY, color) => {
+    const x = beadX * scale
+    const y = beadY * scale
     
-    ctx.fillStyle = `rgb(${pixel.selectedDMCColor.r}, ${pixel.selectedDMCColor.g}, ${pixel.selectedDMCColor.b})`
+    ctx.fillStyle = `rgb(${color.r}, ${color.g}, ${color.b})`
     ctx.fillRect(x, y, scale, scale)
     
     // Draw grid lines
     ctx.strokeStyle = 'rgba(0,0,0,0.3)'
     ctx.lineWidth = 0.5
     ctx.strokeRect(x, y, scale, scale)
-  }
+  })
 
   return ctx.getImageData(0, 0, width, height)
 }
@@ -427,15 +689,9 @@ function analyzeImageForColorSuggestions(
  * Convert new FullDMCPattern to legacy DMCFirstPattern for UI compatibility
  */
 function convertFullPatternToLegacy(fullPattern: FullDMCPattern): DMCFirstPattern {
-  // Convert FullMatchedPixel[] to ConstrainedPixel[]
-  const constrainedPixels: ConstrainedPixel[] = fullPattern.fullMatchedPixels.map(pixel => ({
-    x: pixel.x,
-    y: pixel.y,
-    color: pixel.color,
-    averageColor: pixel.averageColor,
-    selectedDMCColor: pixel.matchedDMCColor,
-    selectionDistance: pixel.matchingDistance
-  }))
+  // Per-bead objects become a palette-index grid (2 bytes per bead)
+  const pixels = fullPattern.fullMatchedPixels
+  const grid = buildPatternGrid(pixels, fullPattern.config.beadGridWidth, fullPattern.config.beadGridHeight, fullPattern.reducedPalette)
   
   // Create legacy DMC palette
   const dmcPalette: DMCFirstPalette = {
@@ -455,19 +711,117 @@ function convertFullPatternToLegacy(fullPattern: FullDMCPattern): DMCFirstPatter
   }
   
   // Calculate legacy statistics
-  const totalDistance = constrainedPixels.reduce((sum, p) => sum + p.selectionDistance, 0)
+  const totalDistance = pixels.reduce((sum, p) => sum + p.matchingDistance, 0)
   const statistics = {
     totalPixels: fullPattern.statistics.totalPixels,
     guaranteedColors: fullPattern.statistics.reducedColorCount,
-    averageSelectionDistance: totalDistance / constrainedPixels.length,
+    averageSelectionDistance: totalDistance / pixels.length,
     colorUsage,
-    selectionQuality: fullPattern.statistics.qualityScore
+    selectionQuality: fullPattern.statistics.qualityScore,
+    confettiCleanup: fullPattern.statistics.confettiCleanup,
+    inventory: fullPattern.statistics.inventory,
+    abHighlights: fullPattern.statistics.abHighlights,
+    transparency: fullPattern.statistics.transparency,
+    protectedColors: fullPattern.statistics.protectedColors,
+    paletteOptimization: fullPattern.statistics.paletteOptimization,
+    quantizerBenchmark: fullPattern.statistics.quantizerBenchmark
   }
   
   return {
-    constrainedPixels,
+    catalogId: fullPattern.catalogId,
+    grid,
     dmcPalette,
     config: fullPattern.config,
     statistics
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Pattern, preview and color statistics for an edited grid.
+ * Colors no bead uses any more drop out of the palette and legend; the generation quality
+ * figures are kept (they describe the generated pattern).
+ */
+function createEditedPatternState(
+  pattern: DMCFirstPattern,
+  grid: PatternGrid,
+  edited: boolean
+): Pick<DMCFirstGenerationState, 'pattern' | 'previewImageUrl' | 'colorStatistics'> {
+  const counts = countPaletteUsage(grid)
+  const colorUsage = new Map<string, number>()
+  const selectedColors: DMCColor[] = []
+  let totalPixels = 0
+  grid.palette.forEach((color, index) => {
+    if (counts[index] === 0) return
+    colorUsage.set(color.code, counts[index])
+    selectedColors.push(color)
+    totalPixels += counts[index]
+  })
+
+  const editedPattern: DMCFirstPattern = {
+    ...pattern,
+    grid,
+    edited,
+    dmcPalette: { ...pattern.dmcPalette, selectedColors },
+    statistics: {
+      ...pattern.statistics,
+      totalPixels,
+      guaranteedColors: selectedColors.length,
+      colorUsage
+    }
+  }
+
+  return {
+    pattern: editedPattern,
+    previewImageUrl: imageDataToDataURL(generateConstrainedPatternPreview(editedPattern, 10)),
+    colorStatistics: generateColorStatistics(editedPattern)
+  }
+}
+
+/**
+ * Apply image adjustments and calculate the bead grid (pixel-art grid when enabled).
+ * Shared by pattern generation and the color-count analysis so both see the same beads.
+ */
+function prepareImageForGrid(
+  sourceImageData: ImageData,
+  options: Omit<DMCFirstPatternOptions, 'colorCount'>
+): { imageData: ImageData, config: PixelizationConfig, adjustments?: ImageAdjustments } {
+  const adjustments = hasImageAdjustments(options.adjustments) ? { ...options.adjustments! } : undefined
+  let imageData = adjustments ? applyImageAdjustments(sourceImageData, adjustments) : sourceImageData
+  if (adjustments) {
+    console.log(`🎚️ Image adjustments applied`)
+  }
+
+  // 👾 Pixel-art mode: the grid comes from the art itself, detected on the unadjusted source
+  const pixelArtGrid = options.pixelArt ? detectPixelArtGrid(sourceImageData) : null
+  if (options.pixelArt && !pixelArtGrid) {
+    console.warn('⚠️ No pixel-art grid detected, falling back to standard pixelization')
+  }
+
+  let config: PixelizationConfig
+  if (pixelArtGrid) {
+    imageData = extractPixelArtImage(imageData, pixelArtGrid)
+    config = calculatePixelArtConfig(pixelArtGrid, options.beadType, options.beadSize, options.canvasShape)
+    console.log(`👾 Pixel art: ${pixelArtGrid.scale}px per art pixel, offset (${pixelArtGrid.offsetX}, ${pixelArtGrid.offsetY})`)
+  } else {
+    config = {
+      ...calculatePixelizationConfig(
+        options.targetWidth,
+        options.imageWidth,
+        options.imageHeight,
+        options.beadType,
+        options.beadSize,
+        options.canvasShape
+      ),
+      colorEstimator: options.colorEstimator
+    }
+  }
+  console.log(`📐 Pattern grid: ${config.beadGridWidth}x${config.beadGridHeight}`)
+  if (config.colorEstimator && config.colorEstimator !== 'mean') {
+    console.log(`🔬 Bead color estimator: ${config.colorEstimator}`)
+  }
+  if (config.shapeMask) {
+    console.log(`🔷 Canvas shape: ${config.shapeMask.shape} (${config.shapeMask.beadCount} beads)`)
+  }
+
+  return { imageData, config, adjustments }
+}
@@ -4,6 +4,7 @@ import { useState, useCallback, useEffect } from 'react'
 import {
   PixelizationConfig,
   BeadPixel,
+  CellColorEstimator,
   calculatePixelizationConfig,
   loadImageData,
   pixelizeImage,
@@ -29,6 +30,7 @@ export interface PixelizationOptions {
   imageHeight: number
   beadSize?: number
   useAverageColor?: boolean
+  colorEstimator?: CellColorEstimator // Photos: 'linear'; flat art: 'mode' (default: 'mean')
   maxDisplayWidth?: number
   maxDisplayHeight?: number
 }
@@ -56,13 +58,16 @@ export function useImagePixelization() {
 
     try {
       // Calculate configuration
-      const config = calculatePixelizationConfig(
-        options.targetWidth,
-        options.imageWidth,
-        options.imageHeight,
-        options.beadType,
-        options.beadSize
-      )
+      const config: PixelizationConfig = {
+        ...calculatePixelizationConfig(
+          options.targetWidth,
+          options.imageWidth,
+          options.imageHeight,
+          options.beadType,
+          options.beadSize
+        ),
+        colorEstimator: options.colorEstimator
+      }
 
       // Load original image data
       const originalImageData = await loadImageData(imageSrc)
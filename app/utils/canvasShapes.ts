@@ -0,0 +1,135 @@
+// Canvas Shapes
+// Round, oval, heart and custom-mask canvases: which bead grid cells hold a bead
+
+import { type ShapeMask } from './imagePixelization'
+
+export type CanvasShape = 'rectangle' | 'round' | 'oval' | 'heart' | 'custom'
+
+export interface CanvasShapeOption {
+  shape: CanvasShape
+  maskImage?: ImageData // Required for 'custom'
+}
+
+export const CANVAS_SHAPES: Array<{ shape: CanvasShape, label: string }> = [
+  { shape: 'rectangle', label: 'Rectangle' },
+  { shape: 'round', label: 'Round' },
+  { shape: 'oval', label: 'Oval' },
+  { shape: 'heart', label: 'Heart' },
+  { shape: 'custom', label: 'Custom Mask' }
+]
+
+// Bounding box of the heart curve (x² + y² − 1)³ − x²y³ = 0
+const HEART_BOUNDS = { minX: -1.139, maxX: 1.139, minY: -1, maxY: 1.236 }
+
+/**
+ * Build the mask for a bead grid. Returns undefined for plain rectangles (every cell is a bead).
+ */
+export function createShapeMask(
+  option: CanvasShapeOption,
+  gridWidth: number,
+  gridHeight: number
+): ShapeMask | undefined {
+  if (option.shape === 'rectangle' || gridWidth <= 0 || gridHeight <= 0) {
+    return undefined
+  }
+  if (option.shape === 'custom' && !option.maskImage) {
+    return undefined
+  }
+
+  const cells = option.shape === 'custom'
+    ? rasterizeMaskImage(option.maskImage!, gridWidth, gridHeight)
+    : rasterizePresetShape(option.shape, gridWidth, gridHeight)
+
+  let beadCount = 0
+  for (let i = 0; i < cells.length; i++) {
+    beadCount += cells[i]
+  }
+
+  return { shape: option.shape, cells, beadCount }
+}
+
+/**
+ * Test each cell center against the preset shape, fitted to the grid
+ */
+function rasterizePresetShape(shape: CanvasShape, gridWidth: number, gridHeight: number): Uint8Array {
+  const cells = new Uint8Array(gridWidth * gridHeight)
+  const radius = Math.min(gridWidth, gridHeight) / 2
+
+  for (let y = 0; y < gridHeight; y++) {
+    for (let x = 0; x < gridWidth; x++) {
+      const cx = x + 0.5
+      const cy = y + 0.5
+      let inside = false
+
+      if (shape === 'round') {
+        // Largest circle centered on the grid
+        const dx = cx - gridWidth / 2
+        const dy = cy - gridHeight / 2
+        inside = dx * dx + dy * dy <= radius * radius
+      } else if (shape === 'oval') {
+        // Ellipse touching all four grid edges
+        const nx = (cx / gridWidth) * 2 - 1
+        const ny = (cy / gridHeight) * 2 - 1
+        inside = nx * nx + ny * ny <= 1
+      } else if (shape === 'heart') {
+        // Heart curve stretched to the grid; canvas y grows downwards, so lobes map to the top rows
+        const hx = HEART_BOUNDS.minX + (cx / gridWidth) * (HEART_BOUNDS.maxX - HEART_BOUNDS.minX)
+        const hy = HEART_BOUNDS.maxY - (cy / gridHeight) * (HEART_BOUNDS.maxY - HEART_BOUNDS.minY)
+        const a = hx * hx + hy * hy - 1
+        inside = a * a * a - hx * hx * hy * hy * hy <= 0
+      }
+
+      cells[y * gridWidth + x] = inside ? 1 : 0
+    }
+  }
+
+  return cells
+}
+
+/**
+ * Sample an uploaded mask image onto the grid.
+ * Masks with transparency use opaque areas as the shape; fully opaque masks use dark areas
+ * (black shape on a white background).
+ */
+function rasterizeMaskImage(mask: ImageData, gridWidth: number, gridHeight: number): Uint8Array {
+  const cells = new Uint8Array(gridWidth * gridHeight)
+  const data = mask.data
+
+  let hasTransparency = false
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) {
+      hasTransparency = true
+      break
+    }
+  }
+
+  const scaleX = mask.width / gridWidth
+  const scaleY = mask.height / gridHeight
+
+  for (let y = 0; y < gridHeight; y++) {
+    for (let x = 0; x < gridWidth; x++) {
+      const startX = Math.floor(x * scaleX)
+      const startY = Math.floor(y * scaleY)
+      const endX = Math.max(startX + 1, Math.floor((x + 1) * scaleX))
+      const endY = Math.max(startY + 1, Math.floor((y + 1) * scaleY))
+
+      // Majority vote over the cell's region
+      let insideCount = 0
+      let total = 0
+      for (let py = startY; py < endY && py < mask.height; py++) {
+        for (let px = startX; px < endX && px < mask.width; px++) {
+          const index = (py * mask.width + px) * 4
+          const inside = hasTransparency
+            ? data[index + 3] >= 128
+            : data[index] * 0.299 + data[index + 1] * 0.587 + data[index + 2] * 0.114 < 128
+          if (inside) insideCount++
+          total++
+        }
+      }
+
+      cells[y * gridWidth + x] = total > 0 && insideCount * 2 >= total ? 1 : 0
+    }
+  }
+
+  return cells
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createNearestColorIndex,
+  euclideanDistance,
+  findClosestColorDeltaE,
+  findNearestColorLinear,
+  quantizeColors,
+  rgbToLab,
+  type ColorQuantizerMethod,
+  type LABColor,
+  type RGBColor
+} from './colorMatching'
+import { DMC_COLORS } from './dmcColors'
+import { createSeededRandom } from './seededRandom'
+
+const catalogLabs = DMC_COLORS.map(color => rgbToLab(color))
+
+function randomQueries(count: number, seed: number): LABColor[] {
+  const random = createSeededRandom(seed)
+  const queries: LABColor[] = []
+  for (let i = 0; i < count; i++) {
+    queries.push(rgbToLab({
+      r: Math.floor(random() * 256),
+      g: Math.floor(random() * 256),
+      b: Math.floor(random() * 256)
+    }))
+  }
+  return queries
+}
+
+describe('createNearestColorIndex', () => {
+  const queries = [
+    ...randomQueries(5000, 42),
+    ...catalogLabs, // Exact hits (distance 0)
+    { l: 0, a: 0, b: 0 },
+    { l: 100, a: 0, b: 0 }
+  ]
+
+  for (const acceptBelow of [0, 1]) {
+    it(`matches a linear scan over the DMC catalog (acceptBelow ${acceptBelow})`, () => {
+      const index = createNearestColorIndex(catalogLabs, acceptBelow)
+      for (const lab of queries) {
+        expect(index.findNearest(lab)).toEqual(findNearestColorLinear(catalogLabs, lab, acceptBelow))
+      }
+    })
+
+    it(`breaks ties like a linear scan (acceptBelow ${acceptBelow})`, () => {
+      // Every color appears twice: each query ties between two entries
+      const duplicated = [...catalogLabs, ...catalogLabs.slice().reverse()]
+      const index = createNearestColorIndex(duplicated, acceptBelow)
+      for (const lab of [...queries.slice(0, 1000), ...catalogLabs]) {
+        expect(index.findNearest(lab)).toEqual(findNearestColorLinear(duplicated, lab, acceptBelow))
+      }
+    })
+  }
+})
+
+describe('findClosestColorDeltaE', () => {
+  it('sees palette colors changed in place after the first search', () => {
+    const palette = [{ r: 255, g: 0, b: 0 }, { r: 0, g: 0, b: 255 }]
+    expect(findClosestColorDeltaE({ r: 250, g: 10, b: 10 }, palette).index).toBe(0)
+
+    palette[0] = { r: 0, g: 255, b: 0 }
+    palette[1] = { r: 250, g: 10, b: 10 }
+    expect(findClosestColorDeltaE({ r: 250, g: 10, b: 10 }, palette).index).toBe(1)
+  })
+})
+
+// Noisy samples (±8 per channel) around four well-separated colors
+function clusteredColors(count: number, seed: number): RGBColor[] {
+  const random = createSeededRandom(seed)
+  const centers = [{ r: 200, g: 40, b: 40 }, { r: 40, g: 180, b: 60 }, { r: 40, g: 60, b: 200 }, { r: 230, g: 220, b: 60 }]
+  const noise = () => Math.round(random() * 16 - 8)
+  const colors: RGBColor[] = []
+  for (let i = 0; i < count; i++) {
+    const center = centers[i % centers.length]
+    colors.push({ r: center.r + noise(), g: center.g + noise(), b: center.b + noise() })
+  }
+  return colors
+}
+
+describe('quantizeColors', () => {
+  const colors = clusteredColors(400, 7)
+
+  for (const method of ['median-cut', 'octree', 'wu'] as ColorQuantizerMethod[]) {
+    it(`${method} finds the four clusters with small error`, () => {
+      const { centroids, labels } = quantizeColors(colors, 4, method)
+
+      expect(centroids).toHaveLength(4)
+      expect(labels).toHaveLength(colors.length)
+      const meanError = colors.reduce((sum, color, i) => sum + euclideanDistance(color, centroids[labels[i]]), 0) / colors.length
+      expect(meanError).toBeLessThan(12)
+    })
+
+    it(`${method} is deterministic and never returns more clusters than distinct colors`, () => {
+      expect(quantizeColors(colors, 6, method)).toEqual(quantizeColors(colors, 6, method))
+
+      const threeColors = [0, 1, 2].flatMap(() => [{ r: 10, g: 10, b: 10 }, { r: 120, g: 30, b: 200 }, { r: 250, g: 250, b: 250 }])
+      const { centroids } = quantizeColors(threeColors, 8, method)
+      expect(centroids.length).toBeLessThanOrEqual(3)
+      expect(centroids).toEqual(expect.arrayContaining([{ r: 10, g: 10, b: 10 }, { r: 250, g: 250, b: 250 }]))
+      expect(quantizeColors(threeColors, 2, method).centroids).toHaveLength(2)
+    })
+  }
+
+  it('kmeans with a seeded random source repeats its result', () => {
+    expect(quantizeColors(colors, 4, 'kmeans', createSeededRandom(3)))
+      .toEqual(quantizeColors(colors, 4, 'kmeans', createSeededRandom(3)))
+  })
+})
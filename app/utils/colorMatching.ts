@@ -1,5 +1,7 @@
 // CIELAB Delta E Color Matching System
 
+import { type RandomSource } from './seededRandom'
+
 export interface RGBColor {
   r: number
   g: number
@@ -43,6 +45,39 @@ export function rgbToLab(rgb: RGBColor): LABColor {
   }
 }
 
+/**
+ * Convert CIELAB back to RGB (inverse of rgbToLab, clamped to 0-255)
+ */
+export function labToRgb(lab: LABColor): RGBColor {
+  // Convert LAB to XYZ
+  let y = (lab.l + 16) / 116
+  let x = lab.a / 500 + y
+  let z = y - lab.b / 200
+
+  x = Math.pow(x, 3) > 0.008856 ? Math.pow(x, 3) : (x - 16/116) / 7.787
+  y = Math.pow(y, 3) > 0.008856 ? Math.pow(y, 3) : (y - 16/116) / 7.787
+  z = Math.pow(z, 3) > 0.008856 ? Math.pow(z, 3) : (z - 16/116) / 7.787
+
+  x *= 0.95047
+  z *= 1.08883
+
+  // Convert XYZ to linear sRGB
+  let r = x * 3.2406 + y * -1.5372 + z * -0.4986
+  let g = x * -0.9689 + y * 1.8758 + z * 0.0415
+  let b = x * 0.0557 + y * -0.2040 + z * 1.0570
+
+  // Apply gamma correction
+  r = r > 0.0031308 ? 1.055 * Math.pow(r, 1 / 2.4) - 0.055 : 12.92 * r
+  g = g > 0.0031308 ? 1.055 * Math.pow(g, 1 / 2.4) - 0.055 : 12.92 * g
+  b = b > 0.0031308 ? 1.055 * Math.pow(b, 1 / 2.4) - 0.055 : 12.92 * b
+
+  return {
+    r: Math.max(0, Math.min(255, Math.round(r * 255))),
+    g: Math.max(0, Math.min(255, Math.round(g * 255))),
+    b: Math.max(0, Math.min(255, Math.round(b * 255)))
+  }
+}
+
 /**
  * Calculate Delta E 2000 color difference between two LAB colors
  * Returns a value where 0 = identical colors, higher values = more different
@@ -116,6 +151,10 @@ export function euclideanDistance(rgb1: RGBColor, rgb2: RGBColor): number {
   return Math.sqrt(dr * dr + dg * dg + db * db)
 }
 
+// Palettes are usually searched once per bead; each gets an index on first use.
+// The colors it was built from are kept too, so a palette changed in place gets a new index.
+const rgbPaletteIndexes = new WeakMap<RGBColor[], { colors: Float64Array, index: NearestColorIndex }>()
+
 /**
  * Find the closest color from a palette using Delta E 2000
  */
@@ -123,28 +162,146 @@ export function findClosestColorDeltaE(
   targetColor: RGBColor,
   palette: RGBColor[]
 ): { color: RGBColor; distance: number; index: number } {
-  const targetLab = rgbToLab(targetColor)
-  let minDistance = Infinity
-  let closestColor = palette[0]
-  let closestIndex = 0
+  const colors = new Float64Array(palette.length * 3)
+  palette.forEach((color, i) => {
+    colors[i * 3] = color.r
+    colors[i * 3 + 1] = color.g
+    colors[i * 3 + 2] = color.b
+  })
+  let cached = rgbPaletteIndexes.get(palette)
+  if (!cached || !sameValues(cached.colors, colors)) {
+    cached = { colors, index: createNearestColorIndex(palette.map(color => rgbToLab(color))) }
+    rgbPaletteIndexes.set(palette, cached)
+  }
+  const { index, distance } = cached.index.findNearest(rgbToLab(targetColor))
 
-  for (let i = 0; i < palette.length; i++) {
-    const paletteColor = palette[i]
-    const paletteLab = rgbToLab(paletteColor)
-    const distance = deltaE2000(targetLab, paletteLab)
+  return {
+    color: palette[index],
+    distance,
+    index
+  }
+}
 
-    if (distance < minDistance) {
-      minDistance = distance
-      closestColor = paletteColor
-      closestIndex = i
+// =============================================================================
+// NEAREST COLOR INDEX: exact ΔE2000 nearest-color search without a full scan
+// =============================================================================
+// ΔE2000 can never be smaller than its lightness term |ΔL| / SL, and SL is at most ~1.747
+// over L 0-100 (the chroma/hue terms, rotation included, are never negative). Colors are kept
+// sorted by L; a search walks outward from the query's L and stops once |ΔL| / SL_MAX exceeds
+// the best distance found, so only nearby-lightness colors are ranked with deltaE2000.
+// Results (including ties and the early-accept rule) match a linear scan exactly.
+
+export interface NearestColorMatch {
+  index: number // Position in the original color list (-1 when the list is empty)
+  distance: number // ΔE2000 from the query
+}
+
+export interface NearestColorIndex {
+  size: number
+  findNearest: (lab: LABColor) => NearestColorMatch
+}
+
+// Upper bound of the ΔE2000 lightness weight SL (exact max is 1.7470 at L = 0 or 100)
+const SL_MAX = 1.75
+
+// Below this many colors a linear scan is as fast as the index
+const MIN_INDEXED_COLORS = 16
+
+/**
+ * Build an index over a fixed color list.
+ * acceptBelow mirrors a linear scan that stops at the first color closer than this:
+ * when any color is that close, the one earliest in the list wins rather than the closest.
+ */
+export function createNearestColorIndex(labs: LABColor[], acceptBelow: number = 0): NearestColorIndex {
+  if (labs.length < MIN_INDEXED_COLORS) {
+    return { size: labs.length, findNearest: lab => findNearestColorLinear(labs, lab, acceptBelow) }
+  }
+
+  const order = Int32Array.from(labs.map((_, i) => i)).sort((a, b) => labs[a].l - labs[b].l)
+  const lightness = Float64Array.from(order, i => labs[i].l)
+
+  const findNearest = (lab: LABColor): NearestColorMatch => {
+    let best = Infinity
+    let bestIndex = -1
+    let firstAccepted = -1
+    let firstAcceptedDistance = Infinity
+
+    // Two cursors walking away from the query lightness
+    let high = lowerBound(lightness, lab.l)
+    let low = high - 1
+
+    while (low >= 0 || high < order.length) {
+      const lowGap = low >= 0 ? lab.l - lightness[low] : Infinity
+      const highGap = high < order.length ? lightness[high] - lab.l : Infinity
+      const takeLow = lowGap <= highGap
+      const gap = takeLow ? lowGap : highGap
+
+      // Nothing farther out can beat (or tie) the best, or be accepted early
+      const limit = firstAccepted >= 0 || best < acceptBelow ? acceptBelow : best
+      if (gap / SL_MAX > limit) break
+
+      const index = takeLow ? order[low--] : order[high++]
+      const distance = deltaE2000(lab, labs[index])
+
+      if (distance < acceptBelow && (firstAccepted < 0 || index < firstAccepted)) {
+        firstAccepted = index
+        firstAcceptedDistance = distance
+      }
+      if (distance < best || (distance === best && index < bestIndex)) {
+        best = distance
+        bestIndex = index
+      }
     }
+
+    return firstAccepted >= 0
+      ? { index: firstAccepted, distance: firstAcceptedDistance }
+      : { index: bestIndex, distance: best }
   }
 
-  return {
-    color: closestColor,
-    distance: minDistance,
-    index: closestIndex
+  return { size: labs.length, findNearest }
+}
+
+/**
+ * Reference linear scan: first color with the smallest ΔE2000, stopping early at the
+ * first color closer than acceptBelow
+ */
+export function findNearestColorLinear(labs: LABColor[], lab: LABColor, acceptBelow: number = 0): NearestColorMatch {
+  let best = Infinity
+  let bestIndex = -1
+  for (let i = 0; i < labs.length; i++) {
+    const distance = deltaE2000(lab, labs[i])
+    if (distance < best) {
+      best = distance
+      bestIndex = i
+      if (best < acceptBelow) break
+    }
+  }
+  return { index: bestIndex, distance: best }
+}
+
+function sameValues(a: Float64Array, b: Float64Array): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
   }
+  return true
+}
+
+/**
+ * First position whose value is >= target (values sorted ascending)
+ */
+function lowerBound(values: Float64Array, target: number): number {
+  let low = 0
+  let high = values.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (values[middle] < target) {
+      low = middle + 1
+    } else {
+      high = middle
+    }
+  }
+  return low
 }
 
 /**
@@ -188,7 +345,8 @@ export interface KMeansResult {
 export function kMeansColorQuantization(
   colors: RGBColor[],
   k: number,
-  maxIterations: number = 100
+  maxIterations: number = 100,
+  random: RandomSource = Math.random // Pass a seeded source for reproducible centroids
 ): KMeansResult {
   if (colors.length === 0) throw new Error('Colors array cannot be empty')
   if (k <= 0) throw new Error('K must be positive')
@@ -205,7 +363,7 @@ export function kMeansColorQuantization(
   const centroids: RGBColor[] = []
   
   // Choose first centroid randomly
-  centroids.push(colors[Math.floor(Math.random() * colors.length)])
+  centroids.push(colors[Math.floor(random() * colors.length)])
   
   // Choose remaining centroids using k-means++
   for (let i = 1; i < k; i++) {
@@ -223,11 +381,11 @@ export function kMeansColorQuantization(
     }
     
     // Choose next centroid with probability proportional to squared distance
-    const random = Math.random() * totalDistance
+    const threshold = random() * totalDistance
     let cumulative = 0
     for (let j = 0; j < colors.length; j++) {
       cumulative += distances[j]
-      if (cumulative >= random) {
+      if (cumulative >= threshold) {
         centroids.push(colors[j])
         break
       }
@@ -322,24 +480,406 @@ function arraysEqual(a: number[], b: number[]): boolean {
   return true
 }
 
+/**
+ * Color quantizers behind one interface: same inputs, same result shape as k-means
+ * - 'kmeans': k-means++ (best fit, slowest, uses the random source)
+ * - 'median-cut': split the box with the widest channel range at its median
+ * - 'octree': merge the least-used leaves of an RGB octree
+ * - 'wu': Xiaolin Wu's variance-minimizing box cuts on a 32-level histogram (fast, deterministic)
+ */
+export type ColorQuantizerMethod = 'kmeans' | 'median-cut' | 'octree' | 'wu'
+
+export const COLOR_QUANTIZERS: Array<{ value: ColorQuantizerMethod, label: string }> = [
+  { value: 'kmeans', label: 'K-means' },
+  { value: 'median-cut', label: 'Median cut' },
+  { value: 'octree', label: 'Octree' },
+  { value: 'wu', label: 'Wu' }
+]
+
+export function quantizeColors(
+  colors: RGBColor[],
+  k: number,
+  method: ColorQuantizerMethod = 'kmeans',
+  random: RandomSource = Math.random
+): KMeansResult {
+  if (colors.length === 0) throw new Error('Colors array cannot be empty')
+  if (k <= 0) throw new Error('K must be positive')
+
+  switch (method) {
+    case 'median-cut':
+      return medianCutColorQuantization(colors, k)
+    case 'octree':
+      return octreeColorQuantization(colors, k)
+    case 'wu':
+      return wuColorQuantization(colors, k)
+    default:
+      return kMeansColorQuantization(colors, k, 100, random)
+  }
+}
+
+/**
+ * Median cut: repeatedly split the box with the widest channel range at the median of that channel
+ */
+export function medianCutColorQuantization(colors: RGBColor[], k: number): KMeansResult {
+  const channels: Array<'r' | 'g' | 'b'> = ['r', 'g', 'b']
+  const boxes: number[][] = [colors.map((_, i) => i)]
+
+  const widestChannel = (box: number[]) => {
+    let best = { channel: channels[0], range: -1 }
+    for (const channel of channels) {
+      let min = 255
+      let max = 0
+      for (const index of box) {
+        min = Math.min(min, colors[index][channel])
+        max = Math.max(max, colors[index][channel])
+      }
+      if (max - min > best.range) best = { channel, range: max - min }
+    }
+    return best
+  }
+
+  while (boxes.length < k) {
+    let boxIndex = -1
+    let split = { channel: channels[0], range: 0 }
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return
+      const widest = widestChannel(box)
+      if (widest.range > split.range) {
+        split = widest
+        boxIndex = i
+      }
+    })
+    if (boxIndex < 0) break // Every box holds a single color
+
+    const box = boxes[boxIndex].sort((a, b) => colors[a][split.channel] - colors[b][split.channel])
+    const value = (i: number) => colors[box[i]][split.channel]
+
+    // Cut at the value change nearest the median, so equal colors never end up in two boxes
+    const median = Math.floor(box.length / 2)
+    let lower = median
+    while (lower > 0 && value(lower) === value(lower - 1)) lower--
+    let upper = median
+    while (upper < box.length && value(upper) === value(upper - 1)) upper++
+    const cut = lower > 0 && (upper >= box.length || median - lower <= upper - median) ? lower : upper
+    boxes.splice(boxIndex, 1, box.slice(0, cut), box.slice(cut))
+  }
+
+  return collectClusters(colors, boxes)
+}
+
+interface OctreeNode {
+  r: number
+  g: number
+  b: number
+  count: number
+  children: Array<OctreeNode | null> | null // null once the node is a leaf
+  index: number // Leaf index, assigned after reduction
+}
+
+const OCTREE_DEPTH = 6 // 2 bits of noise dropped per channel; plenty for drill palettes
+
+/**
+ * Octree: insert every color, then fold the least-used deepest branches until k leaves remain
+ */
+export function octreeColorQuantization(colors: RGBColor[], k: number): KMeansResult {
+  const createNode = (level: number): OctreeNode => ({
+    r: 0,
+    g: 0,
+    b: 0,
+    count: 0,
+    children: level < OCTREE_DEPTH ? new Array(8).fill(null) : null,
+    index: -1
+  })
+  const childIndex = (color: RGBColor, level: number) => {
+    const shift = 7 - level
+    return (((color.r >> shift) & 1) << 2) | (((color.g >> shift) & 1) << 1) | ((color.b >> shift) & 1)
+  }
+
+  const root = createNode(0)
+  const reducible: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => [])
+  reducible[0].push(root)
+  let leafCount = 0
+
+  for (const color of colors) {
+    let node = root
+    for (let level = 0; node.children; level++) {
+      const slot = childIndex(color, level)
+      let child = node.children[slot]
+      if (!child) {
+        child = createNode(level + 1)
+        node.children[slot] = child
+        if (child.children) {
+          reducible[level + 1].push(child)
+        } else {
+          leafCount++
+        }
+      }
+      node = child
+    }
+    node.r += color.r
+    node.g += color.g
+    node.b += color.b
+    node.count++
+  }
+
+  // Fold from the deepest level up, least-used nodes first
+  for (let level = OCTREE_DEPTH - 1; level >= 0 && leafCount > k; level--) {
+    const nodes = reducible[level].sort((a, b) => subtreeCount(a) - subtreeCount(b))
+    for (const node of nodes) {
+      if (leafCount <= k) break
+      // Children are leaves by now (deeper levels were folded first)
+      const slots = node.children!.map((_, slot) => slot).filter(slot => node.children![slot])
+      if (slots.length - 1 > leafCount - k) {
+        // Folding the whole node would leave fewer than k leaves: merge only its smallest children
+        const leaf = createNode(OCTREE_DEPTH)
+        slots.sort((a, b) => node.children![a]!.count - node.children![b]!.count)
+        for (const slot of slots.slice(0, leafCount - k + 1)) {
+          const child = node.children![slot]!
+          leaf.r += child.r
+          leaf.g += child.g
+          leaf.b += child.b
+          leaf.count += child.count
+          node.children![slot] = leaf // Colors of every merged slot still descend to the same leaf
+        }
+        leafCount = k
+        break
+      }
+      let merged = 0
+      for (const child of node.children!) {
+        if (!child) continue
+        node.r += child.r
+        node.g += child.g
+        node.b += child.b
+        node.count += child.count
+        merged++
+      }
+      node.children = null
+      leafCount -= merged - 1
+    }
+  }
+
+  // Number the leaves and label each color with the leaf it falls into
+  const leaves: OctreeNode[] = []
+  const numberLeaves = (node: OctreeNode) => {
+    if (!node.children) {
+      if (node.index < 0) {
+        node.index = leaves.length
+        leaves.push(node)
+      }
+      return
+    }
+    node.children.forEach(child => child && numberLeaves(child))
+  }
+  numberLeaves(root)
+
+  const labels = colors.map(color => {
+    let node = root
+    for (let level = 0; node.children; level++) {
+      node = node.children[childIndex(color, level)]!
+    }
+    return node.index
+  })
+
+  return {
+    centroids: leaves.map(leaf => ({
+      r: Math.round(leaf.r / leaf.count),
+      g: Math.round(leaf.g / leaf.count),
+      b: Math.round(leaf.b / leaf.count)
+    })),
+    labels,
+    iterations: 0
+  }
+}
+
+function subtreeCount(node: OctreeNode): number {
+  if (!node.children) return node.count
+  return node.children.reduce((sum, child) => sum + (child ? subtreeCount(child) : 0), node.count)
+}
+
+interface WuBox {
+  r0: number // Exclusive lower bounds, inclusive upper bounds (histogram indices 0-32)
+  r1: number
+  g0: number
+  g1: number
+  b0: number
+  b1: number
+  volume: number
+}
+
+const WU_SIDE = 33
+
+/**
+ * Wu's quantizer: cumulative color moments over a 32×32×32 histogram, then greedy box cuts
+ * that maximize the between-box variance (X. Wu, Graphics Gems II, 1991)
+ */
+export function wuColorQuantization(colors: RGBColor[], k: number): KMeansResult {
+  const size = WU_SIDE * WU_SIDE * WU_SIDE
+  const weights = new Float64Array(size)
+  const momentsR = new Float64Array(size)
+  const momentsG = new Float64Array(size)
+  const momentsB = new Float64Array(size)
+  const moments2 = new Float64Array(size)
+  const at = (r: number, g: number, b: number) => (r * WU_SIDE + g) * WU_SIDE + b
+  const cellOf = (color: RGBColor) => at((color.r >> 3) + 1, (color.g >> 3) + 1, (color.b >> 3) + 1)
+
+  for (const color of colors) {
+    const cell = cellOf(color)
+    weights[cell]++
+    momentsR[cell] += color.r
+    momentsG[cell] += color.g
+    momentsB[cell] += color.b
+    moments2[cell] += color.r * color.r + color.g * color.g + color.b * color.b
+  }
+
+  // Turn the histogram into cumulative moments so any box sum takes 8 lookups
+  for (const moments of [weights, momentsR, momentsG, momentsB, moments2]) {
+    for (let r = 1; r < WU_SIDE; r++) {
+      const area = new Float64Array(WU_SIDE)
+      for (let g = 1; g < WU_SIDE; g++) {
+        let line = 0
+        for (let b = 1; b < WU_SIDE; b++) {
+          line += moments[at(r, g, b)]
+          area[b] += line
+          moments[at(r, g, b)] = moments[at(r - 1, g, b)] + area[b]
+        }
+      }
+    }
+  }
+
+  const volume = (box: WuBox, moments: Float64Array) =>
+    moments[at(box.r1, box.g1, box.b1)] - moments[at(box.r1, box.g1, box.b0)] -
+    moments[at(box.r1, box.g0, box.b1)] + moments[at(box.r1, box.g0, box.b0)] -
+    moments[at(box.r0, box.g1, box.b1)] + moments[at(box.r0, box.g1, box.b0)] +
+    moments[at(box.r0, box.g0, box.b1)] - moments[at(box.r0, box.g0, box.b0)]
+
+  const variance = (box: WuBox) => {
+    const weight = volume(box, weights)
+    if (weight === 0) return 0
+    const r = volume(box, momentsR)
+    const g = volume(box, momentsG)
+    const b = volume(box, momentsB)
+    return volume(box, moments2) - (r * r + g * g + b * b) / weight
+  }
+
+  // Sum of a box's moments with one axis limited to (lower, position]
+  const sliceVolume = (box: WuBox, axis: 'r' | 'g' | 'b', position: number, moments: Float64Array) =>
+    volume({ ...box, [`${axis}1`]: position }, moments)
+
+  const cut = (box: WuBox, next: WuBox): boolean => {
+    const wholeR = volume(box, momentsR)
+    const wholeG = volume(box, momentsG)
+    const wholeB = volume(box, momentsB)
+    const wholeWeight = volume(box, weights)
+
+    let best = { axis: 'r' as 'r' | 'g' | 'b', position: -1, score: 0 }
+    for (const axis of ['r', 'g', 'b'] as const) {
+      const lower = box[`${axis}0`]
+      const upper = box[`${axis}1`]
+      for (let position = lower + 1; position < upper; position++) {
+        const weight = sliceVolume(box, axis, position, weights)
+        const restWeight = wholeWeight - weight
+        if (weight === 0 || restWeight === 0) continue
+        const r = sliceVolume(box, axis, position, momentsR)
+        const g = sliceVolume(box, axis, position, momentsG)
+        const b = sliceVolume(box, axis, position, momentsB)
+        const score = (r * r + g * g + b * b) / weight +
+          ((wholeR - r) ** 2 + (wholeG - g) ** 2 + (wholeB - b) ** 2) / restWeight
+        if (score > best.score) {
+          best = { axis, position, score }
+        }
+      }
+    }
+    if (best.position < 0) return false
+
+    Object.assign(next, box)
+    box[`${best.axis}1`] = best.position
+    next[`${best.axis}0`] = best.position
+    box.volume = (box.r1 - box.r0) * (box.g1 - box.g0) * (box.b1 - box.b0)
+    next.volume = (next.r1 - next.r0) * (next.g1 - next.g0) * (next.b1 - next.b0)
+    return true
+  }
+
+  const boxes: WuBox[] = [{ r0: 0, r1: 32, g0: 0, g1: 32, b0: 0, b1: 32, volume: 32 * 32 * 32 }]
+  const variances = [0]
+  let next = 0
+  while (boxes.length < k) {
+    const box: WuBox = { r0: 0, r1: 0, g0: 0, g1: 0, b0: 0, b1: 0, volume: 0 }
+    if (cut(boxes[next], box)) {
+      boxes.push(box)
+      variances[next] = boxes[next].volume > 1 ? variance(boxes[next]) : 0
+      variances.push(box.volume > 1 ? variance(box) : 0)
+    } else {
+      variances[next] = 0 // Can't be split further
+    }
+
+    next = variances.indexOf(Math.max(...variances))
+    if (variances[next] <= 0) break
+  }
+
+  // Tag histogram cells with their box, then label colors by cell
+  const tags = new Int32Array(size)
+  boxes.forEach((box, index) => {
+    for (let r = box.r0 + 1; r <= box.r1; r++) {
+      for (let g = box.g0 + 1; g <= box.g1; g++) {
+        for (let b = box.b0 + 1; b <= box.b1; b++) {
+          tags[at(r, g, b)] = index
+        }
+      }
+    }
+  })
+
+  const clusters: number[][] = boxes.map(() => [])
+  colors.forEach((color, i) => clusters[tags[cellOf(color)]].push(i))
+  return collectClusters(colors, clusters.filter(cluster => cluster.length > 0))
+}
+
+/**
+ * Mean color per cluster of color indices, with per-color labels
+ */
+function collectClusters(colors: RGBColor[], clusters: number[][]): KMeansResult {
+  const labels = new Array<number>(colors.length)
+  const centroids = clusters.map((cluster, label) => {
+    let r = 0
+    let g = 0
+    let b = 0
+    for (const index of cluster) {
+      r += colors[index].r
+      g += colors[index].g
+      b += colors[index].b
+      labels[index] = label
+    }
+    return {
+      r: Math.round(r / cluster.length),
+      g: Math.round(g / cluster.length),
+      b: Math.round(b / cluster.length)
+    }
+  })
+  return { centroids, labels, iterations: 0 }
+}
+
 /**
  * Extract unique colors from image data with optional sampling
+ * With a random source, each sample is taken at a random pixel within its stride (stratified),
+ * which avoids aliasing with regular textures; without one, the first pixel of each stride.
  */
 export function extractColorsFromImageData(
   imageData: ImageData,
-  maxSamples?: number
+  maxSamples?: number,
+  random?: RandomSource
 ): RGBColor[] {
   const colors: RGBColor[] = []
   const data = imageData.data
+  const pixelCount = data.length / 4
   
   // Sample pixels to limit processing time for large images
-  const step = maxSamples ? Math.max(1, Math.floor(data.length / 4 / maxSamples)) : 1
+  const step = maxSamples ? Math.max(1, Math.floor(pixelCount / maxSamples)) : 1
   
-  for (let i = 0; i < data.length; i += 4 * step) {
+  for (let start = 0; start < pixelCount; start += step) {
+    const pixel = random && step > 1 ? Math.min(pixelCount - 1, start + Math.floor(random() * step)) : start
     colors.push({
-      r: data[i],
-      g: data[i + 1],
-      b: data[i + 2]
+      r: data[pixel * 4],
+      g: data[pixel * 4 + 1],
+      b: data[pixel * 4 + 2]
     })
   }
   
@@ -1,5 +1,8 @@
 // DMC Color Database and Color Matching Utilities
 
+// Drill surface finish; plain drills are 'standard' (or have no finish set)
+export type DrillFinish = 'standard' | 'ab' | 'fluorescent' | 'glow' | 'metallic'
+
 export interface DMCColor {
   code: string
   name: string
@@ -7,6 +10,8 @@ export interface DMCColor {
   g: number
   b: number
   hex: string
+  finish?: DrillFinish
+  baseCode?: string // Standard drill code a specialty variant is derived from
 }
 
 // DMC Color Database parsed from DMC_to_RGB.md
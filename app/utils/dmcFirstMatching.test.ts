@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest'
+import { deltaE2000 } from './colorMatching'
+import { DMC_COLORS, type DMCColor } from './dmcColors'
+import { getCatalogColorLab, getDrillCatalog } from './drillCatalogs'
+import { calculateBeadConfig, type PixelizationConfig } from './imagePixelization'
+import {
+  analyzeColorUsage,
+  assignWithInventoryLimits,
+  cleanupIsolatedBeads,
+  collectInventoryQuantities,
+  generateFullDMCPattern,
+  optimizeColorsToTarget,
+  reduceColorsByQuantization,
+  type ColorUsageAnalysis,
+  type FullMatchedPixel,
+  type PatternGenerationPhase
+} from './dmcFirstMatching'
+
+const RED: DMCColor = { code: '321', name: 'Red', hex: '#C72B3B', r: 199, g: 43, b: 59 }
+const GREEN: DMCColor = { code: '700', name: 'Green Bright', hex: '#07733F', r: 7, g: 115, b: 63 }
+const BLUE: DMCColor = { code: '820', name: 'Royal Blue', hex: '#0E3691', r: 14, g: 54, b: 145 }
+
+const COLORS: Record<string, DMCColor> = { R: RED, G: GREEN, B: BLUE }
+
+// One bead per character, matched exactly to its own color
+function createPixels(rows: string[]): FullMatchedPixel[] {
+  const pixels: FullMatchedPixel[] = []
+  rows.forEach((row, y) => {
+    row.split('').forEach((char, x) => {
+      const color = COLORS[char]
+      const source = { r: color.r, g: color.g, b: color.b, a: 255 }
+      pixels.push({ x, y, color: source, averageColor: source, matchedDMCColor: color, matchingDistance: 0 })
+    })
+  })
+  return pixels
+}
+
+function createConfig(rows: string[]): PixelizationConfig {
+  return {
+    targetWidth: rows[0].length,
+    targetHeight: rows.length,
+    beadGridWidth: rows[0].length,
+    beadGridHeight: rows.length,
+    beadConfig: calculateBeadConfig('square')
+  }
+}
+
+function toRows(pixels: FullMatchedPixel[]): string[] {
+  const rows: string[] = []
+  pixels.forEach(pixel => {
+    const char = Object.keys(COLORS).find(key => COLORS[key].code === pixel.matchedDMCColor.code)!
+    rows[pixel.y] = (rows[pixel.y] || '') + char
+  })
+  return rows
+}
+
+// Usage analysis of catalog colors with the given percentages
+function createAnalyses(colors: DMCColor[], percentages: number[]): ColorUsageAnalysis[] {
+  return colors.map((dmcColor, i) => ({
+    dmcColor,
+    pixelCount: percentages[i] * 10,
+    percentage: percentages[i],
+    importance: percentages[i] / 100,
+    averageDistance: 0,
+    canMerge: true
+  }))
+}
+
+// Usage-weighted ΔE2000 from every used color to its nearest palette color
+function paletteCost(analyses: ColorUsageAnalysis[], palette: DMCColor[]): number {
+  return analyses.reduce((sum, analysis) => {
+    const lab = getCatalogColorLab(analysis.dmcColor)
+    const nearest = Math.min(...palette.map(color => deltaE2000(lab, getCatalogColorLab(color))))
+    return sum + analysis.percentage * nearest
+  }, 0)
+}
+
+describe('cleanupIsolatedBeads', () => {
+  it('merges a lone bead into the surrounding color and reports the added error', () => {
+    const rows = ['RRRRR', 'RRBRR', 'RRRRR']
+    const { pixels, report } = cleanupIsolatedBeads(createPixels(rows), createConfig(rows), 2)
+
+    expect(toRows(pixels)).toEqual(['RRRRR', 'RRRRR', 'RRRRR'])
+    expect(report.regionsMerged).toBe(1)
+    expect(report.changedBeads).toBe(1)
+    expect(report.addedError).toBeGreaterThan(0)
+    expect(report.averageAddedError).toBe(report.addedError)
+  })
+
+  it('keeps regions of at least the minimum size', () => {
+    const rows = ['RRRRR', 'RBBRR', 'RRRRR']
+    const input = createPixels(rows)
+    const { pixels, report } = cleanupIsolatedBeads(input, createConfig(rows), 2)
+
+    expect(pixels).toEqual(input)
+    expect(report.regionsMerged).toBe(0)
+    expect(report.changedBeads).toBe(0)
+  })
+
+  it('picks the neighbour color closest to the beads’ source colors', () => {
+    const rows = ['RRGGG', 'RRBGG', 'RRGGG']
+    const input = createPixels(rows)
+    // The lone blue bead was a greenish source pixel: green adds less error than red
+    const lone = input[7]
+    input[7] = { ...lone, averageColor: { r: 20, g: 100, b: 90, a: 255 } }
+    const { pixels } = cleanupIsolatedBeads(input, createConfig(rows), 2)
+
+    expect(toRows(pixels)).toEqual(['RRGGG', 'RRGGG', 'RRGGG'])
+  })
+})
+
+describe('collectInventoryQuantities', () => {
+  it('keys quantities by the resolved drill code and merges spellings of the same drill', () => {
+    const { palette, quantities } = collectInventoryQuantities(getDrillCatalog(), [
+      { code: '310ab', quantity: 500 },
+      { code: '310AB', quantity: 100 },
+      { code: '310', quantity: 50 },
+      { code: 'not-a-drill', quantity: 10 },
+      { code: '817', quantity: 0 }
+    ])
+
+    expect(palette.map(color => color.code)).toEqual(['310AB', '310'])
+    expect(Array.from(quantities.entries())).toEqual([['310AB', 600], ['310', 50]])
+  })
+})
+
+describe('assignWithInventoryLimits', () => {
+  it('moves beads to the next-best color once the nearest one runs out', () => {
+    const pixels = createPixels(['RRRR'])
+    const quantities = new Map([[RED.code, 3], [GREEN.code, 10]])
+    const { pixels: assigned, report } = assignWithInventoryLimits(pixels, [RED, GREEN], quantities)
+
+    expect(toRows(assigned)[0].split('').sort().join('')).toBe('GRRR')
+    expect(report.substitutedBeads).toBe(1)
+    expect(report.shortfall).toEqual([])
+    expect(report.totalOwned).toBe(13)
+  })
+
+  it('keeps the nearest color and reports the shortfall when the whole inventory runs out', () => {
+    const pixels = createPixels(['RRR'])
+    const { pixels: assigned, report } = assignWithInventoryLimits(pixels, [RED], new Map([[RED.code, 2]]))
+
+    expect(toRows(assigned)).toEqual(['RRR'])
+    expect(report.substitutedBeads).toBe(0)
+    expect(report.shortfall).toEqual([{ dmcColor: RED, owned: 2, required: 3, shortfall: 1 }])
+  })
+
+  it('counts owned drills entered with a lowercase finish suffix', () => {
+    const { palette, quantities } = collectInventoryQuantities(getDrillCatalog(), [
+      { code: '310ab', quantity: 5 },
+      { code: '321', quantity: 5 }
+    ])
+    const ab = palette[0]
+    const source = { r: ab.r, g: ab.g, b: ab.b, a: 255 }
+    const pixels: FullMatchedPixel[] = [0, 1, 2].map(x => ({
+      x, y: 0, color: source, averageColor: source, matchedDMCColor: ab, matchingDistance: 0
+    }))
+    const { pixels: assigned, report } = assignWithInventoryLimits(pixels, palette, quantities)
+
+    expect(assigned.every(pixel => pixel.matchedDMCColor.code === '310AB')).toBe(true)
+    expect(report.substitutedBeads).toBe(0)
+    expect(report.shortfall).toEqual([])
+  })
+})
+
+describe('optimizeColorsToTarget', () => {
+  // Every 15th DMC color: a small catalog spread over the whole gamut
+  const catalog = DMC_COLORS.filter((_, i) => i % 15 === 0)
+  const analyses = createAnalyses(catalog.slice(0, 10), [30, 20, 12, 10, 8, 6, 5, 4, 3, 2])
+
+  it('finds the lowest-cost palette of a brute-force search', () => {
+    const { reducedPalette, passes } = optimizeColorsToTarget(analyses, 3, catalog)
+
+    let bestCost = Infinity
+    for (let a = 0; a < catalog.length; a++) {
+      for (let b = a + 1; b < catalog.length; b++) {
+        for (let c = b + 1; c < catalog.length; c++) {
+          bestCost = Math.min(bestCost, paletteCost(analyses, [catalog[a], catalog[b], catalog[c]]))
+        }
+      }
+    }
+
+    expect(reducedPalette).toHaveLength(3)
+    expect(paletteCost(analyses, reducedPalette)).toBeCloseTo(bestCost, 6)
+    expect(passes).toBeLessThanOrEqual(4)
+  })
+
+  it('keeps protected colors in the palette', () => {
+    const withProtected = analyses.map((analysis, i) => (i === 9 ? { ...analysis, isProtected: true } : analysis))
+    const { reducedPalette } = optimizeColorsToTarget(withProtected, 3, catalog)
+
+    expect(reducedPalette).toContain(analyses[9].dmcColor)
+    expect(reducedPalette).toHaveLength(3)
+  })
+})
+
+describe('reduceColorsByQuantization', () => {
+  // 30×30 red/green halves with a compact 2×2 blue spot (0.44% of the beads)
+  const rows = Array.from({ length: 30 }, (_, y) =>
+    Array.from({ length: 30 }, (_, x) => (x >= 10 && x < 12 && y >= 10 && y < 12 ? 'B' : x < 15 ? 'R' : 'G')).join('')
+  )
+  const pixels = createPixels(rows)
+
+  it('protects rare distinct colors like the other reducers and reports them', () => {
+    const { reducedPalette, strategy, protectedColors } = reduceColorsByQuantization(
+      analyzeColorUsage(pixels), pixels, 2, 'wu', [RED, GREEN, BLUE]
+    )
+
+    expect(protectedColors.map(report => report.dmcColor)).toEqual([BLUE])
+    expect(reducedPalette).toContain(BLUE)
+    expect(reducedPalette).toHaveLength(2)
+    expect(strategy).toMatch(/^Protected 1 rare distinct colors\./)
+  })
+
+  it('benchmarks every quantizer with a finite error', () => {
+    const { benchmark } = reduceColorsByQuantization(analyzeColorUsage(pixels), pixels, 3, 'median-cut', [RED, GREEN, BLUE])
+
+    expect(benchmark.map(entry => entry.method)).toEqual(['kmeans', 'median-cut', 'octree', 'wu'])
+    expect(benchmark.filter(entry => entry.selected).map(entry => entry.method)).toEqual(['median-cut'])
+    benchmark.forEach(entry => expect(entry.meanDeltaE).toBeCloseTo(0, 6))
+  })
+
+  it('reports zero error instead of NaN without beads', () => {
+    const { reducedPalette, benchmark } = reduceColorsByQuantization([], [], 5)
+
+    expect(reducedPalette).toEqual([])
+    benchmark.forEach(entry => expect(entry.meanDeltaE).toBe(0))
+  })
+})
+
+describe('generateFullDMCPattern', () => {
+  // Every bead a different catalog color, one source pixel per bead
+  function createImage(width: number, height: number): { imageData: ImageData, config: PixelizationConfig } {
+    const data = new Uint8ClampedArray(width * height * 4)
+    for (let i = 0; i < width * height; i++) {
+      const color = DMC_COLORS[(i * 7) % DMC_COLORS.length]
+      data.set([color.r, color.g, color.b, 255], i * 4)
+    }
+    const rows = Array.from({ length: height }, () => 'R'.repeat(width))
+    return { imageData: { width, height, data, colorSpace: 'srgb' } as ImageData, config: createConfig(rows) }
+  }
+
+  it('stops at the next phase once its signal aborts', async () => {
+    const { imageData, config } = createImage(8, 8)
+    const controller = new AbortController()
+    const phases: PatternGenerationPhase[] = []
+    const run = generateFullDMCPattern(imageData, config, 4, 'standard', undefined, {
+      seed: 1,
+      signal: controller.signal,
+      onProgress: progress => {
+        if (!phases.includes(progress.phase)) phases.push(progress.phase)
+        if (progress.phase === 'analyzing') controller.abort()
+      }
+    })
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' })
+    expect(phases).toEqual(['matching', 'analyzing'])
+  })
+})
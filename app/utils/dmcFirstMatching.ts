@@ -1,26 +1,53 @@
 // DMC-First Matching Algorithm for Cross Stitch Pattern Generation
 // New Architecture: Image Analysis → DMC Selection → Constrained Pixelization
 
-import { DMC_COLORS, DMC_COLOR_MAP, type DMCColor } from './dmcColors'
+import { DMC_COLORS, type DMCColor } from './dmcColors'
 import {
   type RGBColor,
   type LABColor,
   rgbToLab,
   deltaE2000,
   extractColorsFromImageData,
-  kMeansColorQuantization
+  quantizeColors,
+  createNearestColorIndex,
+  type ColorQuantizerMethod,
+  type NearestColorIndex
 } from './colorMatching'
-import { type PixelizationConfig, type BeadPixel, type PixelData } from './imagePixelization'
+import {
+  type PixelizationConfig,
+  type BeadPixel,
+  type PixelData,
+  type TransparencyMode,
+  isCellInShape,
+  estimateCellColor,
+  calculateCellCoverage,
+  compositeOverBackground,
+  hasTransparency,
+  maskTransparentCells
+} from './imagePixelization'
+import { getCatalogColorLab, getDrillCatalog, type DrillCatalog } from './drillCatalogs'
+import { type DrillInventoryItem } from './drillInventory'
+import { isSpecialtyDrill, resolveDrillCode, getABVariant } from './drillFinishes'
+import {
+  computeSaliencyMap,
+  calculateCellSaliencyWeights,
+  getSaliencyAt,
+  saliencyToWeight,
+  type SaliencyMap,
+  type SaliencyOptions
+} from './saliencyMap'
+import {
+  DETAIL_KEEP,
+  DETAIL_SIMPLIFY,
+  calculateCellDetailPriority,
+  hasDetailMask,
+  type DetailPriorityOptions,
+  type DetailPriorityReport
+} from './detailMask'
+import { createSeededRandom, generatePatternSeed, type RandomSource } from './seededRandom'
 
 // Pre-calculate LAB values for all DMC colors for performance
-const DMC_LAB_CACHE = new Map<string, LABColor>()
-DMC_COLORS.forEach(color => {
-  DMC_LAB_CACHE.set(color.code, rgbToLab({
-    r: color.r,
-    g: color.g, 
-    b: color.b
-  }))
-})
+DMC_COLORS.forEach(color => getCatalogColorLab(color))
 
 export interface DMCFirstMatch {
   dmcColor: DMCColor
@@ -47,11 +74,15 @@ export interface ConstrainedPixel extends BeadPixel {
 /**
  * PHASE 1: Analyze entire image and select optimal DMC colors
  * This replaces the old pixelization-first approach
+ * 👁️ With saliency, k-means samples salient areas more densely so the subject gets more clusters
  */
 export async function analyzeImageForDMCSelection(
   imageData: ImageData,
   targetColorCount: number,
-  analysisQuality: 'fast' | 'standard' | 'high' = 'standard'
+  analysisQuality: 'fast' | 'standard' | 'high' = 'standard',
+  saliency?: SaliencyOptions,
+  random: RandomSource = Math.random, // Seeded source makes the palette reproducible
+  quantizer: ColorQuantizerMethod = 'kmeans'
 ): Promise<DMCFirstPalette> {
   
   // CRITICAL DEBUG: Track DMC-First algorithm process
@@ -70,8 +101,10 @@ export async function analyzeImageForDMCSelection(
   
   // 1. Comprehensive image analysis with adaptive sampling
   const sampleSize = getSampleSizeForQuality(analysisQuality, imageData)
-  const imageColors = extractColorsFromImageData(imageData, sampleSize)
-  console.log(`📊 Sample size: ${sampleSize}, extracted colors: ${imageColors.length}`)
+  const imageColors = saliency && saliency.strength > 0
+    ? extractSaliencyWeightedColors(imageData, sampleSize, computeSaliencyMap(imageData), saliency.strength)
+    : extractColorsFromImageData(imageData, sampleSize, random)
+  console.log(`📊 Sample size: ${sampleSize}, extracted colors: ${imageColors.length}${saliency?.strength ? ' (saliency-weighted)' : ''}`)
   
   if (imageColors.length === 0) {
     throw new Error('No colors found in image')
@@ -81,8 +114,8 @@ export async function analyzeImageForDMCSelection(
   const clusterCount = calculateOptimalClusters(imageColors.length, actualTargetCount)
   console.log(`🎯 K-means clusters to generate: ${clusterCount} (${clusterCount / actualTargetCount}x target)`)
   
-  const kmeansResult = kMeansColorQuantization(imageColors, clusterCount)
-  console.log(`✅ K-means completed: ${kmeansResult.centroids.length} centroids after ${kmeansResult.iterations} iterations`)
+  const kmeansResult = quantizeColors(imageColors, clusterCount, quantizer, random)
+  console.log(`✅ Quantization (${quantizer}) completed: ${kmeansResult.centroids.length} centroids after ${kmeansResult.iterations} iterations`)
   
   // 3. Calculate color importance and representativeness
   const colorAnalysis = analyzeColorImportance(imageColors, kmeansResult)
@@ -128,11 +161,13 @@ export function pixelizeWithConstrainedDMCColors(
   // Pre-calculate LAB values for selected DMC colors
   const selectedDMCLabs = dmcPalette.selectedColors.map(dmc => ({
     dmc,
-    lab: DMC_LAB_CACHE.get(dmc.code)!
+    lab: getCatalogColorLab(dmc)
   }))
   
   for (let beadY = 0; beadY < config.beadGridHeight; beadY++) {
     for (let beadX = 0; beadX < config.beadGridWidth; beadX++) {
+      if (!isCellInShape(config, beadX, beadY)) continue // Empty cell outside the canvas shape
+      
       // Calculate source pixel region for this bead
       const startX = Math.floor(beadX * scaleX)
       const startY = Math.floor(beadY * scaleY)
@@ -140,7 +175,7 @@ export function pixelizeWithConstrainedDMCColors(
       const endY = Math.floor((beadY + 1) * scaleY)
       
       // Calculate average color for this bead region
-      const averageColor = calculateRegionAverageColor(imageData, startX, startY, endX, endY)
+      const averageColor = estimateCellColor(imageData, startX, startY, endX, endY, config.colorEstimator)
       const centerColor = getPixelColorAt(imageData, 
         Math.floor((startX + endX) / 2), 
         Math.floor((startY + endY) / 2)
@@ -181,6 +216,43 @@ function getSampleSizeForQuality(quality: 'fast' | 'standard' | 'high', imageDat
   }
 }
 
+/**
+ * Systematic sampling over cumulative saliency weight: salient pixels are picked more often,
+ * so they take up a larger share of the k-means input
+ */
+function extractSaliencyWeightedColors(
+  imageData: ImageData,
+  maxSamples: number,
+  saliencyMap: SaliencyMap,
+  strength: number
+): RGBColor[] {
+  const { width, height, data } = imageData
+  const weights = new Float32Array(width * height)
+  let totalWeight = 0
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const weight = saliencyToWeight(getSaliencyAt(saliencyMap, x, y, width, height), strength)
+      weights[y * width + x] = weight
+      totalWeight += weight
+    }
+  }
+  
+  const step = totalWeight / Math.max(1, Math.min(maxSamples, width * height))
+  const colors: RGBColor[] = []
+  let accumulated = step / 2
+  
+  for (let i = 0; i < weights.length; i++) {
+    accumulated += weights[i]
+    while (accumulated >= step) {
+      accumulated -= step
+      colors.push({ r: data[i * 4], g: data[i * 4 + 1], b: data[i * 4 + 2] })
+    }
+  }
+  
+  return colors
+}
+
 /**
  * Calculate optimal number of clusters for K-means
  * CRITICAL FIX: Increased diversity to support high color counts
@@ -346,7 +418,7 @@ function findBestDMCMatchExcluding(
   for (const dmcColor of DMC_COLORS) {
     if (usedCodes.has(dmcColor.code)) continue
     
-    const dmcLab = DMC_LAB_CACHE.get(dmcColor.code)!
+    const dmcLab = getCatalogColorLab(dmcColor)
     const distance = deltaE2000(targetLab, dmcLab)
     
     if (!bestMatch || distance < bestMatch.distance) {
@@ -371,12 +443,12 @@ function findMostDiverseDMCColor(
   let maxMinDistance = 0
   
   for (const candidate of available) {
-    const candidateLab = DMC_LAB_CACHE.get(candidate.code)!
+    const candidateLab = getCatalogColorLab(candidate)
     
     // Find minimum distance to any already selected color
     let minDistance = Infinity
     for (const selected of alreadySelected) {
-      const selectedLab = DMC_LAB_CACHE.get(selected.code)!
+      const selectedLab = getCatalogColorLab(selected)
       const distance = deltaE2000(candidateLab, selectedLab)
       minDistance = Math.min(minDistance, distance)
     }
@@ -416,42 +488,6 @@ function getSelectionStrategy(quality: 'fast' | 'standard' | 'high', targetCount
   return `${strategies[quality]} (${targetCount} colors)`
 }
 
-/**
- * Calculate average color for a pixel region
- */
-function calculateRegionAverageColor(
-  imageData: ImageData,
-  startX: number,
-  startY: number,
-  endX: number,
-  endY: number
-): PixelData {
-  let totalR = 0, totalG = 0, totalB = 0, totalA = 0
-  let pixelCount = 0
-  
-  for (let y = startY; y < endY && y < imageData.height; y++) {
-    for (let x = startX; x < endX && x < imageData.width; x++) {
-      const index = (y * imageData.width + x) * 4
-      totalR += imageData.data[index]
-      totalG += imageData.data[index + 1]
-      totalB += imageData.data[index + 2]
-      totalA += imageData.data[index + 3]
-      pixelCount++
-    }
-  }
-  
-  if (pixelCount === 0) {
-    return { r: 0, g: 0, b: 0, a: 255 }
-  }
-  
-  return {
-    r: Math.round(totalR / pixelCount),
-    g: Math.round(totalG / pixelCount),
-    b: Math.round(totalB / pixelCount),
-    a: Math.round(totalA / pixelCount)
-  }
-}
-
 /**
  * Get pixel color at specific coordinates
  */
@@ -465,6 +501,23 @@ function getPixelColorAt(imageData: ImageData, x: number, y: number): PixelData
   }
 }
 
+// ΔE2000 nearest-color indexes, built once per palette/catalog list (and accept rule) and reused for every bead
+const paletteIndexes = new WeakMap<Array<{ dmc: DMCColor, lab: LABColor }>, Map<number, NearestColorIndex>>()
+
+function getPaletteIndex(dmcLabs: Array<{ dmc: DMCColor, lab: LABColor }>, acceptBelow: number): NearestColorIndex {
+  let indexes = paletteIndexes.get(dmcLabs)
+  if (!indexes) {
+    indexes = new Map()
+    paletteIndexes.set(dmcLabs, indexes)
+  }
+  let index = indexes.get(acceptBelow)
+  if (!index) {
+    index = createNearestColorIndex(dmcLabs.map(entry => entry.lab), acceptBelow)
+    indexes.set(acceptBelow, index)
+  }
+  return index
+}
+
 /**
  * Find closest DMC color from pre-selected palette
  */
@@ -472,19 +525,8 @@ function findClosestDMCFromPalette(
   targetColor: PixelData,
   dmcLabs: Array<{ dmc: DMCColor, lab: LABColor }>
 ): { dmcColor: DMCColor, distance: number } {
-  const targetLab = rgbToLab(targetColor)
-  let bestMatch = dmcLabs[0]
-  let bestDistance = deltaE2000(targetLab, bestMatch.lab)
-  
-  for (let i = 1; i < dmcLabs.length; i++) {
-    const distance = deltaE2000(targetLab, dmcLabs[i].lab)
-    if (distance < bestDistance) {
-      bestDistance = distance
-      bestMatch = dmcLabs[i]
-    }
-  }
-  
-  return { dmcColor: bestMatch.dmc, distance: bestDistance }
+  const { index, distance } = getPaletteIndex(dmcLabs, 0).findNearest(rgbToLab(targetColor))
+  return { dmcColor: dmcLabs[index].dmc, distance }
 }
 
 /**
@@ -493,7 +535,8 @@ function findClosestDMCFromPalette(
 function pixelizeWithCustomDMCPalette(
   imageData: ImageData,
   config: PixelizationConfig,
-  customPalette: DMCColor[]
+  customPalette: DMCColor[],
+  onRowDone?: (fraction: number) => void
 ): FullMatchedPixel[] {
   const pixels: FullMatchedPixel[] = []
   const scaleX = imageData.width / config.beadGridWidth
@@ -502,11 +545,13 @@ function pixelizeWithCustomDMCPalette(
   // Pre-calculate LAB values for custom palette
   const customPaletteLabs = customPalette.map(dmc => ({
     dmc,
-    lab: DMC_LAB_CACHE.get(dmc.code)!
+    lab: getCatalogColorLab(dmc)
   }))
   
   for (let beadY = 0; beadY < config.beadGridHeight; beadY++) {
     for (let beadX = 0; beadX < config.beadGridWidth; beadX++) {
+      if (!isCellInShape(config, beadX, beadY)) continue // Empty cell outside the canvas shape
+      
       // Calculate source pixel region for this bead
       const startX = Math.floor(beadX * scaleX)
       const startY = Math.floor(beadY * scaleY)
@@ -514,7 +559,7 @@ function pixelizeWithCustomDMCPalette(
       const endY = Math.floor((beadY + 1) * scaleY)
       
       // Calculate average color for this bead region
-      const averageColor = calculateRegionAverageColor(imageData, startX, startY, endX, endY)
+      const averageColor = estimateCellColor(imageData, startX, startY, endX, endY, config.colorEstimator)
       const centerColor = getPixelColorAt(imageData, 
         Math.floor((startX + endX) / 2), 
         Math.floor((startY + endY) / 2)
@@ -532,6 +577,7 @@ function pixelizeWithCustomDMCPalette(
         matchingDistance: distance
       })
     }
+    onRowDone?.((beadY + 1) / config.beadGridHeight)
   }
   
   return pixels
@@ -559,12 +605,14 @@ export interface ColorUsageAnalysis {
   importance: number // 0-1, based on usage and visual impact
   averageDistance: number // Average matching distance
   canMerge: boolean // Can be merged with similar colors
+  isProtected?: boolean // Must survive reduction (keep-detail brush or rare distinct color)
 }
 
 /**
  * NEW: Enhanced pattern with full DMC matching capabilities
  */
 export interface FullDMCPattern {
+  catalogId: string // Drill catalog the palette was drawn from
   fullMatchedPixels: FullMatchedPixel[]
   colorUsage: ColorUsageAnalysis[]
   reducedPalette: DMCColor[]
@@ -577,29 +625,181 @@ export interface FullDMCPattern {
     qualityScore: number // 0-1, higher = better color accuracy
     reductionStrategy: string
     averageMatchingDistance: number // 🎯 NEW: Average color matching distance
+    confettiCleanup?: ConfettiCleanupReport
+    inventory?: InventoryUsageReport
+    abHighlights?: ABHighlightReport
+    transparency?: TransparencyReport
+    detailPriority?: DetailPriorityReport
+    protectedColors?: ProtectedColorReport[]
+    paletteOptimization?: PaletteOptimizationReport
+    seed?: number // Generation seed; same seed + settings reproduce this exact pattern
+    quantizerBenchmark?: QuantizerBenchmark[]
   }
 }
 
+/**
+ * How the full-color palette was reduced to the target count
+ * - 'heuristic': usage filtering + similar-color merging (reduceColorsToTarget)
+ * - 'optimized': k-medoids over catalog colors minimizing total weighted ΔE (optimizeColorsToTarget)
+ * - 'quantized': cluster the bead colors, then match each cluster to a drill (reduceColorsByQuantization)
+ */
+export type PaletteReducer = 'heuristic' | 'optimized' | 'quantized'
+
+export interface QuantizerBenchmark {
+  method: ColorQuantizerMethod
+  timeMs: number
+  meanDeltaE: number // Mean ΔE2000 from each bead color to the nearest drill of the resulting palette
+  colorCount: number // Distinct drills after matching cluster centers to the catalog
+  selected: boolean // This quantizer's palette was used
+}
+
+export interface PaletteOptimizationReport {
+  method: PaletteReducer
+  qualityBefore: number // qualityScore with the whole catalog available (same formula as FullDMCPattern.qualityScore)
+  qualityAfter: number // Same formula once every bead uses the reduced palette
+  averageDistanceAfter: number // Mean ΔE2000 between beads and their final drill
+  passes?: number // Swap-search passes (optimized only)
+  swaps?: number // Improving swaps applied (optimized only)
+}
+
+/**
+ * A rare color kept during reduction because it is distinct and forms a region
+ * (eye catchlights, jewelry, small red lips)
+ */
+export interface ProtectedColorReport {
+  dmcColor: DMCColor
+  percentage: number
+  nearestDistance: number // ΔE2000 to the closest color that was kept anyway
+  clusteredRatio: number // 0-1, share of its beads touching another bead of the same color
+  reason: string
+}
+
+/**
+ * Dithering modes for mapping beads onto the final palette
+ */
+export type DitheringMode = 'none' | 'floyd-steinberg' | 'atkinson' | 'ordered'
+
+export interface DitheringOptions {
+  mode: DitheringMode
+  strength: number // 0-1, fraction of quantization error (or threshold spread) applied
+}
+
+/**
+ * Isolated-bead ("confetti") cleanup settings
+ */
+export interface ConfettiCleanupOptions {
+  minRegionSize: number // Connected regions smaller than this are merged into a neighbour color
+}
+
+export interface ConfettiCleanupReport {
+  minRegionSize: number
+  regionsMerged: number
+  changedBeads: number
+  addedError: number // Total deltaE2000 added across all changed beads
+  averageAddedError: number // Per changed bead
+}
+
+/**
+ * Inventory-only generation report
+ */
+export interface InventoryShortfall {
+  dmcColor: DMCColor
+  owned: number
+  required: number
+  shortfall: number
+}
+
+export interface InventoryUsageReport {
+  totalOwned: number
+  substitutedBeads: number // Beads moved off their nearest color because it ran out
+  shortfall: InventoryShortfall[] // Colors that still need more drills than owned
+}
+
+/**
+ * AB (aurora borealis) highlight placement settings
+ */
+export interface ABHighlightOptions {
+  percent: number // Brightest N% of beads in each color switch to the AB variant
+}
+
+export interface ABHighlightReport {
+  percent: number
+  beadsPlaced: number
+  colorsAffected: number
+}
+
+/**
+ * Transparent PNG handling
+ */
+export interface TransparencyOptions {
+  mode: TransparencyMode
+  backgroundCode?: string // 'background' mode: drill code used for transparent cells
+  alphaThreshold?: number // Cells with mean alpha (0-255) below this count as transparent (default 128)
+}
+
+export interface TransparencyReport {
+  mode: TransparencyMode
+  transparentCells: number
+  backgroundColor?: DMCColor
+}
+
+/**
+ * Pipeline phase reported while a pattern is generated
+ */
+export type PatternGenerationPhase = 'matching' | 'analyzing' | 'reducing' | 'remapping' | 'cleanup' | 'highlights'
+
+export interface PatternGenerationProgress {
+  phase: PatternGenerationPhase
+  fraction?: number // 0-1 within the phase; only bead matching reports it
+}
+
+/**
+ * Optional generation settings for generateFullDMCPattern
+ */
+export interface FullDMCGenerationOptions {
+  catalogId?: string // Drill brand to generate against (default: DMC)
+  inventory?: DrillInventoryItem[] // Inventory-only mode: use owned colors within their quantities
+  customDrills?: DMCColor[] // User-defined drills (e.g. imported palette swatches) usable by code in custom-color mode
+  dithering?: DitheringOptions
+  confettiCleanup?: ConfettiCleanupOptions
+  abHighlights?: ABHighlightOptions
+  transparency?: TransparencyOptions
+  saliency?: SaliencyOptions // Full color mode: weight color usage by subject saliency during reduction
+  detailPriority?: DetailPriorityOptions // Full color mode: painted "keep detail" / "simplify" regions
+  paletteReducer?: PaletteReducer // Full color mode: default 'heuristic'
+  quantizer?: ColorQuantizerMethod // Palette reducer 'quantized': default 'wu'
+  seed?: number // Seed for every random step (createSeededRandom); a new one is generated and recorded when omitted
+  onProgress?: (progress: PatternGenerationProgress) => void // Called as each phase starts and after every matched bead row
+  signal?: AbortSignal // Checked as each phase after matching starts; aborting rejects with an AbortError
+}
+
 /**
  * PHASE 1: Pixelize with full 454 DMC colors (HIGHEST QUALITY)
  */
 export function pixelizeWithFullDMCMatching(
   imageData: ImageData,
-  config: PixelizationConfig
+  config: PixelizationConfig,
+  catalogColors: DMCColor[] = DMC_COLORS,
+  onRowDone?: (fraction: number) => void
 ): FullMatchedPixel[] {
   
   const pixels: FullMatchedPixel[] = []
   const scaleX = imageData.width / config.beadGridWidth
   const scaleY = imageData.height / config.beadGridHeight
   
-  // Pre-calculated LAB values for ALL 454 DMC colors (already cached)
-  const allDMCLabs = DMC_COLORS.map(dmc => ({
+  // Pre-calculated LAB values for ALL catalog colors (already cached)
+  const allDMCLabs = catalogColors.map(dmc => ({
     dmc,
-    lab: DMC_LAB_CACHE.get(dmc.code)!
+    lab: getCatalogColorLab(dmc)
   }))
   
+  // Flat areas repeat the same bead color (whole RGB values); match each color once
+  const matchCache = new Map<number, { dmcColor: DMCColor, distance: number }>()
+  
   for (let beadY = 0; beadY < config.beadGridHeight; beadY++) {
     for (let beadX = 0; beadX < config.beadGridWidth; beadX++) {
+      if (!isCellInShape(config, beadX, beadY)) continue // Empty cell outside the canvas shape
+      
       // Calculate source pixel region
       const startX = Math.floor(beadX * scaleX)
       const startY = Math.floor(beadY * scaleY)
@@ -607,14 +807,20 @@ export function pixelizeWithFullDMCMatching(
       const endY = Math.floor((beadY + 1) * scaleY)
       
       // Calculate average color for this bead region
-      const averageColor = calculateRegionAverageColor(imageData, startX, startY, endX, endY)
+      const averageColor = estimateCellColor(imageData, startX, startY, endX, endY, config.colorEstimator)
       const centerColor = getPixelColorAt(imageData, 
         Math.floor((startX + endX) / 2), 
         Math.floor((startY + endY) / 2)
       )
       
       // Find closest DMC color from ALL 454 colors
-      const { dmcColor, distance } = findClosestDMCFromAllColors(averageColor, allDMCLabs)
+      const cacheKey = (averageColor.r << 16) | (averageColor.g << 8) | averageColor.b
+      let match = matchCache.get(cacheKey)
+      if (!match) {
+        match = findClosestDMCFromAllColors(averageColor, allDMCLabs)
+        matchCache.set(cacheKey, match)
+      }
+      const { dmcColor, distance } = match
       
       pixels.push({
         x: beadX,
@@ -625,6 +831,7 @@ export function pixelizeWithFullDMCMatching(
         matchingDistance: distance
       })
     }
+    onRowDone?.((beadY + 1) / config.beadGridHeight)
   }
   
   return pixels
@@ -632,27 +839,36 @@ export function pixelizeWithFullDMCMatching(
 
 /**
  * PHASE 2: Analyze color usage and importance
+ * 👁️ With cell weights (saliency), percentage and importance use weighted usage, so
+ * background colors look rarer and are merged first; pixelCount stays the real bead count.
  */
-export function analyzeColorUsage(pixels: FullMatchedPixel[]): ColorUsageAnalysis[] {
+export function analyzeColorUsage(
+  pixels: FullMatchedPixel[],
+  cellWeights?: { values: Float32Array, gridWidth: number }
+): ColorUsageAnalysis[] {
   
   // Count usage for each color
-  const usageMap = new Map<string, { count: number, distances: number[] }>()
+  const usageMap = new Map<string, { dmcColor: DMCColor, count: number, weight: number, distances: number[] }>()
+  let totalWeight = 0
   
   for (const pixel of pixels) {
     const code = pixel.matchedDMCColor.code
     if (!usageMap.has(code)) {
-      usageMap.set(code, { count: 0, distances: [] })
+      usageMap.set(code, { dmcColor: pixel.matchedDMCColor, count: 0, weight: 0, distances: [] })
     }
+    const weight = cellWeights ? cellWeights.values[pixel.y * cellWeights.gridWidth + pixel.x] : 1
     const usage = usageMap.get(code)!
     usage.count++
+    usage.weight += weight
     usage.distances.push(pixel.matchingDistance)
+    totalWeight += weight
   }
   
   // Calculate analysis for each used color
   const analyses: ColorUsageAnalysis[] = []
-  usageMap.forEach((usage, code) => {
-    const dmcColor = DMC_COLORS.find(c => c.code === code)!
-    const percentage = (usage.count / pixels.length) * 100
+  usageMap.forEach(usage => {
+    const dmcColor = usage.dmcColor
+    const percentage = (usage.weight / totalWeight) * 100
     const averageDistance = usage.distances.reduce((a: number, b: number) => a + b, 0) / usage.distances.length
     
     // Calculate importance (usage frequency + visual impact + matching quality)
@@ -679,24 +895,36 @@ export function analyzeColorUsage(pixels: FullMatchedPixel[]): ColorUsageAnalysi
 
 /**
  * PHASE 3: Reduce colors to target count using intelligent strategies
+ * With the matched pixels, rare colors that are distinct and compact are protected first.
  */
 export function reduceColorsToTarget(
   analyses: ColorUsageAnalysis[], 
-  targetCount: number
-): { reducedPalette: DMCColor[], strategy: string } {
+  targetCount: number,
+  catalogColors: DMCColor[] = DMC_COLORS,
+  pixels?: FullMatchedPixel[]
+): { reducedPalette: DMCColor[], strategy: string, protectedColors: ProtectedColorReport[] } {
   
   if (analyses.length <= targetCount) {
     return {
       reducedPalette: analyses.map(a => a.dmcColor),
-      strategy: `No reduction needed (${analyses.length} colors)`
+      strategy: `No reduction needed (${analyses.length} colors)`,
+      protectedColors: []
     }
   }
   
   let strategy = ''
-  let reducedAnalyses = [...analyses]
+  let reducedAnalyses = analyses.map(a => ({ ...a }))
+  const lowUsageThreshold = 0.5
+  
+  // Strategy 0: Keep rare colors that are far from everything else and form a region
+  const protectedColors = pixels
+    ? protectRareDistinctColors(reducedAnalyses, pixels, targetCount, lowUsageThreshold)
+    : []
+  if (protectedColors.length > 0) {
+    strategy += `Protected ${protectedColors.length} rare distinct colors. `
+  }
   
   // Strategy 1: Remove very low usage colors (< 0.5%)
-  const lowUsageThreshold = 0.5
   const highImportance = reducedAnalyses.filter(a => a.percentage >= lowUsageThreshold || a.importance > 0.7)
   
   if (highImportance.length <= targetCount) {
@@ -722,9 +950,9 @@ export function reduceColorsToTarget(
   if (reducedPalette.length < targetCount) {
     strategy += ` Expanded from ${reducedPalette.length} to ${targetCount} colors. `
     
-    // Add most diverse colors from remaining DMC palette
+    // Add most diverse colors from remaining catalog palette
     const usedCodes = new Set(reducedPalette.map(c => c.code))
-    const remainingColors = DMC_COLORS.filter(c => !usedCodes.has(c.code))
+    const remainingColors = catalogColors.filter(c => !usedCodes.has(c.code))
     
     // Find colors that are most different from existing palette
     while (reducedPalette.length < targetCount && remainingColors.length > 0) {
@@ -732,12 +960,12 @@ export function reduceColorsToTarget(
       let maxMinDistance = 0
       
       for (const candidate of remainingColors) {
-        const candidateLab = DMC_LAB_CACHE.get(candidate.code)!
+        const candidateLab = getCatalogColorLab(candidate)
         let minDistance = Infinity
         
         // Find minimum distance to existing palette
         for (const existing of reducedPalette) {
-          const existingLab = DMC_LAB_CACHE.get(existing.code)!
+          const existingLab = getCatalogColorLab(existing)
           const distance = deltaE2000(candidateLab, existingLab)
           minDistance = Math.min(minDistance, distance)
         }
@@ -768,7 +996,112 @@ export function reduceColorsToTarget(
     }
   }
   
-  return { reducedPalette, strategy }
+  return { reducedPalette, strategy, protectedColors }
+}
+
+// Rare-color protection: minimum ΔE2000 from every kept color, minimum clustering, and a budget cap
+const RARE_COLOR_MIN_DISTANCE = 15
+const RARE_COLOR_MIN_CLUSTERED = 0.5
+const RARE_COLOR_MAX_SHARE = 0.15
+
+/**
+ * Mark rare colors (below lowUsageThreshold %) as protected when they are at least
+ * RARE_COLOR_MIN_DISTANCE from every kept color and most of their beads touch each other.
+ * Protected colors can't be merged and rank above the rest. Mutates and re-sorts analyses.
+ */
+function protectRareDistinctColors(
+  analyses: ColorUsageAnalysis[],
+  pixels: FullMatchedPixel[],
+  targetCount: number,
+  lowUsageThreshold: number
+): ProtectedColorReport[] {
+  const keptLabs = analyses
+    .filter(a => a.percentage >= lowUsageThreshold)
+    .map(a => getCatalogColorLab(a.dmcColor))
+  if (keptLabs.length === 0) return []
+  
+  const clusteredRatios = measureClusteredRatios(pixels)
+  const maxProtected = Math.max(1, Math.floor(targetCount * RARE_COLOR_MAX_SHARE))
+  
+  // Most distinct candidates first
+  const candidates = analyses
+    .filter(a => a.percentage < lowUsageThreshold && a.pixelCount >= 2)
+    .map(analysis => {
+      const lab = getCatalogColorLab(analysis.dmcColor)
+      const nearestDistance = Math.min(...keptLabs.map(kept => deltaE2000(lab, kept)))
+      return { analysis, lab, nearestDistance, clusteredRatio: clusteredRatios.get(analysis.dmcColor.code) ?? 0 }
+    })
+    .filter(c => c.nearestDistance >= RARE_COLOR_MIN_DISTANCE && c.clusteredRatio >= RARE_COLOR_MIN_CLUSTERED)
+    .sort((a, b) => b.nearestDistance - a.nearestDistance)
+  
+  const reports: ProtectedColorReport[] = []
+  for (const candidate of candidates) {
+    if (reports.length >= maxProtected) break
+    
+    // Must also be distinct from colors protected so far
+    const nearestDistance = Math.min(...keptLabs.map(kept => deltaE2000(candidate.lab, kept)))
+    if (nearestDistance < RARE_COLOR_MIN_DISTANCE) continue
+    
+    candidate.analysis.canMerge = false
+    candidate.analysis.isProtected = true
+    candidate.analysis.importance += 1
+    keptLabs.push(candidate.lab)
+    reports.push({
+      dmcColor: candidate.analysis.dmcColor,
+      percentage: candidate.analysis.percentage,
+      nearestDistance,
+      clusteredRatio: candidate.clusteredRatio,
+      reason: `ΔE ${nearestDistance.toFixed(0)} from the nearest kept color, ${Math.round(candidate.clusteredRatio * 100)}% of its ${candidate.analysis.pixelCount} beads clustered`
+    })
+  }
+  
+  analyses.sort((a, b) => b.importance - a.importance)
+  return reports
+}
+
+/**
+ * Per color, the share of beads with at least one same-colored 8-neighbour
+ * (1 = solid regions, 0 = scattered single beads)
+ */
+function measureClusteredRatios(pixels: FullMatchedPixel[]): Map<string, number> {
+  let width = 0
+  let height = 0
+  for (const pixel of pixels) {
+    width = Math.max(width, pixel.x + 1)
+    height = Math.max(height, pixel.y + 1)
+  }
+  
+  const codes: Array<string | undefined> = new Array(width * height)
+  for (const pixel of pixels) {
+    codes[pixel.y * width + pixel.x] = pixel.matchedDMCColor.code
+  }
+  
+  const totals = new Map<string, { beads: number, clustered: number }>()
+  for (const pixel of pixels) {
+    const code = pixel.matchedDMCColor.code
+    let clustered = false
+    for (let dy = -1; dy <= 1 && !clustered; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue
+        const nx = pixel.x + dx
+        const ny = pixel.y + dy
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+        if (codes[ny * width + nx] === code) {
+          clustered = true
+          break
+        }
+      }
+    }
+    
+    const total = totals.get(code) ?? { beads: 0, clustered: 0 }
+    total.beads++
+    if (clustered) total.clustered++
+    totals.set(code, total)
+  }
+  
+  const ratios = new Map<string, number>()
+  totals.forEach((total, code) => ratios.set(code, total.clustered / total.beads))
+  return ratios
 }
 
 /**
@@ -805,8 +1138,8 @@ function mergeSimilarColors(analyses: ColorUsageAnalysis[], targetCount: number)
         if (!result[j].canMerge) continue
         comparisons++
         
-        const color1Lab = DMC_LAB_CACHE.get(result[i].dmcColor.code)!
-        const color2Lab = DMC_LAB_CACHE.get(result[j].dmcColor.code)!
+        const color1Lab = getCatalogColorLab(result[i].dmcColor)
+        const color2Lab = getCatalogColorLab(result[j].dmcColor)
         const distance = deltaE2000(color1Lab, color2Lab)
         
         if (distance <= mergeThreshold && (!bestPair || distance < bestPair.distance)) {
@@ -841,158 +1174,976 @@ function mergeSimilarColors(analyses: ColorUsageAnalysis[], targetCount: number)
   return result
 }
 
+// k-medoids swap search stops after this many passes even if swaps still help
+const OPTIMIZER_MAX_PASSES = 4
+
 /**
- * Find closest DMC color from ALL 454 colors
+ * PHASE 3 (optimized): choose the targetCount catalog colors that minimize total usage-weighted
+ * ΔE2000 between every used color and its nearest chosen color. Greedy build, then k-medoids
+ * (PAM-style) swap search over all catalog colors. Protected colors stay fixed.
  */
-function findClosestDMCFromAllColors(
-  targetColor: PixelData,
-  allDMCLabs: Array<{ dmc: DMCColor, lab: LABColor }>
-): { dmcColor: DMCColor, distance: number } {
-  const targetLab = rgbToLab(targetColor)
-  let bestMatch = allDMCLabs[0]
-  let bestDistance = deltaE2000(targetLab, bestMatch.lab)
+export function optimizeColorsToTarget(
+  analyses: ColorUsageAnalysis[],
+  targetCount: number,
+  catalogColors: DMCColor[] = DMC_COLORS,
+  pixels?: FullMatchedPixel[]
+): { reducedPalette: DMCColor[], strategy: string, protectedColors: ProtectedColorReport[], passes: number, swaps: number } {
   
-  // Early exit if perfect match found
-  if (bestDistance < 1) {
-    return { dmcColor: bestMatch.dmc, distance: bestDistance }
+  if (analyses.length <= targetCount) {
+    return {
+      reducedPalette: analyses.map(a => a.dmcColor),
+      strategy: `No reduction needed (${analyses.length} colors)`,
+      protectedColors: [],
+      passes: 0,
+      swaps: 0
+    }
   }
   
-  for (let i = 1; i < allDMCLabs.length; i++) {
-    const distance = deltaE2000(targetLab, allDMCLabs[i].lab)
-    if (distance < bestDistance) {
-      bestDistance = distance
-      bestMatch = allDMCLabs[i]
+  const points = analyses.map(a => ({ ...a }))
+  const protectedColors = pixels ? protectRareDistinctColors(points, pixels, targetCount, 0.5) : []
+  
+  // Candidates: the whole catalog plus any used color missing from it (user-defined drills)
+  const candidates = [...catalogColors]
+  const candidateIndex = new Map(candidates.map((color, index) => [color.code, index]))
+  for (const point of points) {
+    if (!candidateIndex.has(point.dmcColor.code)) {
+      candidateIndex.set(point.dmcColor.code, candidates.length)
+      candidates.push(point.dmcColor)
+    }
+  }
+  
+  // distances[c * P + p] = ΔE between candidate c and used color p
+  const pointCount = points.length
+  const pointLabs = points.map(point => getCatalogColorLab(point.dmcColor))
+  const weights = Float64Array.from(points, point => point.percentage)
+  const distances = new Float32Array(candidates.length * pointCount)
+  candidates.forEach((candidate, c) => {
+    const lab = getCatalogColorLab(candidate)
+    for (let p = 0; p < pointCount; p++) {
+      distances[c * pointCount + p] = deltaE2000(lab, pointLabs[p])
+    }
+  })
+  
+  const medoids: number[] = []
+  for (const point of points) {
+    const c = candidateIndex.get(point.dmcColor.code)!
+    if (point.isProtected && medoids.length < targetCount && !medoids.includes(c)) {
+      medoids.push(c)
+    }
+  }
+  const fixedCount = medoids.length
+  const nearest = new Float64Array(pointCount).fill(Infinity)
+  const updateNearest = (c: number) => {
+    for (let p = 0; p < pointCount; p++) {
+      nearest[p] = Math.min(nearest[p], distances[c * pointCount + p])
+    }
+  }
+  medoids.forEach(updateNearest)
+  
+  // Greedy build: add the candidate that lowers the total cost most
+  const isMedoid = new Uint8Array(candidates.length)
+  medoids.forEach(c => { isMedoid[c] = 1 })
+  while (medoids.length < targetCount && medoids.length < candidates.length) {
+    let bestCandidate = -1
+    let bestCost = Infinity
+    for (let c = 0; c < candidates.length; c++) {
+      if (isMedoid[c]) continue
+      let cost = 0
+      for (let p = 0; p < pointCount; p++) {
+        cost += weights[p] * Math.min(nearest[p], distances[c * pointCount + p])
+      }
+      if (cost < bestCost) {
+        bestCost = cost
+        bestCandidate = c
+      }
+    }
+    medoids.push(bestCandidate)
+    isMedoid[bestCandidate] = 1
+    updateNearest(bestCandidate)
+  }
+  
+  // Swap search: replace a medoid with a non-medoid while that lowers the total cost
+  const first = new Float64Array(pointCount)
+  const second = new Float64Array(pointCount)
+  const owner = new Int32Array(pointCount)
+  const assign = () => {
+    for (let p = 0; p < pointCount; p++) {
+      first[p] = Infinity
+      second[p] = Infinity
+      for (let m = 0; m < medoids.length; m++) {
+        const d = distances[medoids[m] * pointCount + p]
+        if (d < first[p]) {
+          second[p] = first[p]
+          first[p] = d
+          owner[p] = m
+        } else if (d < second[p]) {
+          second[p] = d
+        }
+      }
+    }
+  }
+  
+  let passes = 0
+  let swaps = 0
+  let improved = true
+  while (improved && passes < OPTIMIZER_MAX_PASSES) {
+    improved = false
+    passes++
+    
+    for (let m = fixedCount; m < medoids.length; m++) {
+      assign()
+      let bestCandidate = -1
+      let bestDelta = -1e-9
+      for (let c = 0; c < candidates.length; c++) {
+        if (isMedoid[c]) continue
+        let delta = 0
+        for (let p = 0; p < pointCount; p++) {
+          const d = distances[c * pointCount + p]
+          const current = first[p]
+          const without = owner[p] === m ? second[p] : current
+          delta += weights[p] * (Math.min(without, d) - current)
+        }
+        if (delta < bestDelta) {
+          bestDelta = delta
+          bestCandidate = c
+        }
+      }
       
-      // Early exit if very close match found (deltaE < 1 is imperceptible difference)
-      if (bestDistance < 1) {
-        break
+      if (bestCandidate >= 0) {
+        isMedoid[medoids[m]] = 0
+        isMedoid[bestCandidate] = 1
+        medoids[m] = bestCandidate
+        swaps++
+        improved = true
       }
     }
   }
   
-  return { dmcColor: bestMatch.dmc, distance: bestDistance }
+  // Drop chosen colors that no used color maps to (can happen when fewer distinct colors than K matter)
+  assign()
+  const usedMedoids = new Set<number>()
+  for (let p = 0; p < pointCount; p++) {
+    usedMedoids.add(owner[p])
+  }
+  const reducedPalette = medoids
+    .filter((_, m) => m < fixedCount || usedMedoids.has(m))
+    .map(c => candidates[c])
+  
+  let strategy = `k-medoids over ${candidates.length} catalog colors (${passes} passes, ${swaps} swaps).`
+  if (protectedColors.length > 0) {
+    strategy = `Protected ${protectedColors.length} rare distinct colors. ` + strategy
+  }
+  
+  return { reducedPalette, strategy, protectedColors, passes, swaps }
 }
 
+// Quantizers (and their benchmark) run on an evenly spaced subset of beads on large grids
+const QUANTIZER_SAMPLE_SIZE = 10000
+
 /**
- * NEW MAIN FUNCTION: Generate pattern with quality-first approach
- * 🎯 NEW: Support for user-specified custom colors
+ * PHASE 3 (quantized): cluster the bead colors with a classic quantizer and match each cluster
+ * center to its nearest drill. Every quantizer is run on the same beads so the report shows
+ * time and mean ΔE side by side; the palette of the chosen one is used.
+ * Rare distinct colors are protected as in the other reducers; they and keep-detail colors (isProtected)
+ * stay in the palette and come out of the same budget.
  */
-export async function generateFullDMCPattern(
-  imageData: ImageData,
-  config: PixelizationConfig,
-  targetColorCount: number,
-  analysisQuality: 'fast' | 'standard' | 'high' = 'standard',
-  customColorCodes?: string[]
-): Promise<FullDMCPattern> {
+export function reduceColorsByQuantization(
+  analyses: ColorUsageAnalysis[],
+  pixels: FullMatchedPixel[],
+  targetCount: number,
+  method: ColorQuantizerMethod = 'wu',
+  catalogColors: DMCColor[] = DMC_COLORS,
+  random: RandomSource = Math.random
+): { reducedPalette: DMCColor[], strategy: string, protectedColors: ProtectedColorReport[], benchmark: QuantizerBenchmark[] } {
+  
+  const points = analyses.map(a => ({ ...a }))
+  const protectedColors = protectRareDistinctColors(points, pixels, targetCount, 0.5)
+  const fixedColors = points.filter(analysis => analysis.isProtected).slice(0, targetCount).map(analysis => analysis.dmcColor)
+  const clusterCount = Math.max(1, targetCount - fixedColors.length)
+  
+  const step = Math.max(1, Math.ceil(pixels.length / QUANTIZER_SAMPLE_SIZE))
+  const colors: RGBColor[] = []
+  for (let i = 0; i < pixels.length; i += step) {
+    colors.push(pixels[i].averageColor)
+  }
+  const colorLabs = colors.map(color => rgbToLab(color))
+  const catalogLabs = catalogColors.map(dmc => ({ dmc, lab: getCatalogColorLab(dmc) }))
   
-  // 🎯 NEW: Handle custom colors vs. full color mode
-  if (customColorCodes && customColorCodes.length > 0) {
-    console.log(`🎨 CUSTOM COLOR MODE: Using ${customColorCodes.length} user-specified colors`)
-    console.log(`🎯 Custom colors: ${customColorCodes.slice(0, 10).join(', ')}${customColorCodes.length > 10 ? '...' : ''}`)
+  const palettes = new Map<ColorQuantizerMethod, DMCColor[]>()
+  const benchmark: QuantizerBenchmark[] = []
+  
+  for (const candidate of ['kmeans', 'median-cut', 'octree', 'wu'] as ColorQuantizerMethod[]) {
+    const start = performance.now()
+    const { centroids } = colors.length > 0 ? quantizeColors(colors, clusterCount, candidate, random) : { centroids: [] }
+    const timeMs = performance.now() - start
     
-    // Create custom palette from user-specified codes
-    const customPalette: DMCColor[] = []
-    for (const code of customColorCodes) {
-      const dmcColor = DMC_COLOR_MAP.get(code)
-      if (dmcColor) {
-        customPalette.push(dmcColor)
-      } else {
-        console.warn(`⚠️ Invalid DMC code ignored: ${code}`)
+    const palette = [...fixedColors]
+    for (const centroid of centroids) {
+      const { dmcColor } = findClosestDMCFromAllColors({ ...centroid, a: 255 }, catalogLabs)
+      if (!palette.some(color => color.code === dmcColor.code)) {
+        palette.push(dmcColor)
       }
     }
+    palettes.set(candidate, palette)
     
-    if (customPalette.length === 0) {
-      throw new Error('No valid DMC codes provided')
-    }
-    
-    console.log(`✅ Valid custom palette: ${customPalette.length} colors`)
-    
-    // PHASE 1: Match image pixels to custom palette only
-    const customMatchedPixels = pixelizeWithCustomDMCPalette(imageData, config, customPalette)
-    console.log(`📊 Phase 1 - Total pixels processed with custom palette: ${customMatchedPixels.length}`)
-    
-    // PHASE 2: Calculate usage for custom colors
-    const customColorUsage = analyzeColorUsage(customMatchedPixels)
-    console.log(`🎨 Phase 2 - Custom colors used: ${customColorUsage.length}/${customPalette.length}`)
-    
-    // Quality statistics for custom colors
-    const totalDistance = customMatchedPixels.reduce((sum, p) => sum + p.matchingDistance, 0)
-    const averageDistance = totalDistance / customMatchedPixels.length
-    const qualityScore = Math.max(0, 1 - (averageDistance / 30))
-    
-    const pattern: FullDMCPattern = {
-      fullMatchedPixels: customMatchedPixels,
-      colorUsage: customColorUsage,
-      reducedPalette: customPalette,
-      config,
-      statistics: {
-        totalPixels: customMatchedPixels.length,
-        originalColorCount: customPalette.length,
-        reducedColorCount: customColorUsage.length,
-        targetColorCount: customPalette.length, // 🎯 Custom colors: target = available colors
-        averageMatchingDistance: averageDistance,
-        reductionStrategy: `Custom palette (${customPalette.length} user-specified colors)`,
-        qualityScore
+    const paletteLabs = palette.map(color => getCatalogColorLab(color))
+    let totalDistance = 0
+    for (const lab of colorLabs) {
+      let nearest = Infinity
+      for (const paletteLab of paletteLabs) {
+        nearest = Math.min(nearest, deltaE2000(lab, paletteLab))
       }
+      totalDistance += nearest
     }
     
-    console.log(`✅ CUSTOM COLOR pattern completed - Used ${customColorUsage.length}/${customPalette.length} custom colors`)
-    return pattern
+    benchmark.push({
+      method: candidate,
+      timeMs,
+      meanDeltaE: colorLabs.length > 0 ? totalDistance / colorLabs.length : 0,
+      colorCount: palette.length,
+      selected: candidate === method
+    })
   }
   
-  // ORIGINAL LOGIC: Full color mode
-  console.log(`🎯 FULL COLOR MODE: Target color count: ${targetColorCount}`)
-  
-  // PHASE 1: Full DMC matching (maximum quality)
-  const fullMatchedPixels = pixelizeWithFullDMCMatching(imageData, config)
-  console.log(`📊 Phase 1 - Total pixels processed: ${fullMatchedPixels.length}`)
-  
-  // PHASE 2: Analyze color usage
-  const colorUsage = analyzeColorUsage(fullMatchedPixels)
-  console.log(`🎨 Phase 2 - Unique colors detected: ${colorUsage.length}`)
+  benchmark.forEach(entry => console.log(`⏱️ Quantizer ${entry.method}: ${entry.timeMs.toFixed(0)}ms, mean ΔE ${entry.meanDeltaE.toFixed(2)}, ${entry.colorCount} drills`))
   
-  // PHASE 3: Intelligent color reduction
-  const { reducedPalette, strategy } = reduceColorsToTarget(colorUsage, targetColorCount)
-  console.log(`🔄 Phase 3 - Color reduction strategy: ${strategy}`)
-  console.log(`✅ Phase 3 - Final palette size: ${reducedPalette.length} (target: ${targetColorCount})`)
-  
-  // CRITICAL VALIDATION: Ensure we meet user expectations
-  if (Math.abs(reducedPalette.length - targetColorCount) > 5) {
-    console.warn(`⚠️ SIGNIFICANT DEVIATION: Got ${reducedPalette.length} colors, expected ${targetColorCount}`)
+  const reducedPalette = palettes.get(method)!
+  let strategy = `${method} quantization of ${colors.length} bead colors → ${reducedPalette.length} drills.`
+  if (protectedColors.length > 0) {
+    strategy = `Protected ${protectedColors.length} rare distinct colors. ` + strategy
   }
   
-  // PHASE 4: Remap pixels to reduced palette
-  const remappedPixels = remapPixelsToReducedPalette(fullMatchedPixels, reducedPalette)
-  console.log(`🔗 Phase 4 - Pixels remapped to reduced palette`)
-  
-  // Verify all colors are actually used
-  const actuallyUsedColors = new Set(remappedPixels.map(p => p.matchedDMCColor.code))
-  console.log(`🧮 Final verification - Colors actually used: ${actuallyUsedColors.size}/${reducedPalette.length}`)
-  
-  // Calculate quality statistics
+  return { reducedPalette, strategy, protectedColors, benchmark }
+}
+
+/**
+ * Find closest DMC color from ALL 454 colors
+ * Any catalog color within ΔE 1 (imperceptible) is accepted, the earliest in catalog order first
+ */
+function findClosestDMCFromAllColors(
+  targetColor: PixelData,
+  allDMCLabs: Array<{ dmc: DMCColor, lab: LABColor }>
+): { dmcColor: DMCColor, distance: number } {
+  const { index, distance } = getPaletteIndex(allDMCLabs, 1).findNearest(rgbToLab(targetColor))
+  return { dmcColor: allDMCLabs[index].dmc, distance }
+}
+
+/**
+ * NEW MAIN FUNCTION: Generate pattern with quality-first approach
+ * 🎯 NEW: Support for user-specified custom colors
+ * 🫥 Transparent sources: cells below the alpha threshold are left empty or filled with a background drill
+ */
+export async function generateFullDMCPattern(
+  imageData: ImageData,
+  config: PixelizationConfig,
+  targetColorCount: number,
+  analysisQuality: 'fast' | 'standard' | 'high' = 'standard',
+  customColorCodes?: string[],
+  generationOptions: FullDMCGenerationOptions = {}
+): Promise<FullDMCPattern> {
+  // 🎲 Record the seed so the same chart can be generated again later
+  const seed = generationOptions.seed ?? generatePatternSeed()
+  const pattern = await generatePatternForImage(imageData, config, targetColorCount, analysisQuality, customColorCodes, { ...generationOptions, seed })
+  pattern.statistics.seed = seed
+  console.log(`🎲 Pattern seed: ${seed}`)
+  return pattern
+}
+
+/**
+ * ⏹️ Report the next pipeline phase. With a signal, yield first so a pending cancel message
+ * reaches the worker (it can't while the pipeline runs), then stop if the run was cancelled.
+ */
+async function startPhase(generationOptions: FullDMCGenerationOptions, phase: PatternGenerationPhase): Promise<void> {
+  const { signal, onProgress } = generationOptions
+  if (signal) {
+    await new Promise(resolve => setTimeout(resolve, 0))
+    if (signal.aborted) {
+      const error = new Error('Pattern generation cancelled')
+      error.name = 'AbortError'
+      throw error
+    }
+  }
+  onProgress?.({ phase })
+}
+
+/**
+ * Handle transparent areas (empty cells or background drill), then generate the pattern
+ */
+async function generatePatternForImage(
+  imageData: ImageData,
+  config: PixelizationConfig,
+  targetColorCount: number,
+  analysisQuality: 'fast' | 'standard' | 'high',
+  customColorCodes: string[] | undefined,
+  generationOptions: FullDMCGenerationOptions
+): Promise<FullDMCPattern> {
+  const transparency = generationOptions.transparency
+  if (!transparency || !hasTransparency(imageData)) {
+    return generatePatternForGrid(imageData, config, targetColorCount, analysisQuality, customColorCodes, generationOptions)
+  }
+  
+  const alphaThreshold = transparency.alphaThreshold ?? 128
+  const coverage = calculateCellCoverage(imageData, config)
+  
+  if (transparency.mode === 'empty') {
+    const maskedConfig = maskTransparentCells(config, coverage, alphaThreshold)
+    const pattern = await generatePatternForGrid(imageData, maskedConfig, targetColorCount, analysisQuality, customColorCodes, generationOptions)
+    const cellCount = config.shapeMask ? config.shapeMask.beadCount : config.beadGridWidth * config.beadGridHeight
+    const transparentCells = cellCount - maskedConfig.shapeMask!.beadCount
+    console.log(`🫥 Transparent cells left empty: ${transparentCells}`)
+    
+    pattern.statistics.transparency = { mode: 'empty', transparentCells }
+    return pattern
+  }
+  
+  const catalog = getDrillCatalog(generationOptions.catalogId)
+  const backgroundColor = transparency.backgroundCode ? resolveDrillCode(catalog, transparency.backgroundCode) : undefined
+  if (!backgroundColor) {
+    throw new Error(`Choose a valid ${catalog.name} background color for transparent areas`)
+  }
+  
+  // Semi-transparent edges blend into the background; mostly transparent cells get the background drill
+  const flattened = compositeOverBackground(imageData, backgroundColor)
+  const pattern = await generatePatternForGrid(flattened, config, targetColorCount, analysisQuality, customColorCodes, generationOptions)
+  return applyTransparentBackground(pattern, coverage, alphaThreshold, backgroundColor)
+}
+
+/**
+ * Pin transparent cells to the background drill and make sure it is in the palette
+ */
+function applyTransparentBackground(
+  pattern: FullDMCPattern,
+  coverage: Uint8Array,
+  alphaThreshold: number,
+  backgroundColor: DMCColor
+): FullDMCPattern {
+  const width = pattern.config.beadGridWidth
+  const backgroundLab = getCatalogColorLab(backgroundColor)
+  let transparentCells = 0
+  
+  const pixels = pattern.fullMatchedPixels.map(pixel => {
+    if (coverage[pixel.y * width + pixel.x] >= alphaThreshold) return pixel
+    
+    transparentCells++
+    return {
+      ...pixel,
+      matchedDMCColor: backgroundColor,
+      matchingDistance: deltaE2000(rgbToLab(pixel.averageColor), backgroundLab)
+    }
+  })
+  console.log(`🫥 Transparent cells filled with ${backgroundColor.code}: ${transparentCells}`)
+  
+  const hasBackground = pattern.reducedPalette.some(color => color.code === backgroundColor.code)
+  
+  return {
+    ...pattern,
+    fullMatchedPixels: pixels,
+    colorUsage: analyzeColorUsage(pixels),
+    reducedPalette: hasBackground || transparentCells === 0 ? pattern.reducedPalette : pattern.reducedPalette.concat(backgroundColor),
+    statistics: {
+      ...pattern.statistics,
+      transparency: { mode: 'background', transparentCells, backgroundColor }
+    }
+  }
+}
+
+/**
+ * Generate a pattern for one image/grid: inventory, custom-color or full-color mode
+ */
+async function generatePatternForGrid(
+  imageData: ImageData,
+  config: PixelizationConfig,
+  targetColorCount: number,
+  analysisQuality: 'fast' | 'standard' | 'high',
+  customColorCodes: string[] | undefined,
+  generationOptions: FullDMCGenerationOptions
+): Promise<FullDMCPattern> {
+  
+  const catalog = getDrillCatalog(generationOptions.catalogId)
+  const dithering = generationOptions.dithering
+  const useDithering = !!dithering && dithering.mode !== 'none' && dithering.strength > 0
+  const minRegionSize = generationOptions.confettiCleanup?.minRegionSize ?? 0
+  const abPercent = generationOptions.abHighlights?.percent ?? 0
+  const paletteReducer = generationOptions.paletteReducer ?? 'heuristic'
+  const onProgress = generationOptions.onProgress
+  const reportMatching = onProgress && ((fraction: number) => onProgress({ phase: 'matching', fraction }))
+  
+  // 📦 Inventory-only mode: owned colors, limited by owned quantities
+  if (generationOptions.inventory && generationOptions.inventory.length > 0) {
+    return generateInventoryConstrainedPattern(imageData, config, catalog, generationOptions.inventory, reportMatching)
+  }
+  
+  // 🎯 NEW: Handle custom colors vs. full color mode
+  if (customColorCodes && customColorCodes.length > 0) {
+    console.log(`🎨 CUSTOM COLOR MODE: Using ${customColorCodes.length} user-specified colors`)
+    console.log(`🎯 Custom colors: ${customColorCodes.slice(0, 10).join(', ')}${customColorCodes.length > 10 ? '...' : ''}`)
+    
+    // Create custom palette from user-specified codes (specialty codes like "310AB" and user-defined drills included)
+    const customDrillMap = new Map((generationOptions.customDrills || []).map(drill => [drill.code, drill]))
+    let customPalette: DMCColor[] = []
+    for (const code of customColorCodes) {
+      const dmcColor = customDrillMap.get(code) || resolveDrillCode(catalog, code)
+      if (dmcColor) {
+        customPalette.push(dmcColor)
+      } else {
+        console.warn(`⚠️ Invalid ${catalog.name} code ignored: ${code}`)
+      }
+    }
+    customPalette = orderStandardDrillsFirst(customPalette)
+    
+    if (customPalette.length === 0) {
+      throw new Error(`No valid ${catalog.name} codes provided`)
+    }
+    
+    console.log(`✅ Valid custom palette: ${customPalette.length} colors`)
+    
+    // PHASE 1: Match image pixels to custom palette only
+    let customMatchedPixels = pixelizeWithCustomDMCPalette(imageData, config, customPalette, reportMatching)
+    if (useDithering) {
+      await startPhase(generationOptions, 'remapping')
+      customMatchedPixels = ditherPixelsToPalette(customMatchedPixels, config, customPalette, dithering!)
+      console.log(`🌈 Dithering applied: ${dithering!.mode} (${Math.round(dithering!.strength * 100)}%)`)
+    }
+    
+    let customCleanupReport: ConfettiCleanupReport | undefined
+    if (minRegionSize > 1) {
+      await startPhase(generationOptions, 'cleanup')
+      const cleanup = cleanupIsolatedBeads(customMatchedPixels, config, minRegionSize)
+      customMatchedPixels = cleanup.pixels
+      customCleanupReport = cleanup.report
+      console.log(`🧹 Confetti cleanup: ${cleanup.report.changedBeads} beads changed in ${cleanup.report.regionsMerged} regions`)
+    }
+    
+    let customABReport: ABHighlightReport | undefined
+    if (abPercent > 0) {
+      await startPhase(generationOptions, 'highlights')
+      const highlights = placeABHighlights(customMatchedPixels, catalog, abPercent)
+      customMatchedPixels = highlights.pixels
+      customABReport = highlights.report
+      customPalette = customPalette.concat(highlights.variants.filter(variant => !customPalette.includes(variant)))
+      console.log(`✨ AB highlights: ${highlights.report.beadsPlaced} beads across ${highlights.report.colorsAffected} colors`)
+    }
+    console.log(`📊 Phase 1 - Total pixels processed with custom palette: ${customMatchedPixels.length}`)
+    
+    // PHASE 2: Calculate usage for custom colors
+    const customColorUsage = analyzeColorUsage(customMatchedPixels)
+    console.log(`🎨 Phase 2 - Custom colors used: ${customColorUsage.length}/${customPalette.length}`)
+    
+    // Quality statistics for custom colors
+    const totalDistance = customMatchedPixels.reduce((sum, p) => sum + p.matchingDistance, 0)
+    const averageDistance = totalDistance / customMatchedPixels.length
+    const qualityScore = Math.max(0, 1 - (averageDistance / 30))
+    
+    const pattern: FullDMCPattern = {
+      catalogId: catalog.id,
+      fullMatchedPixels: customMatchedPixels,
+      colorUsage: customColorUsage,
+      reducedPalette: customPalette,
+      config,
+      statistics: {
+        totalPixels: customMatchedPixels.length,
+        originalColorCount: customPalette.length,
+        reducedColorCount: customColorUsage.length,
+        targetColorCount: customPalette.length, // 🎯 Custom colors: target = available colors
+        averageMatchingDistance: averageDistance,
+        reductionStrategy: `Custom palette (${customPalette.length} user-specified colors)` + describeDithering(dithering),
+        qualityScore,
+        confettiCleanup: customCleanupReport,
+        abHighlights: customABReport
+      }
+    }
+    
+    console.log(`✅ CUSTOM COLOR pattern completed - Used ${customColorUsage.length}/${customPalette.length} custom colors`)
+    return pattern
+  }
+  
+  // ORIGINAL LOGIC: Full color mode
+  console.log(`🎯 FULL COLOR MODE: Target color count: ${targetColorCount} (${catalog.name} catalog)`)
+  
+  // Specialty drills (AB, glow, ...) are never picked by automatic matching
+  const matchableColors = catalog.colors.filter(color => !isSpecialtyDrill(color))
+  
+  // PHASE 1: Full DMC matching (maximum quality), ♻️ reused when only later settings changed
+  const matchKey = createFullMatchKey(imageData, config, catalog.id, matchableColors)
+  const isCached = !!fullMatchCache && isSameMatchInput(fullMatchCache, matchKey, imageData, config)
+  const cache: FullMatchCache = isCached
+    ? fullMatchCache!
+    : {
+        key: matchKey,
+        image: imageData.data.slice(),
+        shapeCells: config.shapeMask ? config.shapeMask.cells.slice() : null,
+        pixels: pixelizeWithFullDMCMatching(imageData, config, matchableColors, reportMatching)
+      }
+  fullMatchCache = cache
+  const fullMatchedPixels = cache.pixels
+  if (isCached) {
+    onProgress?.({ phase: 'matching', fraction: 1 })
+    console.log(`♻️ Phase 1 - Reusing full-catalog match: ${fullMatchedPixels.length} pixels`)
+  } else {
+    console.log(`📊 Phase 1 - Total pixels processed: ${fullMatchedPixels.length}`)
+  }
+  await startPhase(generationOptions, 'analyzing')
+  
+  // 🖌️ Detail brush: "simplify" beads get their own few colors, "keep detail" beads protect theirs
+  const detailPriority = generationOptions.detailPriority
+  const priorities = detailPriority && hasDetailMask(detailPriority.mask)
+    ? calculateCellDetailPriority(detailPriority.mask, config)
+    : undefined
+  const isSimplified = (pixel: FullMatchedPixel) =>
+    !!priorities && priorities[pixel.y * config.beadGridWidth + pixel.x] === DETAIL_SIMPLIFY
+  const simplifyPixels = priorities ? fullMatchedPixels.filter(isSimplified) : []
+  const mainPixels = simplifyPixels.length > 0 ? fullMatchedPixels.filter(pixel => !isSimplified(pixel)) : fullMatchedPixels
+  const simplifyPalette = simplifyPixels.length > 0
+    ? selectSimplifiedPalette(simplifyPixels, Math.max(1, Math.min(detailPriority!.simplifyColorCount, targetColorCount)))
+    : []
+  
+  // PHASE 2: Analyze color usage (👁️ weighted towards the subject when saliency is on)
+  const saliencyStrength = generationOptions.saliency?.strength ?? 0
+  const sameUsageInput = cache.saliencyStrength === saliencyStrength &&
+    (cache.priorities && priorities ? sameValues(cache.priorities, priorities) : !cache.priorities === !priorities)
+  if (!sameUsageInput || !cache.colorUsage) {
+    const cellWeights = saliencyStrength > 0
+      ? { values: calculateCellSaliencyWeights(computeSaliencyMap(imageData), config, saliencyStrength), gridWidth: config.beadGridWidth }
+      : undefined
+    cache.saliencyStrength = saliencyStrength
+    cache.priorities = priorities ?? null
+    cache.colorUsage = analyzeColorUsage(mainPixels, cellWeights)
+  }
+  // Protection and reduction flag and re-sort the analyses, so each run works on copies
+  const colorUsage = cache.colorUsage.map(analysis => ({ ...analysis }))
+  const protectedColorCount = priorities ? protectDetailColors(colorUsage, mainPixels, priorities, config.beadGridWidth) : 0
+  console.log(`🎨 Phase 2 - Unique colors detected: ${colorUsage.length}${saliencyStrength > 0 ? ` (saliency-weighted, strength ${saliencyStrength})` : ''}`)
+  
+  // PHASE 3: Color reduction (the simplified areas' colors come out of the same budget)
+  await startPhase(generationOptions, 'reducing')
+  const mainTargetCount = Math.max(1, targetColorCount - simplifyPalette.length)
+  const reduction: {
+    reducedPalette: DMCColor[]
+    strategy: string
+    protectedColors: ProtectedColorReport[]
+    passes?: number
+    swaps?: number
+    benchmark?: QuantizerBenchmark[]
+  } = mainPixels.length === 0
+    ? { reducedPalette: [], strategy: '', protectedColors: [] }
+    : paletteReducer === 'optimized'
+      ? optimizeColorsToTarget(colorUsage, mainTargetCount, matchableColors, mainPixels)
+      : paletteReducer === 'quantized'
+        ? reduceColorsByQuantization(
+            colorUsage,
+            mainPixels,
+            mainTargetCount,
+            generationOptions.quantizer ?? 'wu',
+            matchableColors,
+            createSeededRandom(generationOptions.seed ?? 0)
+          )
+        : reduceColorsToTarget(colorUsage, mainTargetCount, matchableColors, mainPixels)
+  const reducedPalette = reduction.reducedPalette.concat(
+    simplifyPalette.filter(color => !reduction.reducedPalette.some(existing => existing.code === color.code))
+  )
+  let strategy = saliencyStrength > 0 ? `${reduction.strategy} Saliency-weighted usage.` : reduction.strategy
+  if (priorities) {
+    strategy += ` Detail brush: ${protectedColorCount} protected colors, ${simplifyPalette.length} colors in simplified areas.`
+    console.log(`🖌️ Detail brush - protected ${protectedColorCount} colors, simplified ${simplifyPixels.length} beads to ${simplifyPalette.length} colors`)
+  }
+  console.log(`🔄 Phase 3 - Color reduction strategy: ${strategy}`)
+  console.log(`✅ Phase 3 - Final palette size: ${reducedPalette.length} (target: ${targetColorCount})`)
+  
+  // CRITICAL VALIDATION: Ensure we meet user expectations
+  if (Math.abs(reducedPalette.length - targetColorCount) > 5) {
+    console.warn(`⚠️ SIGNIFICANT DEVIATION: Got ${reducedPalette.length} colors, expected ${targetColorCount}`)
+  }
+  
+  // PHASE 4: Remap pixels to reduced palette (error diffusion / ordered dithering if enabled)
+  await startPhase(generationOptions, 'remapping')
+  let remappedPixels = useDithering
+    ? ditherPixelsToPalette(mainPixels, config, reducedPalette, dithering!)
+    : remapPixelsToReducedPalette(mainPixels, reducedPalette)
+  if (simplifyPixels.length > 0) {
+    // Simplified areas are flattened to their own colors, never dithered
+    const width = config.beadGridWidth
+    remappedPixels = remappedPixels
+      .concat(remapPixelsToReducedPalette(simplifyPixels, simplifyPalette))
+      .sort((a, b) => (a.y * width + a.x) - (b.y * width + b.x))
+  }
+  console.log(`🔗 Phase 4 - Pixels remapped to reduced palette${useDithering ? ` with ${dithering!.mode} dithering` : ''}`)
+  
+  // Quality once reduced, on the same scale as qualityScore (which assumes the whole catalog)
+  const averageDistanceAfter = remappedPixels.length > 0
+    ? remappedPixels.reduce((sum, p) => sum + p.matchingDistance, 0) / remappedPixels.length
+    : 0
+  
+  // PHASE 5: Merge isolated beads ("confetti") into neighbouring colors
+  let cleanupReport: ConfettiCleanupReport | undefined
+  if (minRegionSize > 1) {
+    await startPhase(generationOptions, 'cleanup')
+    const cleanup = cleanupIsolatedBeads(remappedPixels, config, minRegionSize)
+    remappedPixels = cleanup.pixels
+    cleanupReport = cleanup.report
+    console.log(`🧹 Phase 5 - Confetti cleanup: ${cleanup.report.changedBeads} beads changed, +${cleanup.report.addedError.toFixed(1)} total ΔE`)
+  }
+  
+  // PHASE 6: AB drills on highlights
+  let abReport: ABHighlightReport | undefined
+  let finalPalette = reducedPalette
+  if (abPercent > 0) {
+    await startPhase(generationOptions, 'highlights')
+    const highlights = placeABHighlights(remappedPixels, catalog, abPercent)
+    remappedPixels = highlights.pixels
+    abReport = highlights.report
+    finalPalette = reducedPalette.concat(highlights.variants)
+    console.log(`✨ Phase 6 - AB highlights: ${highlights.report.beadsPlaced} beads across ${highlights.report.colorsAffected} colors`)
+  }
+  
+  // Verify all colors are actually used
+  const actuallyUsedColors = new Set(remappedPixels.map(p => p.matchedDMCColor.code))
+  console.log(`🧮 Final verification - Colors actually used: ${actuallyUsedColors.size}/${reducedPalette.length}`)
+  
+  // Calculate quality statistics
   const totalDistance = fullMatchedPixels.reduce((sum, p) => sum + p.matchingDistance, 0)
   const averageDistance = totalDistance / fullMatchedPixels.length
   const qualityScore = Math.max(0, 1 - (averageDistance / 30)) // Higher = better
+  const paletteOptimization: PaletteOptimizationReport = {
+    method: paletteReducer,
+    qualityBefore: qualityScore,
+    qualityAfter: Math.max(0, 1 - (averageDistanceAfter / 30)),
+    averageDistanceAfter,
+    passes: reduction.passes,
+    swaps: reduction.swaps
+  }
+  console.log(`📈 Palette reduction (${paletteReducer}) - quality ${(qualityScore * 100).toFixed(1)}% → ${(paletteOptimization.qualityAfter * 100).toFixed(1)}%`)
   
   const pattern: FullDMCPattern = {
+    catalogId: catalog.id,
     fullMatchedPixels: remappedPixels,
-    colorUsage: colorUsage.filter(c => reducedPalette.some(p => p.code === c.dmcColor.code)),
-    reducedPalette,
+    colorUsage: analyzeColorUsage(remappedPixels), // Counts reflect the final remapped/cleaned pixels
+    reducedPalette: finalPalette,
     config,
     statistics: {
       totalPixels: fullMatchedPixels.length,
-      originalColorCount: colorUsage.length,
+      originalColorCount: simplifyPixels.length > 0
+        ? new Set(fullMatchedPixels.map(pixel => pixel.matchedDMCColor.code)).size
+        : colorUsage.length,
       reducedColorCount: reducedPalette.length,
       targetColorCount,
       qualityScore,
-      reductionStrategy: strategy,
-      averageMatchingDistance: averageDistance
+      reductionStrategy: strategy + describeDithering(dithering),
+      averageMatchingDistance: averageDistance,
+      confettiCleanup: cleanupReport,
+      abHighlights: abReport,
+      protectedColors: reduction.protectedColors.length > 0 ? reduction.protectedColors : undefined,
+      paletteOptimization,
+      quantizerBenchmark: reduction.benchmark,
+      detailPriority: priorities
+        ? {
+            keepBeads: mainPixels.filter(pixel => priorities[pixel.y * config.beadGridWidth + pixel.x] === DETAIL_KEEP).length,
+            simplifyBeads: simplifyPixels.length,
+            simplifyColors: simplifyPalette.length
+          }
+        : undefined
     }
   }
   
   return pattern
 }
 
+/**
+ * ♻️ Full-catalog match of the most recent image and grid. Color count, reducer, dithering and
+ * cleanup only act on this result, so changing them skips the expensive matching pass.
+ * One entry is enough: the color slider regenerates the same image over and over.
+ */
+interface FullMatchCache {
+  key: string // Image and grid sizes, color estimator and the exact catalog colors
+  image: Uint8ClampedArray // Copy of the matched image's pixels (compared in full, never hashed)
+  shapeCells: Uint8Array | null // Copy of the canvas shape mask
+  pixels: FullMatchedPixel[]
+  saliencyStrength?: number // Saliency strength and detail-brush priorities the usage was analyzed with
+  priorities?: Int8Array | null
+  colorUsage?: ColorUsageAnalysis[] // Before protection; never handed out directly
+}
+
+let fullMatchCache: FullMatchCache | null = null
+
+/**
+ * Cache key for everything but the pixels and shape (those are compared separately).
+ * Lists every catalog color's code, name, finish and RGB: a user catalog edited in place must not
+ * reuse matches that point at its old colors.
+ */
+function createFullMatchKey(
+  imageData: ImageData,
+  config: PixelizationConfig,
+  catalogId: string,
+  catalogColors: DMCColor[]
+): string {
+  const catalogColorsKey = catalogColors
+    .map(color => `${color.code}:${color.name}:${color.finish ?? ''}:${color.r},${color.g},${color.b}`)
+    .join(';')
+  return [
+    `${imageData.width}x${imageData.height}`,
+    `${config.beadGridWidth}x${config.beadGridHeight}`,
+    config.colorEstimator ?? 'mean',
+    `${catalogId}:${catalogColorsKey}`
+  ].join('|')
+}
+
+/**
+ * Whether the cached match was made from exactly this image, grid, shape and catalog
+ * (contents, not identity: adjusted images are new objects every run)
+ */
+function isSameMatchInput(cache: FullMatchCache, key: string, imageData: ImageData, config: PixelizationConfig): boolean {
+  if (cache.key !== key) return false
+  const shapeCells = config.shapeMask ? config.shapeMask.cells : null
+  const sameShape = cache.shapeCells && shapeCells ? sameValues(cache.shapeCells, shapeCells) : cache.shapeCells === shapeCells
+  return sameShape && sameValues(cache.image, imageData.data)
+}
+
+function sameValues(a: ArrayLike<number>, b: ArrayLike<number>): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+// A color is protected once this many "keep detail" beads use it
+const KEEP_DETAIL_MIN_BEADS = 2
+
+/**
+ * 🖌️ Colors used by at least KEEP_DETAIL_MIN_BEADS "keep detail" beads can't be merged away
+ * and rank above automatic colors. Returns how many colors were protected.
+ */
+function protectDetailColors(
+  analyses: ColorUsageAnalysis[],
+  pixels: FullMatchedPixel[],
+  priorities: Int8Array,
+  gridWidth: number
+): number {
+  const keepCounts = new Map<string, number>()
+  for (const pixel of pixels) {
+    if (priorities[pixel.y * gridWidth + pixel.x] !== DETAIL_KEEP) continue
+    const code = pixel.matchedDMCColor.code
+    keepCounts.set(code, (keepCounts.get(code) ?? 0) + 1)
+  }
+  
+  let protectedCount = 0
+  for (const analysis of analyses) {
+    if ((keepCounts.get(analysis.dmcColor.code) ?? 0) >= KEEP_DETAIL_MIN_BEADS) {
+      analysis.canMerge = false
+      analysis.isProtected = true
+      analysis.importance += 1
+      protectedCount++
+    }
+  }
+  
+  analyses.sort((a, b) => b.importance - a.importance)
+  return protectedCount
+}
+
+/**
+ * 🖌️ Pick a few representative colors for "simplify" areas: greedy selection among the colors
+ * the area already matched, each step adding the color that most lowers the total ΔE
+ */
+function selectSimplifiedPalette(pixels: FullMatchedPixel[], colorCount: number): DMCColor[] {
+  const usage = analyzeColorUsage(pixels)
+  if (usage.length <= colorCount) {
+    return usage.map(analysis => analysis.dmcColor)
+  }
+  
+  const labs = usage.map(analysis => getCatalogColorLab(analysis.dmcColor))
+  const distances = labs.map(a => labs.map(b => deltaE2000(a, b)))
+  const nearest = new Array<number>(usage.length).fill(Infinity)
+  const selected: number[] = []
+  
+  while (selected.length < colorCount) {
+    let bestIndex = -1
+    let bestCost = Infinity
+    
+    for (let candidate = 0; candidate < usage.length; candidate++) {
+      if (selected.includes(candidate)) continue
+      let cost = 0
+      for (let i = 0; i < usage.length; i++) {
+        cost += usage[i].pixelCount * Math.min(nearest[i], distances[i][candidate])
+      }
+      if (cost < bestCost) {
+        bestCost = cost
+        bestIndex = candidate
+      }
+    }
+    
+    selected.push(bestIndex)
+    for (let i = 0; i < usage.length; i++) {
+      nearest[i] = Math.min(nearest[i], distances[i][bestIndex])
+    }
+  }
+  
+  return selected.map(index => usage[index].dmcColor)
+}
+
+/**
+ * 📦 Inventory-only generation: match against owned colors and keep each color within its quantity.
+ * Dithering and confetti cleanup are skipped here because they would break the quantity guarantee.
+ */
+function generateInventoryConstrainedPattern(
+  imageData: ImageData,
+  config: PixelizationConfig,
+  catalog: DrillCatalog,
+  inventory: DrillInventoryItem[],
+  onRowDone?: (fraction: number) => void
+): FullDMCPattern {
+  const owned = collectInventoryQuantities(catalog, inventory)
+  const { quantities } = owned
+  
+  if (owned.palette.length === 0) {
+    throw new Error(`No usable ${catalog.name} colors in inventory`)
+  }
+  const palette = orderStandardDrillsFirst(owned.palette)
+  
+  console.log(`📦 INVENTORY MODE: ${palette.length} owned colors`)
+  
+  const nearestPixels = pixelizeWithCustomDMCPalette(imageData, config, palette, onRowDone)
+  const { pixels, report } = assignWithInventoryLimits(nearestPixels, palette, quantities)
+  console.log(`📦 Inventory assignment: ${report.substitutedBeads} beads substituted, ${report.shortfall.length} colors short`)
+  
+  const colorUsage = analyzeColorUsage(pixels)
+  const totalDistance = pixels.reduce((sum, p) => sum + p.matchingDistance, 0)
+  const averageDistance = totalDistance / pixels.length
+  const qualityScore = Math.max(0, 1 - (averageDistance / 30))
+  
+  return {
+    catalogId: catalog.id,
+    fullMatchedPixels: pixels,
+    colorUsage,
+    reducedPalette: palette,
+    config,
+    statistics: {
+      totalPixels: pixels.length,
+      originalColorCount: palette.length,
+      reducedColorCount: colorUsage.length,
+      targetColorCount: palette.length,
+      averageMatchingDistance: averageDistance,
+      reductionStrategy: `Inventory only (${palette.length} owned colors, ${report.substitutedBeads} beads substituted)`,
+      qualityScore,
+      inventory: report
+    }
+  }
+}
+
+/**
+ * Owned colors and their quantities, keyed by the resolved drill code.
+ * Entries spelling the same drill differently (e.g. "310ab" and "310AB") are merged.
+ */
+export function collectInventoryQuantities(
+  catalog: DrillCatalog,
+  inventory: DrillInventoryItem[]
+): { palette: DMCColor[], quantities: Map<string, number> } {
+  const quantities = new Map<string, number>()
+  const palette: DMCColor[] = []
+  
+  for (const item of inventory) {
+    const dmcColor = resolveDrillCode(catalog, item.code)
+    if (!dmcColor || item.quantity <= 0) {
+      console.warn(`⚠️ Inventory entry ignored: ${item.code}`)
+      continue
+    }
+    if (!quantities.has(dmcColor.code)) {
+      palette.push(dmcColor)
+    }
+    quantities.set(dmcColor.code, (quantities.get(dmcColor.code) || 0) + item.quantity)
+  }
+  
+  return { palette, quantities }
+}
+
+/**
+ * Reassign beads so no color uses more drills than owned.
+ * Beads that would lose the most by switching (largest regret) keep their nearest color first;
+ * the rest fall back to their next-best color that still has drills left.
+ * If the whole inventory runs out, remaining beads keep their nearest color and show up as shortfall.
+ */
+export function assignWithInventoryLimits(
+  pixels: FullMatchedPixel[],
+  palette: DMCColor[],
+  quantities: Map<string, number>
+): { pixels: FullMatchedPixel[], report: InventoryUsageReport } {
+  const paletteLabs = palette.map(dmc => ({ dmc, lab: getCatalogColorLab(dmc) }))
+  const candidateCount = Math.min(8, palette.length)
+  
+  // Rank the nearest candidates for each bead
+  const candidates: Array<Array<{ index: number, distance: number }>> = pixels.map(pixel => {
+    const targetLab = rgbToLab(pixel.averageColor)
+    const ranked = paletteLabs.map((entry, index) => ({ index, distance: deltaE2000(targetLab, entry.lab) }))
+    ranked.sort((a, b) => a.distance - b.distance)
+    return ranked.slice(0, candidateCount)
+  })
+  
+  const regret = (i: number): number => {
+    const ranked = candidates[i]
+    return ranked.length > 1 ? ranked[1].distance - ranked[0].distance : Infinity
+  }
+  const order = pixels.map((_, i) => i).sort((a, b) => regret(b) - regret(a))
+  
+  const remaining = palette.map(dmc => quantities.get(dmc.code) || 0)
+  const result: FullMatchedPixel[] = pixels.slice()
+  let substitutedBeads = 0
+  
+  for (const i of order) {
+    const ranked = candidates[i]
+    let choice = ranked.find(candidate => remaining[candidate.index] > 0)
+    
+    if (!choice) {
+      // Nearest candidates exhausted: search the rest of the inventory
+      const targetLab = rgbToLab(pixels[i].averageColor)
+      let best: { index: number, distance: number } | undefined
+      for (let index = 0; index < paletteLabs.length; index++) {
+        if (remaining[index] <= 0) continue
+        const distance = deltaE2000(targetLab, paletteLabs[index].lab)
+        if (!best || distance < best.distance) {
+          best = { index, distance }
+        }
+      }
+      // Inventory fully used up: keep the nearest color and report the shortfall
+      choice = best || ranked[0]
+    }
+    
+    remaining[choice.index]--
+    if (choice.index !== ranked[0].index) {
+      substitutedBeads++
+    }
+    
+    result[i] = {
+      ...pixels[i],
+      matchedDMCColor: paletteLabs[choice.index].dmc,
+      matchingDistance: choice.distance
+    }
+  }
+  
+  const shortfall: InventoryShortfall[] = []
+  palette.forEach((dmcColor, index) => {
+    if (remaining[index] < 0) {
+      const owned = quantities.get(dmcColor.code) || 0
+      shortfall.push({
+        dmcColor,
+        owned,
+        required: owned - remaining[index],
+        shortfall: -remaining[index]
+      })
+    }
+  })
+  shortfall.sort((a, b) => b.shortfall - a.shortfall)
+  
+  let totalOwned = 0
+  quantities.forEach(quantity => { totalOwned += quantity })
+  
+  return {
+    pixels: result,
+    report: {
+      totalOwned,
+      substitutedBeads,
+      shortfall
+    }
+  }
+}
+
 /**
  * Remap pixels to reduced palette
  */
@@ -1002,7 +2153,7 @@ function remapPixelsToReducedPalette(
 ): FullMatchedPixel[] {
   const reducedLabs = reducedPalette.map(dmc => ({
     dmc,
-    lab: DMC_LAB_CACHE.get(dmc.code)!
+    lab: getCatalogColorLab(dmc)
   }))
   
   return pixels.map(pixel => {
@@ -1020,4 +2171,451 @@ function remapPixelsToReducedPalette(
       matchingDistance: distance
     }
   })
-}
\ No newline at end of file
+}
+
+// =============================================================================
+// CONFETTI CLEANUP: Merge small connected color regions into neighbours
+// =============================================================================
+
+/**
+ * Find 4-connected regions of the same DMC color smaller than minRegionSize and
+ * recolor each one with the neighbouring color that adds the least deltaE2000
+ * against the beads' source colors. Runs a few passes so merged islands that are
+ * still too small get another chance.
+ */
+export function cleanupIsolatedBeads(
+  pixels: FullMatchedPixel[],
+  config: PixelizationConfig,
+  minRegionSize: number
+): { pixels: FullMatchedPixel[], report: ConfettiCleanupReport } {
+  const width = config.beadGridWidth
+  const height = config.beadGridHeight
+  const cellCount = width * height
+  
+  const emptyReport: ConfettiCleanupReport = {
+    minRegionSize,
+    regionsMerged: 0,
+    changedBeads: 0,
+    addedError: 0,
+    averageAddedError: 0
+  }
+  if (minRegionSize <= 1 || pixels.length === 0) {
+    return { pixels, report: emptyReport }
+  }
+  
+  // Grid of pixel indices and current color codes
+  const pixelIndex = new Int32Array(cellCount).fill(-1)
+  const codes: Array<string | null> = new Array(cellCount).fill(null)
+  const colorByCode = new Map<string, DMCColor>()
+  
+  pixels.forEach((pixel, i) => {
+    if (pixel.x < width && pixel.y < height) {
+      const cell = pixel.y * width + pixel.x
+      pixelIndex[cell] = i
+      codes[cell] = pixel.matchedDMCColor.code
+      colorByCode.set(pixel.matchedDMCColor.code, pixel.matchedDMCColor)
+    }
+  })
+  
+  const sourceLabs: Array<LABColor | undefined> = new Array(cellCount)
+  const getSourceLab = (cell: number): LABColor => {
+    let lab = sourceLabs[cell]
+    if (!lab) {
+      lab = rgbToLab(pixels[pixelIndex[cell]].averageColor)
+      sourceLabs[cell] = lab
+    }
+    return lab
+  }
+  const getCodeLab = (code: string): LABColor => getCatalogColorLab(colorByCode.get(code)!)
+  
+  const newDistances = new Map<number, number>() // cell → distance after cleanup
+  const regionStamp = new Int32Array(cellCount).fill(-1)
+  let regionId = 0
+  let regionsMerged = 0
+  const maxPasses = 3
+  
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const processed = new Uint8Array(cellCount)
+    let mergedThisPass = 0
+    
+    for (let start = 0; start < cellCount; start++) {
+      if (processed[start] || codes[start] === null) continue
+      
+      // Flood fill the region containing this cell
+      const code = codes[start]!
+      const region: number[] = [start]
+      regionStamp[start] = regionId
+      for (let r = 0; r < region.length; r++) {
+        const cell = region[r]
+        processed[cell] = 1
+        const x = cell % width
+        const y = (cell - x) / width
+        const neighbors = [
+          x > 0 ? cell - 1 : -1,
+          x < width - 1 ? cell + 1 : -1,
+          y > 0 ? cell - width : -1,
+          y < height - 1 ? cell + width : -1
+        ]
+        for (const n of neighbors) {
+          if (n >= 0 && regionStamp[n] !== regionId && codes[n] === code) {
+            regionStamp[n] = regionId
+            region.push(n)
+          }
+        }
+      }
+      
+      if (region.length < minRegionSize) {
+        // Collect neighbouring colors and their shared border length
+        const borderCounts = new Map<string, number>()
+        for (const cell of region) {
+          const x = cell % width
+          const y = (cell - x) / width
+          const neighbors = [
+            x > 0 ? cell - 1 : -1,
+            x < width - 1 ? cell + 1 : -1,
+            y > 0 ? cell - width : -1,
+            y < height - 1 ? cell + width : -1
+          ]
+          for (const n of neighbors) {
+            const neighborCode = n >= 0 ? codes[n] : null
+            if (neighborCode !== null && neighborCode !== code) {
+              borderCounts.set(neighborCode, (borderCounts.get(neighborCode) || 0) + 1)
+            }
+          }
+        }
+        
+        // Pick the neighbour color with the lowest total deltaE for the region
+        let bestCode: string | null = null
+        let bestError = Infinity
+        let bestBorder = 0
+        borderCounts.forEach((border, candidateCode) => {
+          const candidateLab = getCodeLab(candidateCode)
+          let error = 0
+          for (const cell of region) {
+            error += deltaE2000(getSourceLab(cell), candidateLab)
+          }
+          if (error < bestError || (error === bestError && border > bestBorder)) {
+            bestCode = candidateCode
+            bestError = error
+            bestBorder = border
+          }
+        })
+        
+        if (bestCode !== null) {
+          const targetLab = getCodeLab(bestCode)
+          for (const cell of region) {
+            codes[cell] = bestCode
+            newDistances.set(cell, deltaE2000(getSourceLab(cell), targetLab))
+          }
+          mergedThisPass++
+        }
+      }
+      
+      regionId++
+    }
+    
+    regionsMerged += mergedThisPass
+    if (mergedThisPass === 0) break
+  }
+  
+  // Rebuild pixels for every cell whose color actually changed
+  let changedBeads = 0
+  let addedError = 0
+  const result = pixels.slice()
+  newDistances.forEach((distance, cell) => {
+    const i = pixelIndex[cell]
+    const original = pixels[i]
+    const code = codes[cell]!
+    if (code === original.matchedDMCColor.code) return
+    
+    changedBeads++
+    addedError += distance - original.matchingDistance
+    result[i] = {
+      ...original,
+      matchedDMCColor: colorByCode.get(code)!,
+      matchingDistance: distance
+    }
+  })
+  
+  return {
+    pixels: result,
+    report: {
+      minRegionSize,
+      regionsMerged,
+      changedBeads,
+      addedError,
+      averageAddedError: changedBeads > 0 ? addedError / changedBeads : 0
+    }
+  }
+}
+
+// =============================================================================
+// DITHERING: Error diffusion and ordered dithering in LAB space
+// =============================================================================
+
+interface DiffusionTap {
+  dx: number
+  dy: number
+  weight: number
+}
+
+// Floyd–Steinberg distributes the full error to 4 neighbours
+const FLOYD_STEINBERG_KERNEL: DiffusionTap[] = [
+  { dx: 1, dy: 0, weight: 7 / 16 },
+  { dx: -1, dy: 1, weight: 3 / 16 },
+  { dx: 0, dy: 1, weight: 5 / 16 },
+  { dx: 1, dy: 1, weight: 1 / 16 }
+]
+
+// Atkinson only diffuses 6/8 of the error, which keeps flat areas cleaner
+const ATKINSON_KERNEL: DiffusionTap[] = [
+  { dx: 1, dy: 0, weight: 1 / 8 },
+  { dx: 2, dy: 0, weight: 1 / 8 },
+  { dx: -1, dy: 1, weight: 1 / 8 },
+  { dx: 0, dy: 1, weight: 1 / 8 },
+  { dx: 1, dy: 1, weight: 1 / 8 },
+  { dx: 0, dy: 2, weight: 1 / 8 }
+]
+
+// 4x4 Bayer threshold matrix (values 0-15)
+const BAYER_MATRIX_4X4: number[][] = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5]
+]
+
+/**
+ * Map pixels onto a palette using dithering instead of independent nearest-color snapping.
+ * Error is accumulated in LAB space and candidates are ranked by deltaE2000, so gradients
+ * survive even when the palette has been reduced to a few dozen colors.
+ * matchingDistance always reports the distance to the bead's original (undithered) color.
+ */
+export function ditherPixelsToPalette(
+  pixels: FullMatchedPixel[],
+  config: PixelizationConfig,
+  palette: DMCColor[],
+  options: DitheringOptions
+): FullMatchedPixel[] {
+  if (palette.length === 0) {
+    throw new Error('Palette cannot be empty')
+  }
+  
+  const width = config.beadGridWidth
+  const height = config.beadGridHeight
+  const strength = Math.max(0, Math.min(1, options.strength))
+  
+  const paletteLabs = palette.map(dmc => ({
+    dmc,
+    lab: getCatalogColorLab(dmc)
+  }))
+  
+  // Index pixels by grid position
+  const grid: Array<FullMatchedPixel | undefined> = new Array(width * height)
+  for (const pixel of pixels) {
+    if (pixel.x < width && pixel.y < height) {
+      grid[pixel.y * width + pixel.x] = pixel
+    }
+  }
+  
+  const result: Array<FullMatchedPixel | undefined> = new Array(width * height)
+  
+  if (options.mode === 'ordered') {
+    const spread = estimatePaletteSpread(paletteLabs.map(p => p.lab))
+    
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pixel = grid[y * width + x]
+        if (!pixel) continue
+        
+        const originalLab = rgbToLab(pixel.averageColor)
+        const threshold = (BAYER_MATRIX_4X4[y % 4][x % 4] + 0.5) / 16 - 0.5
+        const targetLab: LABColor = {
+          l: clampLab(originalLab.l + threshold * spread * strength, 0, 100),
+          a: originalLab.a,
+          b: originalLab.b
+        }
+        
+        const { dmcColor } = findClosestDMCForLab(targetLab, paletteLabs)
+        result[y * width + x] = {
+          ...pixel,
+          matchedDMCColor: dmcColor,
+          matchingDistance: deltaE2000(originalLab, getCatalogColorLab(dmcColor))
+        }
+      }
+    }
+  } else if (options.mode === 'floyd-steinberg' || options.mode === 'atkinson') {
+    const kernel = options.mode === 'atkinson' ? ATKINSON_KERNEL : FLOYD_STEINBERG_KERNEL
+    const errorL = new Float32Array(width * height)
+    const errorA = new Float32Array(width * height)
+    const errorB = new Float32Array(width * height)
+    
+    for (let y = 0; y < height; y++) {
+      // Serpentine scan avoids the directional "worm" artifacts of plain raster order
+      const leftToRight = y % 2 === 0
+      
+      for (let step = 0; step < width; step++) {
+        const x = leftToRight ? step : width - 1 - step
+        const index = y * width + x
+        const pixel = grid[index]
+        if (!pixel) continue
+        
+        const originalLab = rgbToLab(pixel.averageColor)
+        const targetLab: LABColor = {
+          l: clampLab(originalLab.l + errorL[index], 0, 100),
+          a: clampLab(originalLab.a + errorA[index], -128, 127),
+          b: clampLab(originalLab.b + errorB[index], -128, 127)
+        }
+        
+        const { dmcColor } = findClosestDMCForLab(targetLab, paletteLabs)
+        const chosenLab = getCatalogColorLab(dmcColor)
+        
+        result[index] = {
+          ...pixel,
+          matchedDMCColor: dmcColor,
+          matchingDistance: deltaE2000(originalLab, chosenLab)
+        }
+        
+        const diffL = (targetLab.l - chosenLab.l) * strength
+        const diffA = (targetLab.a - chosenLab.a) * strength
+        const diffB = (targetLab.b - chosenLab.b) * strength
+        
+        for (const tap of kernel) {
+          const nx = leftToRight ? x + tap.dx : x - tap.dx
+          const ny = y + tap.dy
+          if (nx < 0 || nx >= width || ny >= height) continue
+          
+          const neighborIndex = ny * width + nx
+          errorL[neighborIndex] += diffL * tap.weight
+          errorA[neighborIndex] += diffA * tap.weight
+          errorB[neighborIndex] += diffB * tap.weight
+        }
+      }
+    }
+  } else {
+    return remapPixelsToReducedPalette(pixels, palette)
+  }
+  
+  return pixels.map(pixel => {
+    const dithered = pixel.x < width && pixel.y < height ? result[pixel.y * width + pixel.x] : undefined
+    return dithered || pixel
+  })
+}
+
+/**
+ * Find closest palette color for a LAB target (deltaE2000)
+ */
+function findClosestDMCForLab(
+  targetLab: LABColor,
+  dmcLabs: Array<{ dmc: DMCColor, lab: LABColor }>
+): { dmcColor: DMCColor, distance: number } {
+  let bestMatch = dmcLabs[0]
+  let bestDistance = deltaE2000(targetLab, bestMatch.lab)
+  
+  for (let i = 1; i < dmcLabs.length; i++) {
+    const distance = deltaE2000(targetLab, dmcLabs[i].lab)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      bestMatch = dmcLabs[i]
+    }
+  }
+  
+  return { dmcColor: bestMatch.dmc, distance: bestDistance }
+}
+
+/**
+ * Estimate the typical lightness gap between neighbouring palette colors.
+ * Used to scale the Bayer threshold so ordered dithering can reach the next palette step.
+ */
+function estimatePaletteSpread(labs: LABColor[]): number {
+  if (labs.length < 2) return 0
+  
+  const lightness = labs.map(lab => lab.l).sort((a, b) => a - b)
+  let totalGap = 0
+  let gapCount = 0
+  
+  for (let i = 1; i < lightness.length; i++) {
+    const gap = lightness[i] - lightness[i - 1]
+    if (gap > 0) {
+      totalGap += gap
+      gapCount++
+    }
+  }
+  
+  const averageGap = gapCount > 0 ? totalGap / gapCount : 0
+  // Lightness alone underestimates spacing for chromatic palettes; keep a sensible floor
+  return Math.max(averageGap, 6)
+}
+
+function clampLab(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+/**
+ * Describe dithering settings for the reduction strategy string
+ */
+function describeDithering(dithering?: DitheringOptions): string {
+  if (!dithering || dithering.mode === 'none' || dithering.strength <= 0) return ''
+  return ` Dithering: ${dithering.mode} (${Math.round(dithering.strength * 100)}%).`
+}
+
+/**
+ * ✨ Place AB drills on highlight regions: within each standard color, the brightest
+ * `percent`% of beads (by L* of the source image cell) switch to that color's AB variant.
+ */
+export function placeABHighlights(
+  pixels: FullMatchedPixel[],
+  catalog: DrillCatalog,
+  percent: number
+): { pixels: FullMatchedPixel[], variants: DMCColor[], report: ABHighlightReport } {
+  const fraction = Math.min(Math.max(percent, 0), 100) / 100
+  
+  // Group bead indices by standard color
+  const groups = new Map<string, number[]>()
+  pixels.forEach((pixel, index) => {
+    if (isSpecialtyDrill(pixel.matchedDMCColor)) return
+    const code = pixel.matchedDMCColor.code
+    const group = groups.get(code)
+    if (group) {
+      group.push(index)
+    } else {
+      groups.set(code, [index])
+    }
+  })
+  
+  const result = pixels.slice()
+  const variants: DMCColor[] = []
+  let beadsPlaced = 0
+  
+  groups.forEach(indices => {
+    const count = Math.floor(indices.length * fraction)
+    if (count === 0) return
+    
+    const lightness = new Map<number, number>()
+    indices.forEach(index => lightness.set(index, rgbToLab(pixels[index].averageColor).l))
+    indices.sort((a, b) => lightness.get(b)! - lightness.get(a)!)
+    
+    const variant = getABVariant(catalog, pixels[indices[0]].matchedDMCColor)
+    variants.push(variant)
+    
+    for (let i = 0; i < count; i++) {
+      const index = indices[i]
+      result[index] = { ...pixels[index], matchedDMCColor: variant }
+    }
+    beadsPlaced += count
+  })
+  
+  return {
+    pixels: result,
+    variants,
+    report: { percent, beadsPlaced, colorsAffected: variants.length }
+  }
+}
+
+/**
+ * Standard drills first, so a specialty drill never wins a tie against its identical base color
+ */
+function orderStandardDrillsFirst(palette: DMCColor[]): DMCColor[] {
+  return palette.filter(color => !isSpecialtyDrill(color))
+    .concat(palette.filter(color => isSpecialtyDrill(color)))
+}
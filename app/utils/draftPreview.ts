@@ -0,0 +1,83 @@
+// Draft Pattern Preview
+// Coarse nearest-color pass shown while the full pipeline runs in the worker:
+// blocks of beads, a few sampled source pixels each, no palette reduction.
+
+import { type DMCColor } from './dmcColors'
+import { createNearestColorIndex, rgbToLab } from './colorMatching'
+import { getCatalogColorLab } from './drillCatalogs'
+import { isSpecialtyDrill } from './drillFinishes'
+import { isCellInShape, type PixelizationConfig } from './imagePixelization'
+
+export interface DraftPreview {
+  imageData: ImageData // One pixel per draft cell; empty cells are transparent
+  blockSize: number // Beads per draft cell side (1 = full bead resolution)
+}
+
+// Draft grids stay under this many cells so the pass takes milliseconds on any image
+const MAX_DRAFT_CELLS = 4096
+
+// Source pixels sampled per draft cell side
+const SAMPLES_PER_SIDE = 4
+
+/**
+ * Nearest catalog color for blocks of beads, fast enough to show before the real pattern.
+ * Specialty drills (AB, glow, ...) are skipped, as in full matching.
+ * Must run before the image is handed to the worker (its pixel buffer is transferred).
+ */
+export function createDraftPreview(
+  imageData: ImageData,
+  config: PixelizationConfig,
+  catalogColors: DMCColor[]
+): DraftPreview {
+  const colors = catalogColors.filter(color => !isSpecialtyDrill(color))
+  const { beadGridWidth, beadGridHeight } = config
+  const blockSize = Math.max(1, Math.ceil(Math.sqrt((beadGridWidth * beadGridHeight) / MAX_DRAFT_CELLS)))
+  const width = Math.ceil(beadGridWidth / blockSize)
+  const height = Math.ceil(beadGridHeight / blockSize)
+  const draft = new ImageData(width, height)
+  const index = createNearestColorIndex(colors.map(color => getCatalogColorLab(color)))
+
+  const scaleX = imageData.width / beadGridWidth
+  const scaleY = imageData.height / beadGridHeight
+  const { data } = imageData
+
+  for (let cellY = 0; cellY < height; cellY++) {
+    for (let cellX = 0; cellX < width; cellX++) {
+      const beadX = cellX * blockSize
+      const beadY = cellY * blockSize
+      const centerBeadX = Math.min(beadX + (blockSize >> 1), beadGridWidth - 1)
+      const centerBeadY = Math.min(beadY + (blockSize >> 1), beadGridHeight - 1)
+      if (!isCellInShape(config, centerBeadX, centerBeadY)) continue
+
+      // Alpha-weighted mean of a small sample grid spread over the block's source region
+      const startX = beadX * scaleX
+      const startY = beadY * scaleY
+      const spanX = Math.min(blockSize, beadGridWidth - beadX) * scaleX
+      const spanY = Math.min(blockSize, beadGridHeight - beadY) * scaleY
+      let r = 0, g = 0, b = 0, alpha = 0
+      for (let sy = 0; sy < SAMPLES_PER_SIDE; sy++) {
+        const y = Math.min(imageData.height - 1, Math.floor(startY + (sy + 0.5) * spanY / SAMPLES_PER_SIDE))
+        for (let sx = 0; sx < SAMPLES_PER_SIDE; sx++) {
+          const x = Math.min(imageData.width - 1, Math.floor(startX + (sx + 0.5) * spanX / SAMPLES_PER_SIDE))
+          const offset = (y * imageData.width + x) * 4
+          const a = data[offset + 3]
+          r += data[offset] * a
+          g += data[offset + 1] * a
+          b += data[offset + 2] * a
+          alpha += a
+        }
+      }
+      // Mostly transparent blocks stay empty, like transparent cells in the real pattern
+      if (alpha < 128 * SAMPLES_PER_SIDE * SAMPLES_PER_SIDE) continue
+
+      const match = colors[index.findNearest(rgbToLab({ r: r / alpha, g: g / alpha, b: b / alpha })).index]
+      const offset = (cellY * width + cellX) * 4
+      draft.data[offset] = match.r
+      draft.data[offset + 1] = match.g
+      draft.data[offset + 2] = match.b
+      draft.data[offset + 3] = 255
+    }
+  }
+
+  return { imageData: draft, blockSize }
+}
@@ -0,0 +1,224 @@
+// Drill Catalog Registry and Cross-Brand Conversion
+// DMC is built in; other brands are registered from catalog files (code, name, hex)
+
+import { DMC_COLORS, DMC_COLOR_MAP, DMC_CODES, type DMCColor } from './dmcColors'
+import { rgbToLab, deltaE2000, type LABColor } from './colorMatching'
+import { parseDrillFinish, DRILL_FINISHES } from './drillFinishes'
+
+export interface DrillCatalog {
+  id: string
+  name: string // Brand name shown in legends, e.g. "DMC"
+  colors: DMCColor[]
+  colorMap: Map<string, DMCColor>
+  codes: string[]
+  builtIn: boolean
+}
+
+export interface CrossReferenceEntry {
+  source: DMCColor
+  match: DMCColor
+  deltaE: number
+}
+
+export const DEFAULT_CATALOG_ID = 'dmc'
+
+export const DMC_CATALOG: DrillCatalog = {
+  id: DEFAULT_CATALOG_ID,
+  name: 'DMC',
+  colors: DMC_COLORS,
+  colorMap: DMC_COLOR_MAP,
+  codes: DMC_CODES,
+  builtIn: true
+}
+
+const USER_CATALOG_STORAGE_KEY = 'drillCatalogs'
+
+// Registry of available catalogs (insertion order = display order)
+const catalogRegistry = new Map<string, DrillCatalog>([[DMC_CATALOG.id, DMC_CATALOG]])
+
+// LAB values are cached per color object, so overlapping codes across brands never collide
+const catalogLabCache = new WeakMap<DMCColor, LABColor>()
+
+/**
+ * Get (cached) LAB value for a catalog color
+ */
+export function getCatalogColorLab(color: DMCColor): LABColor {
+  let lab = catalogLabCache.get(color)
+  if (!lab) {
+    lab = rgbToLab(color)
+    catalogLabCache.set(color, lab)
+  }
+  return lab
+}
+
+/**
+ * Get a catalog by id (falls back to DMC when unknown)
+ */
+export function getDrillCatalog(catalogId?: string): DrillCatalog {
+  if (!catalogId) return DMC_CATALOG
+  return catalogRegistry.get(catalogId) || DMC_CATALOG
+}
+
+/**
+ * List all registered catalogs
+ */
+export function getDrillCatalogs(): DrillCatalog[] {
+  return Array.from(catalogRegistry.values())
+}
+
+/**
+ * Create a catalog from a list of colors
+ */
+export function createDrillCatalog(id: string, name: string, colors: DMCColor[]): DrillCatalog {
+  if (colors.length === 0) {
+    throw new Error('Catalog must contain at least one color')
+  }
+
+  const colorMap = new Map<string, DMCColor>()
+  colors.forEach(color => colorMap.set(color.code, color))
+
+  return { id, name, colors, colorMap, codes: colors.map(color => color.code), builtIn: false }
+}
+
+/**
+ * Register (or replace) a catalog. Built-in catalogs cannot be replaced.
+ */
+export function registerDrillCatalog(catalog: DrillCatalog): void {
+  const existing = catalogRegistry.get(catalog.id)
+  if (existing?.builtIn) {
+    throw new Error(`Catalog "${catalog.id}" is built in and cannot be replaced`)
+  }
+  catalogRegistry.set(catalog.id, catalog)
+}
+
+/**
+ * Parse a brand catalog file. One color per line: code,name,hex[,finish] (header line optional).
+ * Hex may be written with or without '#'. Finish is AB, fluorescent, glow or metallic.
+ */
+export function parseDrillCatalogCSV(text: string, id: string, name: string): DrillCatalog {
+  const colors: DMCColor[] = []
+
+  text.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) return
+
+    const fields = trimmed.split(/[,;\t]/).map(field => field.trim().replace(/^"|"$/g, ''))
+    if (fields.length < 3) return
+
+    const [code, colorName, hexField] = fields
+    const hex = hexField.replace(/^#/, '').toLowerCase()
+    if (!/^[0-9a-f]{6}$/.test(hex)) return // Skips header and malformed lines
+
+    const color: DMCColor = {
+      code,
+      name: colorName,
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+      hex
+    }
+
+    const finish = fields[3] ? parseDrillFinish(fields[3]) : 'standard'
+    if (finish !== 'standard') {
+      const suffix = DRILL_FINISHES[finish].suffix
+      color.finish = finish
+      if (code.toUpperCase().endsWith(suffix) && code.length > suffix.length) {
+        color.baseCode = code.slice(0, -suffix.length)
+      }
+    }
+
+    colors.push(color)
+  })
+
+  return createDrillCatalog(id, name, colors)
+}
+
+/**
+ * Load user catalogs saved in localStorage into the registry
+ */
+export function loadStoredDrillCatalogs(): DrillCatalog[] {
+  try {
+    const stored = localStorage.getItem(USER_CATALOG_STORAGE_KEY)
+    if (!stored) return []
+
+    const parsed: Array<{ id: string, name: string, colors: DMCColor[] }> = JSON.parse(stored)
+    const catalogs = parsed.map(entry => createDrillCatalog(entry.id, entry.name, entry.colors))
+    catalogs.forEach(catalog => {
+      if (!catalogRegistry.get(catalog.id)?.builtIn) {
+        catalogRegistry.set(catalog.id, catalog)
+      }
+    })
+    return catalogs
+  } catch {
+    // Ignore storage errors (private mode, corrupted data)
+    return []
+  }
+}
+
+/**
+ * Register a catalog and persist it to localStorage
+ */
+export function saveUserDrillCatalog(catalog: DrillCatalog): void {
+  registerDrillCatalog(catalog)
+
+  try {
+    const userCatalogs = getDrillCatalogs()
+      .filter(c => !c.builtIn)
+      .map(c => ({ id: c.id, name: c.name, colors: c.colors }))
+    localStorage.setItem(USER_CATALOG_STORAGE_KEY, JSON.stringify(userCatalogs))
+  } catch {
+    // Registered for this session only
+  }
+}
+
+/**
+ * Remove a user catalog from the registry and storage
+ */
+export function removeUserDrillCatalog(catalogId: string): void {
+  if (catalogRegistry.get(catalogId)?.builtIn) return
+  catalogRegistry.delete(catalogId)
+
+  try {
+    const userCatalogs = getDrillCatalogs()
+      .filter(c => !c.builtIn)
+      .map(c => ({ id: c.id, name: c.name, colors: c.colors }))
+    localStorage.setItem(USER_CATALOG_STORAGE_KEY, JSON.stringify(userCatalogs))
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Find the nearest color in a catalog (deltaE2000)
+ */
+export function findNearestCatalogColor(
+  color: DMCColor,
+  catalog: DrillCatalog
+): { match: DMCColor, deltaE: number } {
+  const sourceLab = getCatalogColorLab(color)
+  let match = catalog.colors[0]
+  let bestDistance = deltaE2000(sourceLab, getCatalogColorLab(match))
+
+  for (let i = 1; i < catalog.colors.length; i++) {
+    const distance = deltaE2000(sourceLab, getCatalogColorLab(catalog.colors[i]))
+    if (distance < bestDistance) {
+      bestDistance = distance
+      match = catalog.colors[i]
+    }
+  }
+
+  return { match, deltaE: bestDistance }
+}
+
+/**
+ * Build a nearest-color cross-reference from a list of colors into another catalog
+ */
+export function buildCrossReference(
+  colors: DMCColor[],
+  targetCatalog: DrillCatalog
+): CrossReferenceEntry[] {
+  return colors.map(source => {
+    const { match, deltaE } = findNearestCatalogColor(source, targetCatalog)
+    return { source, match, deltaE }
+  })
+}
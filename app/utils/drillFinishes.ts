@@ -0,0 +1,123 @@
+// Specialty Drill Finishes
+// AB (aurora borealis), fluorescent, glow-in-the-dark and metallic variants of standard drills
+
+import { type DMCColor, type DrillFinish } from './dmcColors'
+import { type DrillCatalog } from './drillCatalogs'
+
+export type SpecialtyFinish = Exclude<DrillFinish, 'standard'>
+
+export interface DrillFinishInfo {
+  finish: SpecialtyFinish
+  label: string // Shown in legends
+  suffix: string // Appended to the base code, e.g. "310AB"
+}
+
+export const DRILL_FINISHES: Record<SpecialtyFinish, DrillFinishInfo> = {
+  ab: { finish: 'ab', label: 'AB', suffix: 'AB' },
+  fluorescent: { finish: 'fluorescent', label: 'Fluorescent', suffix: 'FL' },
+  glow: { finish: 'glow', label: 'Glow', suffix: 'GL' },
+  metallic: { finish: 'metallic', label: 'Metallic', suffix: 'MT' }
+}
+
+// Variants are cached per base color object so repeated lookups return the same instance
+const variantCache = new WeakMap<DMCColor, Map<SpecialtyFinish, DMCColor>>()
+
+/**
+ * Check whether a drill has a specialty finish
+ */
+export function isSpecialtyDrill(color: DMCColor): boolean {
+  return !!color.finish && color.finish !== 'standard'
+}
+
+/**
+ * Get legend information for a drill's finish (undefined for standard drills)
+ */
+export function getDrillFinishInfo(color: DMCColor): DrillFinishInfo | undefined {
+  if (!color.finish || color.finish === 'standard') return undefined
+  return DRILL_FINISHES[color.finish]
+}
+
+/**
+ * Parse a finish name or code suffix ("AB", "glow", "Metallic", ...)
+ */
+export function parseDrillFinish(value: string): DrillFinish {
+  const normalized = value.trim().toLowerCase()
+  if (!normalized) return 'standard'
+
+  for (const info of Object.values(DRILL_FINISHES)) {
+    if (normalized === info.finish || normalized === info.suffix.toLowerCase() || normalized === info.label.toLowerCase()) {
+      return info.finish
+    }
+  }
+  if (normalized === 'aurora borealis') return 'ab'
+  if (normalized === 'glow-in-the-dark') return 'glow'
+
+  return 'standard'
+}
+
+/**
+ * Create the specialty variant of a standard drill (same base color, suffixed code)
+ */
+export function createDrillVariant(base: DMCColor, finish: SpecialtyFinish): DMCColor {
+  let variants = variantCache.get(base)
+  if (!variants) {
+    variants = new Map()
+    variantCache.set(base, variants)
+  }
+
+  let variant = variants.get(finish)
+  if (!variant) {
+    const info = DRILL_FINISHES[finish]
+    variant = {
+      ...base,
+      code: `${base.code}${info.suffix}`,
+      name: `${base.name} (${info.label})`,
+      finish,
+      baseCode: base.code
+    }
+    variants.set(finish, variant)
+  }
+
+  return variant
+}
+
+/**
+ * Resolve a drill code in a catalog, including specialty codes like "310AB".
+ * Codes listed in the catalog win; otherwise the suffix is applied to the base color.
+ */
+export function resolveDrillCode(catalog: DrillCatalog, code: string): DMCColor | undefined {
+  const listed = catalog.colorMap.get(code)
+  if (listed) return listed
+
+  for (const info of Object.values(DRILL_FINISHES)) {
+    if (code.length > info.suffix.length && code.toUpperCase().endsWith(info.suffix)) {
+      const base = catalog.colorMap.get(code.slice(0, -info.suffix.length))
+      if (base && !isSpecialtyDrill(base)) {
+        return createDrillVariant(base, info.finish)
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Find the AB variant of a drill, preferring an AB drill listed in the catalog
+ */
+export function getABVariant(catalog: DrillCatalog, base: DMCColor): DMCColor {
+  const listed = catalog.colors.find(color => color.finish === 'ab' && color.baseCode === base.code)
+  return listed || resolveDrillCode(catalog, `${base.code}${DRILL_FINISHES.ab.suffix}`) || createDrillVariant(base, 'ab')
+}
+
+/**
+ * Corner mark drawn on specialty drill cells: a triangle in the top-right corner.
+ * Returns the triangle vertices for a cell at (x, y) with the given size.
+ */
+export function getFinishMarkPoints(x: number, y: number, size: number): [number, number][] {
+  const markSize = size * 0.35
+  return [
+    [x + size - markSize, y],
+    [x + size, y],
+    [x + size, y + markSize]
+  ]
+}
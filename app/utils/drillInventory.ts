@@ -0,0 +1,142 @@
+// Personal Drill Inventory (IndexedDB)
+// Records which drill colors the user owns and how many, per brand catalog
+
+export interface DrillInventoryItem {
+  code: string
+  quantity: number // Number of drills owned
+}
+
+interface DrillInventoryRecord extends DrillInventoryItem {
+  id: string // `${catalogId}:${code}`
+  catalogId: string
+  updatedAt: number
+}
+
+const DB_NAME = 'DrillInventory'
+const DB_VERSION = 1
+const STORE_NAME = 'inventory'
+
+/**
+ * Open the inventory database
+ */
+function openInventoryDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onerror = () => reject(request.error || new Error('Failed to open inventory database'))
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex('catalogId', 'catalogId', { unique: false })
+      }
+    }
+
+    request.onsuccess = (event) => {
+      resolve((event.target as IDBOpenDBRequest).result)
+    }
+  })
+}
+
+/**
+ * Get all inventory items for a catalog
+ */
+export async function getDrillInventory(catalogId: string): Promise<DrillInventoryItem[]> {
+  const db = await openInventoryDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readonly')
+    const index = transaction.objectStore(STORE_NAME).index('catalogId')
+    const request = index.getAll(catalogId)
+
+    request.onsuccess = () => {
+      const records = request.result as DrillInventoryRecord[]
+      resolve(records.map(record => ({ code: record.code, quantity: record.quantity })))
+    }
+    request.onerror = () => reject(request.error || new Error('Failed to read inventory'))
+    transaction.oncomplete = () => db.close()
+  })
+}
+
+/**
+ * Set the owned quantity for a color (quantity <= 0 removes the entry)
+ */
+export async function setDrillInventoryQuantity(
+  catalogId: string,
+  code: string,
+  quantity: number
+): Promise<void> {
+  if (quantity <= 0) {
+    return removeDrillInventoryItem(catalogId, code)
+  }
+
+  const db = await openInventoryDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite')
+    const record: DrillInventoryRecord = {
+      id: `${catalogId}:${code}`,
+      catalogId,
+      code,
+      quantity: Math.floor(quantity),
+      updatedAt: Date.now()
+    }
+    transaction.objectStore(STORE_NAME).put(record)
+
+    transaction.oncomplete = () => {
+      db.close()
+      resolve()
+    }
+    transaction.onerror = () => reject(transaction.error || new Error('Failed to save inventory'))
+  })
+}
+
+/**
+ * Remove a color from the inventory
+ */
+export async function removeDrillInventoryItem(catalogId: string, code: string): Promise<void> {
+  const db = await openInventoryDB()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite')
+    transaction.objectStore(STORE_NAME).delete(`${catalogId}:${code}`)
+
+    transaction.oncomplete = () => {
+      db.close()
+      resolve()
+    }
+    transaction.onerror = () => reject(transaction.error || new Error('Failed to remove inventory item'))
+  })
+}
+
+/**
+ * Remove every inventory entry for a catalog
+ */
+export async function clearDrillInventory(catalogId: string): Promise<void> {
+  const items = await getDrillInventory(catalogId)
+  for (const item of items) {
+    await removeDrillInventoryItem(catalogId, item.code)
+  }
+}
+
+/**
+ * Parse bulk inventory input: "310:500, 817:200" or one "code quantity" per line
+ */
+export function parseInventoryInput(input: string): DrillInventoryItem[] {
+  const items: DrillInventoryItem[] = []
+
+  input.split(/[,\n]/).forEach(part => {
+    const match = part.trim().match(/^([^\s:=]+)\s*[:=\s]\s*(\d+)$/)
+    if (match) {
+      items.push({ code: match[1], quantity: parseInt(match[2], 10) })
+    }
+  })
+
+  return items
+}
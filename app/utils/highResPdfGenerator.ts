@@ -4,7 +4,9 @@
 import jsPDF from 'jspdf'
 import { assignIconsToColors } from './iconPlacement'
 import { DMCFirstPattern } from '../hooks/useDMCFirstPatternGeneration'
+import { forEachBead, getCellColor, getUsedColors } from './patternGrid'
 import { createIconSVGForPDF, convertSVGToPNG } from './svgIconGenerator'
+import { isSpecialtyDrill, getDrillFinishInfo, getFinishMarkPoints, type DrillFinishInfo } from './drillFinishes'
 
 interface MemoryConfig {
   maxMemoryMB: number
@@ -28,6 +30,7 @@ interface ColorTableEntry {
   icon: any
   count: number
   percentage: number
+  finish?: DrillFinishInfo
 }
 
 /**
@@ -88,27 +91,6 @@ function calculateMemorySafeParams(
   }
 }
 
-/**
- * Create pattern grid for icon assignment
- */
-function createPatternGrid(pattern: DMCFirstPattern): Array<Array<string>> {
-  const grid: Array<Array<string>> = []
-  const width = pattern.config.beadGridWidth
-  const height = pattern.config.beadGridHeight
-  
-  for (let y = 0; y < height; y++) {
-    grid[y] = new Array(width).fill('')
-  }
-  
-  for (const pixel of pattern.constrainedPixels) {
-    if (pixel.x < width && pixel.y < height) {
-      grid[pixel.y][pixel.x] = pixel.selectedDMCColor.code
-    }
-  }
-  
-  return grid
-}
-
 /**
  * Render pattern tile with high-resolution SVG icons
  * Memory-efficient: processes one tile at a time
@@ -159,30 +141,57 @@ async function renderPatternTile(
   const endBeadY = Math.ceil(tileEndY / beadSizeMm)
   
   // Draw beads in this tile
-  for (const pixel of pattern.constrainedPixels) {
-    if (pixel.x >= startBeadX && pixel.x < endBeadX && 
-        pixel.y >= startBeadY && pixel.y < endBeadY) {
+  for (let beadY = startBeadY; beadY < endBeadY; beadY++) {
+    for (let beadX = startBeadX; beadX < endBeadX; beadX++) {
+      const color = getCellColor(pattern.grid, beadX, beadY)
+      if (!color) continue
       
       // Calculate position within tile
-      const beadWorldX = pixel.x * beadSizeMm
-      const beadWorldY = pixel.y * beadSizeMm
+      const beadWorldX = beadX * beadSizeMm
+      const beadWorldY = beadY * beadSizeMm
       const beadTileX = (beadWorldX - tileStartXMm) * mmToPx
       const beadTileY = (beadWorldY - tileStartYMm) * mmToPx
       
       // Draw bead background
-      ctx.fillStyle = `rgb(${pixel.selectedDMCColor.r}, ${pixel.selectedDMCColor.g}, ${pixel.selectedDMCColor.b})`
+      ctx.fillStyle = `rgb(${color.r}, ${color.g}, ${color.b})`
       ctx.fillRect(beadTileX, beadTileY, beadSizePx, beadSizePx)
       
       // Draw SVG icon directly (no PNG conversion!)
-      const icon = iconAssignments.get(pixel.selectedDMCColor.code)
+      const icon = iconAssignments.get(color.code)
       if (icon) {
         await drawSVGIcon(ctx, icon, beadTileX, beadTileY, beadSizePx, dpi)
       }
+      
+      // Specialty drill corner mark
+      if (isSpecialtyDrill(color)) {
+        const [p1, p2, p3] = getFinishMarkPoints(beadTileX, beadTileY, beadSizePx)
+        ctx.fillStyle = '#000000'
+        ctx.beginPath()
+        ctx.moveTo(p1[0], p1[1])
+        ctx.lineTo(p2[0], p2[1])
+        ctx.lineTo(p3[0], p3[1])
+        ctx.closePath()
+        ctx.fill()
+      }
     }
   }
   
   // Draw grid lines for this tile
-  await drawTileGrid(ctx, tileWidthPx, tileHeightPx, beadSizePx, tileStartXMm, tileStartYMm, tileWidthMm, tileHeightMm, beadSizeMm)
+  if (pattern.config.shapeMask) {
+    // Shaped canvas: outline bead cells only, empty cells stay blank
+    ctx.strokeStyle = '#000000'
+    ctx.lineWidth = Math.max(0.5, beadSizePx * 0.015)
+    ctx.beginPath()
+    forEachBead(pattern.grid, (beadX, beadY) => {
+      if (beadX >= startBeadX && beadX < endBeadX && 
+          beadY >= startBeadY && beadY < endBeadY) {
+        ctx.rect((beadX * beadSizeMm - tileStartXMm) * mmToPx, (beadY * beadSizeMm - tileStartYMm) * mmToPx, beadSizePx, beadSizePx)
+      }
+    })
+    ctx.stroke()
+  } else {
+    await drawTileGrid(ctx, tileWidthPx, tileHeightPx, beadSizePx, tileStartXMm, tileStartYMm, tileWidthMm, tileHeightMm, beadSizeMm)
+  }
   
   return canvas
 }
@@ -294,7 +303,8 @@ function prepareColorTableData(pattern: DMCFirstPattern, iconAssignments: Map<st
         color: { r: dmcColor.r, g: dmcColor.g, b: dmcColor.b },
         icon,
         count: Number(count),
-        percentage: (Number(count) / pattern.statistics.totalPixels) * 100
+        percentage: (Number(count) / pattern.statistics.totalPixels) * 100,
+        finish: getDrillFinishInfo(dmcColor)
       })
     }
   }
@@ -308,7 +318,11 @@ function prepareColorTableData(pattern: DMCFirstPattern, iconAssignments: Map<st
 /**
  * Add color table pages to PDF (A4 portrait, optimized for high-res icons)
  */
-async function addColorTablePages(pdf: any, colorTableData: ColorTableEntry[]): Promise<void> {
+async function addColorTablePages(
+  pdf: any,
+  colorTableData: ColorTableEntry[],
+  title: string = 'DMC Color & Icon Reference'
+): Promise<void> {
   // A4 dimensions for color table
   const pageWidth = 210  // A4 width in mm
   const pageHeight = 297 // A4 height in mm
@@ -355,7 +369,7 @@ async function addColorTablePages(pdf: any, colorTableData: ColorTableEntry[]):
     // Page header
     pdf.setFontSize(16)
     pdf.setFont('helvetica', 'bold')
-    pdf.text('DMC Color & Icon Reference', 20, 30)
+    pdf.text(title, 20, 30)
     
     // Page info
     pdf.setFontSize(12)
@@ -410,6 +424,11 @@ async function addColorTablePages(pdf: any, colorTableData: ColorTableEntry[]):
       pdf.rect(35, yPos - 4, 15, 6, 'F')
       pdf.setDrawColor(0, 0, 0)
       pdf.rect(35, yPos - 4, 15, 6, 'S')
+      if (entry.finish) {
+        const [p1, p2, p3] = getFinishMarkPoints(44, yPos - 4, 6)
+        pdf.setFillColor(0, 0, 0)
+        pdf.triangle(p1[0], p1[1], p2[0], p2[1], p3[0], p3[1], 'F')
+      }
       
       // High-res PNG icon
       const iconXPos = 55
@@ -501,9 +520,8 @@ export async function generateHighResPDF(
   })
   
   // Generate icon assignments
-  const patternGrid = createPatternGrid(pattern)
-  const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
-  const iconAssignments = assignIconsToColors(uniqueColors, patternGrid)
+  const uniqueColors = getUsedColors(pattern.grid).map(color => color.code)
+  const iconAssignments = assignIconsToColors(uniqueColors, pattern.grid)
   
   // Calculate tiling
   const tilesX = Math.ceil(patternWidthMm / memoryConfig.tileSize)
@@ -573,8 +591,14 @@ export async function generateHighResPDF(
   // Add color table if requested
   if (includeColorTable) {
     const colorTableData = prepareColorTableData(pattern, iconAssignments)
-    if (colorTableData.length > 0) {
-      await addColorTablePages(pdf, colorTableData)
+    // Specialty drills (AB, glow, ...) are listed in their own table
+    const standardEntries = colorTableData.filter(entry => !entry.finish)
+    const specialtyEntries = colorTableData.filter(entry => entry.finish)
+    if (standardEntries.length > 0) {
+      await addColorTablePages(pdf, standardEntries)
+    }
+    if (specialtyEntries.length > 0) {
+      await addColorTablePages(pdf, specialtyEntries, 'Specialty Drill Reference (marked corner)')
     }
   }
   
@@ -1,6 +1,7 @@
 // Icon Placement Algorithm for Cross Stitch Patterns
 // Prevents visual confusion by avoiding similar icons in adjacent positions
 
+import { EMPTY_CELL, countPaletteUsage, getCellCode, type PatternGrid } from './patternGrid'
 
 const ICON_ASSIGNMENT_CACHE = new Map<string, Map<string, Icon>>()
 
@@ -973,17 +974,42 @@ function getAdjacentPositions(x: number, y: number, gridWidth: number, gridHeigh
   return adjacent
 }
 
+/**
+ * How often each drill code touches a bead of the given code (8-directional, counted per bead)
+ */
+function countNeighbourColors(patternGrid: PatternGrid, dmcCode: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  const target = patternGrid.palette.findIndex(color => color.code === dmcCode)
+  if (target < 0) return counts
+  
+  const { width, height, cells, palette } = patternGrid
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (cells[y * width + x] !== target) continue
+      
+      for (const adjPos of getAdjacentPositions(x, y, width, height)) {
+        const adjIndex = cells[adjPos.y * width + adjPos.x]
+        if (adjIndex === EMPTY_CELL) continue
+        const adjDmcCode = palette[adjIndex].code
+        counts.set(adjDmcCode, (counts.get(adjDmcCode) || 0) + 1)
+      }
+    }
+  }
+  
+  return counts
+}
+
 /**
  * ENHANCED Smart icon assignment algorithm with priority-based selection
  * Ensures high readability by assigning better icons to frequently used colors
  */
 export function assignIconsToColors(
   dmcCodes: string[],
-  patternGrid: Array<Array<string>>, // DMC codes at each position
+  patternGrid: PatternGrid,
   maxColors: number = AVAILABLE_ICONS.length
 ): Map<string, Icon> {
   // 🚀 CACHE CHECK: 동일한 색상 조합이면 캐시된 결과 반환
-  const cacheKey = createCacheKey(dmcCodes, patternGrid[0]?.length || 0, patternGrid.length)
+  const cacheKey = createCacheKey(dmcCodes, patternGrid.width, patternGrid.height)
   const cachedResult = ICON_ASSIGNMENT_CACHE.get(cacheKey)
   
   if (cachedResult) {
@@ -998,11 +1024,10 @@ export function assignIconsToColors(
   
   // Calculate usage frequency for each color
   const colorUsage = new Map<string, number>()
-  for (const row of patternGrid) {
-    for (const dmcCode of row) {
-      colorUsage.set(dmcCode, (colorUsage.get(dmcCode) || 0) + 1)
-    }
-  }
+  const usageCounts = countPaletteUsage(patternGrid)
+  patternGrid.palette.forEach((color, index) => {
+    if (usageCounts[index] > 0) colorUsage.set(color.code, usageCounts[index])
+  })
   
   // Sort DMC codes by usage frequency (most used first)
   const sortedCodes = dmcCodes.sort((a, b) => {
@@ -1022,6 +1047,7 @@ export function assignIconsToColors(
     let bestIcon: Icon | null = null
     let lowestScore = Infinity
     const usageFrequency = colorUsage.get(dmcCode) || 0
+    const neighbourCounts = countNeighbourColors(patternGrid, dmcCode) // Fixed while this color's icon is chosen
 
     // Try each available icon (prioritized by readability)
     for (const icon of sortedIcons) {
@@ -1032,22 +1058,13 @@ export function assignIconsToColors(
       
       // CONFLICT DETECTION: Check all positions where this color appears
       let conflictCount = 0
-      for (let y = 0; y < patternGrid.length; y++) {
-        for (let x = 0; x < patternGrid[y].length; x++) {
-          if (patternGrid[y][x] !== dmcCode) continue
-
-          const adjacent = getAdjacentPositions(x, y, patternGrid[0].length, patternGrid.length)
-          
-          for (const adjPos of adjacent) {
-            const adjDmcCode = patternGrid[adjPos.y][adjPos.x]
-            const adjIcon = assignments.get(adjDmcCode)
-            
-            if (adjIcon && areIconsTooSimilar(icon, adjIcon)) {
-              conflictCount += 1
-            }
-          }
+      neighbourCounts.forEach((count, adjDmcCode) => {
+        const adjIcon = assignments.get(adjDmcCode)
+        
+        if (adjIcon && areIconsTooSimilar(icon, adjIcon)) {
+          conflictCount += count
         }
-      }
+      })
 
       // SCORING SYSTEM (lower scores are better)
       score += conflictCount * 100  // Heavy penalty for conflicts
@@ -1108,7 +1125,7 @@ export function assignIconsToColors(
  */
 export function validateIconAssignments(
   assignments: Map<string, Icon>,
-  patternGrid: Array<Array<string>>
+  patternGrid: PatternGrid
 ): {
   isValid: boolean
   conflicts: Array<{
@@ -1122,16 +1139,16 @@ export function validateIconAssignments(
 } {
   const conflicts = []
 
-  for (let y = 0; y < patternGrid.length; y++) {
-    for (let x = 0; x < patternGrid[y].length; x++) {
-      const dmcCode1 = patternGrid[y][x]
+  for (let y = 0; y < patternGrid.height; y++) {
+    for (let x = 0; x < patternGrid.width; x++) {
+      const dmcCode1 = getCellCode(patternGrid, x, y)
       const icon1 = assignments.get(dmcCode1)
       if (!icon1) continue
 
-      const adjacent = getAdjacentPositions(x, y, patternGrid[0].length, patternGrid.length)
+      const adjacent = getAdjacentPositions(x, y, patternGrid.width, patternGrid.height)
       
       for (const adjPos of adjacent) {
-        const dmcCode2 = patternGrid[adjPos.y][adjPos.x]
+        const dmcCode2 = getCellCode(patternGrid, adjPos.x, adjPos.y)
         const icon2 = assignments.get(dmcCode2)
         if (!icon2 || dmcCode1 === dmcCode2) continue
 
@@ -1161,7 +1178,7 @@ export function validateIconAssignments(
  */
 export function getIconAssignmentStats(
   assignments: Map<string, Icon>,
-  patternGrid: Array<Array<string>>
+  patternGrid: PatternGrid
 ): {
   totalColors: number
   iconsUsed: number
@@ -1194,7 +1211,7 @@ export function getIconAssignmentStats(
  */
 export function generateIconAssignmentReport(
   assignments: Map<string, Icon>,
-  patternGrid: Array<Array<string>>
+  patternGrid: PatternGrid
 ): string {
   const stats = getIconAssignmentStats(assignments, patternGrid)
   const validation = validateIconAssignments(assignments, patternGrid)
@@ -0,0 +1,281 @@
+// Image Adjustment Pipeline
+// Non-destructive levels, contrast, saturation and white balance applied before pattern generation
+
+import { type RGBColor } from './colorMatching'
+
+export interface ImageAdjustments {
+  brightness: number // -100 to 100
+  contrast: number // -100 to 100
+  gamma: number // 0.2 to 3, 1 = unchanged
+  saturation: number // -100 (grayscale) to 100
+  whiteBalance: RGBColor | null // Picked color that should become neutral gray
+  autoLevels: boolean // Stretch each channel to the full range (clips 0.5% at each end)
+  claheClipLimit: number // CLAHE local contrast, 0 = off, typical 2-4
+}
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  gamma: 1,
+  saturation: 0,
+  whiteBalance: null,
+  autoLevels: false,
+  claheClipLimit: 0
+}
+
+const AUTO_LEVELS_CLIP = 0.005
+const CLAHE_TILES = 8
+
+/**
+ * Check whether any adjustment would change the image
+ */
+export function hasImageAdjustments(adjustments: ImageAdjustments | null | undefined): boolean {
+  if (!adjustments) return false
+  return adjustments.brightness !== 0 ||
+    adjustments.contrast !== 0 ||
+    adjustments.gamma !== 1 ||
+    adjustments.saturation !== 0 ||
+    adjustments.whiteBalance !== null ||
+    adjustments.autoLevels ||
+    adjustments.claheClipLimit > 0
+}
+
+/**
+ * Apply adjustments and return a new ImageData (the source is left untouched).
+ * Order: white balance → auto-levels → brightness/contrast → gamma → saturation → CLAHE.
+ */
+export function applyImageAdjustments(imageData: ImageData, adjustments: ImageAdjustments): ImageData {
+  const data = new Uint8ClampedArray(imageData.data)
+  const result = new ImageData(data, imageData.width, imageData.height)
+  if (!hasImageAdjustments(adjustments)) {
+    return result
+  }
+
+  // Per-pixel tone changes are folded into one lookup table per channel
+  const luts = buildToneLookupTables(imageData, adjustments)
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = luts[0][data[i]]
+    data[i + 1] = luts[1][data[i + 1]]
+    data[i + 2] = luts[2][data[i + 2]]
+  }
+
+  if (adjustments.saturation !== 0) {
+    applySaturation(data, adjustments.saturation)
+  }
+
+  if (adjustments.claheClipLimit > 0) {
+    applyCLAHE(result, adjustments.claheClipLimit)
+  }
+
+  return result
+}
+
+/**
+ * Average a small patch around (x, y) to use as the white balance reference
+ */
+export function sampleWhiteBalanceColor(imageData: ImageData, x: number, y: number, radius: number = 2): RGBColor {
+  let totalR = 0, totalG = 0, totalB = 0
+  let count = 0
+
+  for (let py = Math.max(0, y - radius); py <= Math.min(imageData.height - 1, y + radius); py++) {
+    for (let px = Math.max(0, x - radius); px <= Math.min(imageData.width - 1, x + radius); px++) {
+      const index = (py * imageData.width + px) * 4
+      totalR += imageData.data[index]
+      totalG += imageData.data[index + 1]
+      totalB += imageData.data[index + 2]
+      count++
+    }
+  }
+
+  return {
+    r: Math.round(totalR / count),
+    g: Math.round(totalG / count),
+    b: Math.round(totalB / count)
+  }
+}
+
+/**
+ * Build R, G, B lookup tables combining white balance, auto-levels, brightness, contrast and gamma
+ */
+function buildToneLookupTables(imageData: ImageData, adjustments: ImageAdjustments): Uint8ClampedArray[] {
+  // White balance gains: scale each channel so the reference color becomes gray
+  const gains = [1, 1, 1]
+  const reference = adjustments.whiteBalance
+  if (reference) {
+    const gray = (reference.r + reference.g + reference.b) / 3
+    gains[0] = gray / Math.max(reference.r, 1)
+    gains[1] = gray / Math.max(reference.g, 1)
+    gains[2] = gray / Math.max(reference.b, 1)
+  }
+
+  // Auto-levels ranges are measured after white balance
+  const ranges = adjustments.autoLevels
+    ? measureChannelRanges(imageData, gains)
+    : [[0, 255], [0, 255], [0, 255]]
+
+  const brightnessOffset = adjustments.brightness * 2.55
+  const contrastValue = adjustments.contrast * 2.55
+  const contrastFactor = (259 * (contrastValue + 255)) / (255 * (259 - contrastValue))
+  const inverseGamma = 1 / Math.min(Math.max(adjustments.gamma, 0.2), 3)
+
+  return [0, 1, 2].map(channel => {
+    const lut = new Uint8ClampedArray(256)
+    const [low, high] = ranges[channel]
+    const span = Math.max(high - low, 1)
+
+    for (let value = 0; value < 256; value++) {
+      let v = value * gains[channel]
+      v = ((v - low) / span) * 255
+      v = contrastFactor * (v - 128) + 128 + brightnessOffset
+      v = 255 * Math.pow(Math.min(Math.max(v, 0), 255) / 255, inverseGamma)
+      lut[value] = v
+    }
+
+    return lut
+  })
+}
+
+/**
+ * Per-channel low/high values after clipping AUTO_LEVELS_CLIP of pixels at each end.
+ * Transparent pixels are ignored.
+ */
+function measureChannelRanges(imageData: ImageData, gains: number[]): number[][] {
+  const histograms = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)]
+  let count = 0
+
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    if (imageData.data[i + 3] === 0) continue
+    for (let channel = 0; channel < 3; channel++) {
+      const value = Math.min(255, Math.round(imageData.data[i + channel] * gains[channel]))
+      histograms[channel][value]++
+    }
+    count++
+  }
+
+  const clipCount = Math.floor(count * AUTO_LEVELS_CLIP)
+  return histograms.map(histogram => {
+    let low = 0
+    let accumulated = 0
+    while (low < 255 && accumulated + histogram[low] <= clipCount) {
+      accumulated += histogram[low]
+      low++
+    }
+
+    let high = 255
+    accumulated = 0
+    while (high > low && accumulated + histogram[high] <= clipCount) {
+      accumulated += histogram[high]
+      high--
+    }
+
+    return [low, high]
+  })
+}
+
+/**
+ * Push each channel away from (or towards) the pixel's luma
+ */
+function applySaturation(data: Uint8ClampedArray, saturation: number): void {
+  const factor = 1 + saturation / 100
+
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+    data[i] = luma + (data[i] - luma) * factor
+    data[i + 1] = luma + (data[i + 1] - luma) * factor
+    data[i + 2] = luma + (data[i + 2] - luma) * factor
+  }
+}
+
+/**
+ * Contrast Limited Adaptive Histogram Equalization on luma.
+ * Each tile gets its own clipped-histogram mapping; pixels blend the four nearest tile
+ * mappings bilinearly, and the luma change is added equally to R, G and B to keep hue.
+ */
+function applyCLAHE(imageData: ImageData, clipLimit: number): void {
+  const { width, height, data } = imageData
+  const tilesX = Math.min(CLAHE_TILES, width)
+  const tilesY = Math.min(CLAHE_TILES, height)
+  const tileWidth = width / tilesX
+  const tileHeight = height / tilesY
+
+  const luma = new Uint8Array(width * height)
+  for (let i = 0; i < luma.length; i++) {
+    const index = i * 4
+    luma[i] = Math.round(data[index] * 0.299 + data[index + 1] * 0.587 + data[index + 2] * 0.114)
+  }
+
+  // Mapping table per tile
+  const mappings: Uint8Array[] = []
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const startX = Math.floor(tx * tileWidth)
+      const endX = Math.floor((tx + 1) * tileWidth)
+      const startY = Math.floor(ty * tileHeight)
+      const endY = Math.floor((ty + 1) * tileHeight)
+
+      const histogram = new Uint32Array(256)
+      for (let y = startY; y < endY; y++) {
+        for (let x = startX; x < endX; x++) {
+          histogram[luma[y * width + x]]++
+        }
+      }
+
+      const pixelCount = Math.max(1, (endX - startX) * (endY - startY))
+      mappings.push(buildClippedMapping(histogram, pixelCount, clipLimit))
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    // Position relative to tile centers
+    const gy = Math.min(Math.max((y + 0.5) / tileHeight - 0.5, 0), tilesY - 1)
+    const ty0 = Math.floor(gy)
+    const ty1 = Math.min(ty0 + 1, tilesY - 1)
+    const fy = gy - ty0
+
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(Math.max((x + 0.5) / tileWidth - 0.5, 0), tilesX - 1)
+      const tx0 = Math.floor(gx)
+      const tx1 = Math.min(tx0 + 1, tilesX - 1)
+      const fx = gx - tx0
+
+      const value = luma[y * width + x]
+      const top = mappings[ty0 * tilesX + tx0][value] * (1 - fx) + mappings[ty0 * tilesX + tx1][value] * fx
+      const bottom = mappings[ty1 * tilesX + tx0][value] * (1 - fx) + mappings[ty1 * tilesX + tx1][value] * fx
+      const delta = top * (1 - fy) + bottom * fy - value
+
+      const index = (y * width + x) * 4
+      data[index] += delta
+      data[index + 1] += delta
+      data[index + 2] += delta
+    }
+  }
+}
+
+/**
+ * Equalization mapping for one tile, with the histogram clipped at clipLimit × average bin
+ * height and the excess redistributed evenly
+ */
+function buildClippedMapping(histogram: Uint32Array, pixelCount: number, clipLimit: number): Uint8Array {
+  const limit = Math.max(1, Math.round((clipLimit * pixelCount) / 256))
+  const clipped = new Float64Array(256)
+  let excess = 0
+
+  for (let i = 0; i < 256; i++) {
+    if (histogram[i] > limit) {
+      excess += histogram[i] - limit
+      clipped[i] = limit
+    } else {
+      clipped[i] = histogram[i]
+    }
+  }
+
+  const redistribution = excess / 256
+  const mapping = new Uint8Array(256)
+  let cumulative = 0
+  for (let i = 0; i < 256; i++) {
+    cumulative += clipped[i] + redistribution
+    mapping[i] = Math.min(255, Math.round((cumulative / pixelCount) * 255))
+  }
+
+  return mapping
+}
@@ -1,5 +1,7 @@
 // Image Pixelization Engine for Gem Cross Stitch Pattern Generation
 
+import { createShapeMask, type CanvasShape, type CanvasShapeOption } from './canvasShapes'
+
 export interface BeadConfig {
   type: 'circular' | 'square'
   sizeInMm: number
@@ -12,6 +14,14 @@ export interface PixelizationConfig {
   beadGridWidth: number // number of beads horizontally
   beadGridHeight: number // number of beads vertically
   beadConfig: BeadConfig
+  shapeMask?: ShapeMask // Non-rectangular canvas; cells outside the shape stay empty
+  colorEstimator?: CellColorEstimator // How each bead's color is taken from its source region (default: 'mean')
+}
+
+export interface ShapeMask {
+  shape: CanvasShape
+  cells: Uint8Array // beadGridWidth × beadGridHeight, row-major; 1 = bead, 0 = empty
+  beadCount: number // Cells inside the shape
 }
 
 export interface PixelData {
@@ -21,6 +31,41 @@ export interface PixelData {
   a: number
 }
 
+/**
+ * What happens to transparent areas of PNG sources
+ * - 'empty': cells that are mostly transparent get no drill (partial drill canvas)
+ * - 'background': transparency is filled with a chosen background color
+ */
+export type TransparencyMode = 'empty' | 'background'
+
+/**
+ * How a bead's color is estimated from the source pixels it covers
+ * - 'mean': sRGB arithmetic mean
+ * - 'linear': mean in linear light; thin bright details are not darkened
+ * - 'median': per-channel median; edges stay sharp instead of smearing
+ * - 'mode': dominant color; best for logos, cartoons and other flat art
+ * - 'center-weighted': Gaussian falloff from the cell center
+ */
+export type CellColorEstimator = 'mean' | 'linear' | 'median' | 'mode' | 'center-weighted'
+
+export const CELL_COLOR_ESTIMATORS: Array<{ value: CellColorEstimator, label: string }> = [
+  { value: 'mean', label: 'Average (default)' },
+  { value: 'linear', label: 'Linear-light average (photos)' },
+  { value: 'median', label: 'Median (sharper edges)' },
+  { value: 'mode', label: 'Dominant color (logos, cartoons)' },
+  { value: 'center-weighted', label: 'Center-weighted' }
+]
+
+// Mode estimator groups colors into 5-bit-per-channel bins
+const MODE_BIN_SHIFT = 3
+
+// sRGB (0-255) → linear light (0-1)
+const SRGB_TO_LINEAR = new Float64Array(256)
+for (let i = 0; i < 256; i++) {
+  const c = i / 255
+  SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+}
+
 export interface BeadPixel {
   x: number
   y: number
@@ -50,7 +95,8 @@ export function calculatePixelizationConfig(
   imageWidth: number,
   imageHeight: number,
   beadType: 'circular' | 'square',
-  beadSize?: number
+  beadSize?: number,
+  canvasShape?: CanvasShapeOption
 ): PixelizationConfig {
   const aspectRatio = imageHeight / imageWidth
   const targetHeight = targetWidth * aspectRatio
@@ -64,10 +110,19 @@ export function calculatePixelizationConfig(
     targetHeight,
     beadGridWidth,
     beadGridHeight,
-    beadConfig
+    beadConfig,
+    shapeMask: canvasShape ? createShapeMask(canvasShape, beadGridWidth, beadGridHeight) : undefined
   }
 }
 
+/**
+ * Check whether a grid cell holds a bead (false for empty cells outside the canvas shape)
+ */
+export function isCellInShape(config: PixelizationConfig, x: number, y: number): boolean {
+  const mask = config.shapeMask
+  return !mask || mask.cells[y * config.beadGridWidth + x] === 1
+}
+
 /**
  * Load image data from canvas
  */
@@ -112,7 +167,9 @@ export function getPixelColor(imageData: ImageData, x: number, y: number): Pixel
 }
 
 /**
- * Calculate average color for a region of pixels
+ * Calculate average color for a region of pixels.
+ * RGB is weighted by alpha so transparent pixels (often stored as black) don't darken
+ * anti-aliased edges; `a` is the mean alpha, i.e. how much of the region is covered.
  */
 export function calculateAverageColor(
   imageData: ImageData,
@@ -122,6 +179,7 @@ export function calculateAverageColor(
   endY: number
 ): PixelData {
   let totalR = 0, totalG = 0, totalB = 0, totalA = 0
+  let weightedR = 0, weightedG = 0, weightedB = 0
   let pixelCount = 0
   
   for (let y = startY; y < endY && y < imageData.height; y++) {
@@ -131,6 +189,9 @@ export function calculateAverageColor(
       totalG += pixel.g
       totalB += pixel.b
       totalA += pixel.a
+      weightedR += pixel.r * pixel.a
+      weightedG += pixel.g * pixel.a
+      weightedB += pixel.b * pixel.a
       pixelCount++
     }
   }
@@ -139,14 +200,290 @@ export function calculateAverageColor(
     return { r: 0, g: 0, b: 0, a: 255 }
   }
   
+  if (totalA === 0) {
+    // Fully transparent region: no meaningful color, keep the plain average
+    return {
+      r: Math.round(totalR / pixelCount),
+      g: Math.round(totalG / pixelCount),
+      b: Math.round(totalB / pixelCount),
+      a: 0
+    }
+  }
+  
   return {
-    r: Math.round(totalR / pixelCount),
-    g: Math.round(totalG / pixelCount),
-    b: Math.round(totalB / pixelCount),
+    r: Math.round(weightedR / totalA),
+    g: Math.round(weightedG / totalA),
+    b: Math.round(weightedB / totalA),
     a: Math.round(totalA / pixelCount)
   }
 }
 
+/**
+ * Estimate a bead's color from its source region with the chosen estimator.
+ * Every estimator ignores transparent pixels for RGB; `a` is always the mean alpha
+ * (coverage), as in calculateAverageColor.
+ */
+export function estimateCellColor(
+  imageData: ImageData,
+  startX: number,
+  startY: number,
+  endX: number,
+  endY: number,
+  estimator: CellColorEstimator = 'mean'
+): PixelData {
+  const average = calculateAverageColor(imageData, startX, startY, endX, endY)
+  if (estimator === 'mean' || average.a === 0) {
+    return average
+  }
+  
+  const x1 = Math.min(endX, imageData.width)
+  const y1 = Math.min(endY, imageData.height)
+  if (x1 <= startX || y1 <= startY) {
+    return average
+  }
+  
+  let color: { r: number, g: number, b: number }
+  switch (estimator) {
+    case 'linear':
+      color = linearLightMean(imageData, startX, startY, x1, y1)
+      break
+    case 'median':
+      color = channelMedian(imageData, startX, startY, x1, y1)
+      break
+    case 'mode':
+      color = dominantColor(imageData, startX, startY, x1, y1)
+      break
+    case 'center-weighted':
+      color = centerWeightedMean(imageData, startX, startY, x1, y1)
+      break
+    default:
+      return average
+  }
+  
+  return { r: color.r, g: color.g, b: color.b, a: average.a }
+}
+
+/**
+ * Alpha-weighted mean computed in linear light, converted back to sRGB
+ */
+function linearLightMean(imageData: ImageData, startX: number, startY: number, endX: number, endY: number) {
+  const data = imageData.data
+  let totalR = 0, totalG = 0, totalB = 0, totalA = 0
+  
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const index = (y * imageData.width + x) * 4
+      const alpha = data[index + 3]
+      totalR += SRGB_TO_LINEAR[data[index]] * alpha
+      totalG += SRGB_TO_LINEAR[data[index + 1]] * alpha
+      totalB += SRGB_TO_LINEAR[data[index + 2]] * alpha
+      totalA += alpha
+    }
+  }
+  
+  return {
+    r: linearToSrgb(totalR / totalA),
+    g: linearToSrgb(totalG / totalA),
+    b: linearToSrgb(totalB / totalA)
+  }
+}
+
+function linearToSrgb(value: number): number {
+  const c = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055
+  return Math.round(Math.min(Math.max(c, 0), 1) * 255)
+}
+
+/**
+ * Per-channel median of the visible pixels, via 256-bin histograms
+ */
+function channelMedian(imageData: ImageData, startX: number, startY: number, endX: number, endY: number) {
+  const data = imageData.data
+  const histograms = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)]
+  let count = 0
+  
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const index = (y * imageData.width + x) * 4
+      if (data[index + 3] === 0) continue
+      histograms[0][data[index]]++
+      histograms[1][data[index + 1]]++
+      histograms[2][data[index + 2]]++
+      count++
+    }
+  }
+  
+  const half = count / 2
+  const [r, g, b] = histograms.map(histogram => {
+    let accumulated = 0
+    for (let value = 0; value < 256; value++) {
+      accumulated += histogram[value]
+      if (accumulated >= half) return value
+    }
+    return 255
+  })
+  
+  return { r, g, b }
+}
+
+/**
+ * Most common color bin (alpha-weighted); returns the mean of the pixels in that bin
+ * so the result is not snapped to the bin grid
+ */
+function dominantColor(imageData: ImageData, startX: number, startY: number, endX: number, endY: number) {
+  const data = imageData.data
+  const bins = new Map<number, { weight: number, r: number, g: number, b: number }>()
+  let best: { weight: number, r: number, g: number, b: number } | null = null
+  
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const index = (y * imageData.width + x) * 4
+      const alpha = data[index + 3]
+      if (alpha === 0) continue
+      
+      const key = ((data[index] >> MODE_BIN_SHIFT) << 10) |
+        ((data[index + 1] >> MODE_BIN_SHIFT) << 5) |
+        (data[index + 2] >> MODE_BIN_SHIFT)
+      let bin = bins.get(key)
+      if (!bin) {
+        bin = { weight: 0, r: 0, g: 0, b: 0 }
+        bins.set(key, bin)
+      }
+      bin.weight += alpha
+      bin.r += data[index] * alpha
+      bin.g += data[index + 1] * alpha
+      bin.b += data[index + 2] * alpha
+      
+      if (!best || bin.weight > best.weight) {
+        best = bin
+      }
+    }
+  }
+  
+  return {
+    r: Math.round(best!.r / best!.weight),
+    g: Math.round(best!.g / best!.weight),
+    b: Math.round(best!.b / best!.weight)
+  }
+}
+
+/**
+ * Alpha-weighted mean with a Gaussian falloff (sigma = a quarter of the cell size)
+ */
+function centerWeightedMean(imageData: ImageData, startX: number, startY: number, endX: number, endY: number) {
+  const data = imageData.data
+  const centerX = (startX + endX - 1) / 2
+  const centerY = (startY + endY - 1) / 2
+  const sigma = Math.max(endX - startX, endY - startY) / 4
+  const twoSigmaSquared = 2 * Math.max(sigma * sigma, 0.25)
+  let totalR = 0, totalG = 0, totalB = 0, totalWeight = 0
+  
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const index = (y * imageData.width + x) * 4
+      const dx = x - centerX
+      const dy = y - centerY
+      const weight = Math.exp(-(dx * dx + dy * dy) / twoSigmaSquared) * data[index + 3]
+      totalR += data[index] * weight
+      totalG += data[index + 1] * weight
+      totalB += data[index + 2] * weight
+      totalWeight += weight
+    }
+  }
+  
+  return {
+    r: Math.round(totalR / totalWeight),
+    g: Math.round(totalG / totalWeight),
+    b: Math.round(totalB / totalWeight)
+  }
+}
+
+/**
+ * Check whether an image has any pixel that is not fully opaque
+ */
+export function hasTransparency(imageData: ImageData): boolean {
+  for (let i = 3; i < imageData.data.length; i += 4) {
+    if (imageData.data[i] < 255) return true
+  }
+  return false
+}
+
+/**
+ * Flatten an image onto a solid background color (alpha blending); the result is fully opaque
+ */
+export function compositeOverBackground(imageData: ImageData, background: { r: number, g: number, b: number }): ImageData {
+  const data = new Uint8ClampedArray(imageData.data.length)
+  
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = imageData.data[i + 3] / 255
+    data[i] = imageData.data[i] * alpha + background.r * (1 - alpha)
+    data[i + 1] = imageData.data[i + 1] * alpha + background.g * (1 - alpha)
+    data[i + 2] = imageData.data[i + 2] * alpha + background.b * (1 - alpha)
+    data[i + 3] = 255
+  }
+  
+  return new ImageData(data, imageData.width, imageData.height)
+}
+
+/**
+ * Mean alpha (0-255) of the source region behind each grid cell, row-major
+ */
+export function calculateCellCoverage(imageData: ImageData, config: PixelizationConfig): Uint8Array {
+  const coverage = new Uint8Array(config.beadGridWidth * config.beadGridHeight)
+  const scaleX = imageData.width / config.beadGridWidth
+  const scaleY = imageData.height / config.beadGridHeight
+  
+  for (let beadY = 0; beadY < config.beadGridHeight; beadY++) {
+    for (let beadX = 0; beadX < config.beadGridWidth; beadX++) {
+      const startX = Math.floor(beadX * scaleX)
+      const startY = Math.floor(beadY * scaleY)
+      const endX = Math.floor((beadX + 1) * scaleX)
+      const endY = Math.floor((beadY + 1) * scaleY)
+      
+      let totalA = 0
+      let pixelCount = 0
+      for (let y = startY; y < endY && y < imageData.height; y++) {
+        for (let x = startX; x < endX && x < imageData.width; x++) {
+          totalA += imageData.data[(y * imageData.width + x) * 4 + 3]
+          pixelCount++
+        }
+      }
+      
+      coverage[beadY * config.beadGridWidth + beadX] = pixelCount > 0 ? Math.round(totalA / pixelCount) : 255
+    }
+  }
+  
+  return coverage
+}
+
+/**
+ * Mark cells whose coverage is below the alpha threshold as empty, on top of any canvas shape
+ */
+export function maskTransparentCells(
+  config: PixelizationConfig,
+  coverage: Uint8Array,
+  alphaThreshold: number = 128
+): PixelizationConfig {
+  const cells = new Uint8Array(config.beadGridWidth * config.beadGridHeight)
+  let beadCount = 0
+  
+  for (let i = 0; i < cells.length; i++) {
+    const inShape = !config.shapeMask || config.shapeMask.cells[i] === 1
+    if (inShape && coverage[i] >= alphaThreshold) {
+      cells[i] = 1
+      beadCount++
+    }
+  }
+  
+  return {
+    ...config,
+    shapeMask: {
+      shape: config.shapeMask?.shape ?? 'custom',
+      cells,
+      beadCount
+    }
+  }
+}
+
 /**
  * Pixelize image based on bead grid configuration
  */
@@ -162,6 +499,8 @@ export function pixelizeImage(
   
   for (let beadY = 0; beadY < config.beadGridHeight; beadY++) {
     for (let beadX = 0; beadX < config.beadGridWidth; beadX++) {
+      if (!isCellInShape(config, beadX, beadY)) continue
+      
       // Calculate source pixel region for this bead
       const startX = Math.floor(beadX * scaleX)
       const startY = Math.floor(beadY * scaleY)
@@ -174,7 +513,7 @@ export function pixelizeImage(
       const centerColor = getPixelColor(imageData, centerX, centerY)
       
       // Calculate average color for this bead region
-      const averageColor = calculateAverageColor(imageData, startX, startY, endX, endY)
+      const averageColor = estimateCellColor(imageData, startX, startY, endX, endY, config.colorEstimator)
       
       pixels.push({
         x: beadX,
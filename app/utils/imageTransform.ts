@@ -0,0 +1,195 @@
+// Image Transform Utilities
+// Crop, rotate (90° steps and free straightening) and mirror before pixelization
+
+export interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ImageTransform {
+  quarterTurns: number // Clockwise 90° rotations (0-3)
+  straightenAngle: number // Fine rotation in degrees, -45 to 45
+  flipHorizontal: boolean
+  crop: CropRect | null // In transformed (rotated/flipped) image pixels; null = whole image
+}
+
+export interface CanvasSizePreset {
+  label: string
+  widthCm: number
+  heightCm: number
+}
+
+// Standard diamond painting canvas sizes (portrait; swap for landscape)
+export const CANVAS_SIZE_PRESETS: CanvasSizePreset[] = [
+  { label: '20×30 cm', widthCm: 20, heightCm: 30 },
+  { label: '30×30 cm', widthCm: 30, heightCm: 30 },
+  { label: '30×40 cm', widthCm: 30, heightCm: 40 },
+  { label: '40×50 cm', widthCm: 40, heightCm: 50 },
+  { label: '40×60 cm', widthCm: 40, heightCm: 60 },
+  { label: '50×70 cm', widthCm: 50, heightCm: 70 },
+  { label: '60×80 cm', widthCm: 60, heightCm: 80 }
+]
+
+export const DEFAULT_IMAGE_TRANSFORM: ImageTransform = {
+  quarterTurns: 0,
+  straightenAngle: 0,
+  flipHorizontal: false,
+  crop: null
+}
+
+/**
+ * Total clockwise rotation in degrees
+ */
+export function getTotalRotation(transform: ImageTransform): number {
+  return transform.quarterTurns * 90 + transform.straightenAngle
+}
+
+/**
+ * Size of the bounding box that contains the rotated image
+ */
+export function getRotatedSize(width: number, height: number, degrees: number): { width: number, height: number } {
+  const radians = (degrees * Math.PI) / 180
+  const cos = Math.abs(Math.cos(radians))
+  const sin = Math.abs(Math.sin(radians))
+  return {
+    width: Math.round(width * cos + height * sin),
+    height: Math.round(width * sin + height * cos)
+  }
+}
+
+/**
+ * Largest axis-aligned rectangle inside the rotated image (no blank corners), centered in the bounding box.
+ * Used as the default crop when straightening.
+ */
+export function getLargestInscribedRect(width: number, height: number, degrees: number): CropRect {
+  const bounds = getRotatedSize(width, height, degrees)
+  const quarterTurns = Math.round(degrees / 90)
+  const fineRadians = ((degrees - quarterTurns * 90) * Math.PI) / 180
+
+  // Image size after the 90° steps
+  const w = quarterTurns % 2 !== 0 ? height : width
+  const h = quarterTurns % 2 !== 0 ? width : height
+  const sin = Math.abs(Math.sin(fineRadians))
+  const cos = Math.abs(Math.cos(fineRadians))
+
+  let innerWidth = w
+  let innerHeight = h
+
+  if (sin > 1e-6) {
+    const widthIsLonger = w >= h
+    const longSide = widthIsLonger ? w : h
+    const shortSide = widthIsLonger ? h : w
+
+    if (shortSide <= 2 * sin * cos * longSide) {
+      // Half-constrained: two crop corners touch the longer side
+      const half = 0.5 * shortSide
+      innerWidth = widthIsLonger ? half / sin : half / cos
+      innerHeight = widthIsLonger ? half / cos : half / sin
+    } else {
+      // Fully constrained: all four crop corners touch the image edges
+      const cos2 = cos * cos - sin * sin
+      innerWidth = (w * cos - h * sin) / cos2
+      innerHeight = (h * cos - w * sin) / cos2
+    }
+  }
+
+  innerWidth = Math.floor(innerWidth)
+  innerHeight = Math.floor(innerHeight)
+
+  return {
+    x: Math.round((bounds.width - innerWidth) / 2),
+    y: Math.round((bounds.height - innerHeight) / 2),
+    width: innerWidth,
+    height: innerHeight
+  }
+}
+
+/**
+ * Draw the source rotated and mirrored onto a canvas sized to the rotated bounding box
+ */
+export function createTransformedCanvas(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: ImageTransform
+): HTMLCanvasElement {
+  const rotation = getTotalRotation(transform)
+  const { width, height } = getRotatedSize(sourceWidth, sourceHeight, rotation)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Failed to get canvas context')
+  }
+
+  // Blank corners from free rotation stay transparent and follow the transparency setting
+  ctx.imageSmoothingEnabled = true
+
+  ctx.translate(width / 2, height / 2)
+  ctx.rotate((rotation * Math.PI) / 180)
+  if (transform.flipHorizontal) {
+    ctx.scale(-1, 1)
+  }
+  ctx.drawImage(source, -sourceWidth / 2, -sourceHeight / 2, sourceWidth, sourceHeight)
+
+  return canvas
+}
+
+/**
+ * Apply a transform and return the resulting ImageData (its width/height are the new dimensions)
+ */
+export function applyImageTransform(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: ImageTransform
+): ImageData {
+  const canvas = createTransformedCanvas(source, sourceWidth, sourceHeight, transform)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Failed to get canvas context')
+  }
+
+  const crop = clampCropRect(transform.crop || { x: 0, y: 0, width: canvas.width, height: canvas.height }, canvas.width, canvas.height)
+  return ctx.getImageData(crop.x, crop.y, crop.width, crop.height)
+}
+
+/**
+ * Keep a crop rectangle inside the image and at least 1px in size
+ */
+export function clampCropRect(rect: CropRect, boundsWidth: number, boundsHeight: number): CropRect {
+  const x = Math.max(0, Math.min(Math.round(rect.x), boundsWidth - 1))
+  const y = Math.max(0, Math.min(Math.round(rect.y), boundsHeight - 1))
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(rect.width), boundsWidth - x)),
+    height: Math.max(1, Math.min(Math.round(rect.height), boundsHeight - y))
+  }
+}
+
+/**
+ * Shrink a crop rectangle around its center to an exact aspect ratio (width / height)
+ */
+export function fitCropToAspect(rect: CropRect, aspect: number, boundsWidth: number, boundsHeight: number): CropRect {
+  let width = rect.width
+  let height = rect.height
+
+  if (width / height > aspect) {
+    width = height * aspect
+  } else {
+    height = width / aspect
+  }
+
+  const centerX = rect.x + rect.width / 2
+  const centerY = rect.y + rect.height / 2
+  const x = Math.max(0, Math.min(centerX - width / 2, boundsWidth - width))
+  const y = Math.max(0, Math.min(centerY - height / 2, boundsHeight - height))
+
+  return clampCropRect({ x, y, width, height }, boundsWidth, boundsHeight)
+}
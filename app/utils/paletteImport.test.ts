@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { parseACO } from './paletteImport'
+
+// Byte layout Photoshop writes: a version 1 section (colors only), then a version 2
+// section repeating the colors, each followed by a zero word, a length word and a null-terminated UTF-16 name
+function buildACO(colors: Array<{ name: string, r: number, g: number, b: number }>): ArrayBuffer {
+  const words: number[] = []
+  const writeColor = (color: { r: number, g: number, b: number }) => {
+    words.push(0, color.r * 257, color.g * 257, color.b * 257, 0)
+  }
+
+  words.push(1, colors.length)
+  colors.forEach(writeColor)
+
+  words.push(2, colors.length)
+  colors.forEach(color => {
+    writeColor(color)
+    words.push(0, color.name.length + 1)
+    for (const char of color.name) words.push(char.charCodeAt(0))
+    words.push(0)
+  })
+
+  const view = new DataView(new ArrayBuffer(words.length * 2))
+  words.forEach((word, i) => view.setUint16(i * 2, word))
+  return view.buffer
+}
+
+describe('parseACO', () => {
+  it('reads names and colors from a multi-color version 2 file', () => {
+    const buffer = buildACO([
+      { name: 'Red', r: 255, g: 0, b: 0 },
+      { name: 'Leaf Green', r: 34, g: 139, b: 34 },
+      { name: 'Sky', r: 135, g: 206, b: 235 }
+    ])
+
+    expect(parseACO(buffer)).toEqual([
+      { name: 'Red', r: 255, g: 0, b: 0 },
+      { name: 'Leaf Green', r: 34, g: 139, b: 34 },
+      { name: 'Sky', r: 135, g: 206, b: 235 }
+    ])
+  })
+
+  it('names unnamed version 1 colors by hex', () => {
+    const view = new DataView(new ArrayBuffer(4 + 10))
+    view.setUint16(0, 1)
+    view.setUint16(2, 1)
+    view.setUint16(6, 0xFFFF)
+
+    expect(parseACO(view.buffer)).toEqual([{ name: '#ff0000', r: 255, g: 0, b: 0 }])
+  })
+})
@@ -0,0 +1,372 @@
+// Palette Import (GIMP .gpl, Adobe .aco/.ase, CSV)
+// Imported swatches map to their nearest catalog drill or are kept as user-defined drills
+
+import { type DMCColor } from './dmcColors'
+import { labToRgb, type RGBColor } from './colorMatching'
+import { findNearestCatalogColor, type DrillCatalog } from './drillCatalogs'
+
+export interface ImportedSwatch extends RGBColor {
+  name: string
+}
+
+export interface PaletteImportEntry {
+  swatch: ImportedSwatch
+  match: DMCColor // Nearest catalog drill
+  deltaE: number
+  keepAsCustom: boolean // Use the exact swatch color as a user-defined drill instead of the match
+}
+
+export type PaletteFormat = 'gpl' | 'aco' | 'ase' | 'csv'
+
+// Swatches closer than this to a catalog drill default to the catalog drill
+const CUSTOM_DRILL_DELTA_E = 5
+
+/**
+ * Parse a GIMP palette (.gpl): "R G B [name]" lines after the "GIMP Palette" header
+ */
+export function parseGPL(text: string): ImportedSwatch[] {
+  const lines = text.split(/\r?\n/)
+  if (!lines[0]?.trim().startsWith('GIMP Palette')) {
+    throw new Error('Not a GIMP palette file')
+  }
+
+  const swatches: ImportedSwatch[] = []
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#') || /^(Name|Columns):/i.test(trimmed)) continue
+
+    const match = trimmed.match(/^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/)
+    if (!match) continue
+
+    const [r, g, b] = [match[1], match[2], match[3]].map(value => clampChannel(parseInt(value, 10)))
+    swatches.push({ r, g, b, name: match[4].trim() || rgbToHex({ r, g, b }) })
+  }
+
+  return swatches
+}
+
+/**
+ * Parse a CSV palette. Accepted rows: "name,#hex", "#hex,name", "r,g,b[,name]" or "name,r,g,b"
+ */
+export function parsePaletteCSV(text: string): ImportedSwatch[] {
+  const swatches: ImportedSwatch[] = []
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('//')) continue
+
+    const fields = trimmed.split(/[,;\t]/).map(field => field.trim().replace(/^"|"$/g, ''))
+
+    // Hex value anywhere in the row (bare all-digit hex only in two-column rows)
+    const hexIndex = fields.findIndex(field =>
+      /^#[0-9a-f]{6}$/i.test(field) || (/^[0-9a-f]{6}$/i.test(field) && (/[a-f]/i.test(field) || fields.length === 2))
+    )
+    if (hexIndex >= 0) {
+      const rgb = hexToRgb(fields[hexIndex])
+      const name = fields.filter((_, index) => index !== hexIndex).join(' ').trim()
+      swatches.push({ ...rgb, name: name || rgbToHex(rgb) })
+      continue
+    }
+
+    // Three consecutive 0-255 numbers
+    for (let i = 0; i + 2 < fields.length; i++) {
+      const values = fields.slice(i, i + 3)
+      if (values.every(value => /^\d{1,3}$/.test(value))) {
+        const [r, g, b] = values.map(value => clampChannel(parseInt(value, 10)))
+        const name = fields.filter((_, index) => index < i || index > i + 2).join(' ').trim()
+        swatches.push({ r, g, b, name: name || rgbToHex({ r, g, b }) })
+        break
+      }
+    }
+  }
+
+  return swatches
+}
+
+/**
+ * Parse a Photoshop color swatch file (.aco, version 1 and 2)
+ */
+export function parseACO(buffer: ArrayBuffer): ImportedSwatch[] {
+  const view = new DataView(buffer)
+  let offset = 0
+
+  const readSection = (withNames: boolean): ImportedSwatch[] => {
+    const count = view.getUint16(offset + 2)
+    offset += 4
+
+    const swatches: ImportedSwatch[] = []
+    for (let i = 0; i < count; i++) {
+      const space = view.getUint16(offset)
+      const w = view.getUint16(offset + 2)
+      const x = view.getUint16(offset + 4)
+      const y = view.getUint16(offset + 6)
+      const z = view.getUint16(offset + 8)
+      offset += 10
+
+      let name = ''
+      if (withNames) {
+        const length = view.getUint32(offset) // Zero word, then the length in UTF-16 units (with the trailing null)
+        offset += 4
+        name = readUTF16(view, offset, length)
+        offset += length * 2
+      }
+
+      const rgb = acoColorToRgb(space, w, x, y, z)
+      if (rgb) {
+        swatches.push({ ...rgb, name: name || rgbToHex(rgb) })
+      }
+    }
+    return swatches
+  }
+
+  if (view.byteLength < 4 || view.getUint16(0) !== 1) {
+    throw new Error('Not an Adobe color swatch (.aco) file')
+  }
+
+  const version1 = readSection(false)
+
+  // Version 2 repeats the colors with names
+  if (offset + 4 <= view.byteLength && view.getUint16(offset) === 2) {
+    return readSection(true)
+  }
+
+  return version1
+}
+
+/**
+ * Parse an Adobe swatch exchange file (.ase)
+ */
+export function parseASE(buffer: ArrayBuffer): ImportedSwatch[] {
+  const view = new DataView(buffer)
+  const signature = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3))
+  if (signature !== 'ASEF') {
+    throw new Error('Not an Adobe swatch exchange (.ase) file')
+  }
+
+  const blockCount = view.getUint32(8)
+  const swatches: ImportedSwatch[] = []
+  let offset = 12
+
+  for (let i = 0; i < blockCount && offset + 6 <= view.byteLength; i++) {
+    const blockType = view.getUint16(offset)
+    const blockLength = view.getUint32(offset + 2)
+    const blockStart = offset + 6
+
+    if (blockType === 0x0001) {
+      // Color entry: name, model, values, color type
+      const nameLength = view.getUint16(blockStart)
+      const name = readUTF16(view, blockStart + 2, nameLength)
+      let cursor = blockStart + 2 + nameLength * 2
+
+      const model = String.fromCharCode(
+        view.getUint8(cursor), view.getUint8(cursor + 1), view.getUint8(cursor + 2), view.getUint8(cursor + 3)
+      ).trim()
+      cursor += 4
+
+      const valueCount = model === 'CMYK' ? 4 : model === 'Gray' ? 1 : 3
+      const values: number[] = []
+      for (let v = 0; v < valueCount; v++) {
+        values.push(view.getFloat32(cursor))
+        cursor += 4
+      }
+
+      const rgb = aseColorToRgb(model, values)
+      if (rgb) {
+        swatches.push({ ...rgb, name: name || rgbToHex(rgb) })
+      }
+    }
+    // Group start/end blocks carry no colors
+
+    offset = blockStart + blockLength
+  }
+
+  return swatches
+}
+
+/**
+ * Detect the palette format from a file name
+ */
+export function getPaletteFormat(fileName: string): PaletteFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'gpl' || extension === 'aco' || extension === 'ase' || extension === 'csv') {
+    return extension
+  }
+  if (extension === 'txt') return 'csv'
+  return null
+}
+
+/**
+ * Read and parse a palette file
+ */
+export async function parsePaletteFile(file: File): Promise<ImportedSwatch[]> {
+  const format = getPaletteFormat(file.name)
+
+  switch (format) {
+    case 'gpl':
+      return parseGPL(await file.text())
+    case 'csv':
+      return parsePaletteCSV(await file.text())
+    case 'aco':
+      return parseACO(await file.arrayBuffer())
+    case 'ase':
+      return parseASE(await file.arrayBuffer())
+    default:
+      throw new Error('Unsupported palette format. Use .gpl, .aco, .ase or .csv')
+  }
+}
+
+/**
+ * Map imported swatches to their nearest catalog drills.
+ * Swatches without a close drill default to being kept as custom drills.
+ */
+export function mapSwatchesToCatalog(swatches: ImportedSwatch[], catalog: DrillCatalog): PaletteImportEntry[] {
+  return swatches.map(swatch => {
+    const { match, deltaE } = findNearestCatalogColor(createCustomDrill(swatch, ''), catalog)
+    return { swatch, match, deltaE, keepAsCustom: deltaE > CUSTOM_DRILL_DELTA_E }
+  })
+}
+
+/**
+ * Create a user-defined drill from a swatch
+ */
+export function createCustomDrill(swatch: ImportedSwatch, code: string): DMCColor {
+  return {
+    code,
+    name: swatch.name,
+    r: swatch.r,
+    g: swatch.g,
+    b: swatch.b,
+    hex: rgbToHex(swatch).slice(1)
+  }
+}
+
+/**
+ * Resolve an import into drill codes plus the user-defined drills they reference.
+ * Custom drills get codes U1, U2, ... that do not collide with catalog codes.
+ */
+export function resolvePaletteImport(
+  entries: PaletteImportEntry[],
+  catalog: DrillCatalog,
+  existingCustomDrills: DMCColor[] = []
+): { codes: string[], customDrills: DMCColor[] } {
+  const codes: string[] = []
+  const customDrills = existingCustomDrills.slice()
+  const usedCodes = new Set(customDrills.map(drill => drill.code))
+  let nextNumber = 1
+
+  for (const entry of entries) {
+    if (!entry.keepAsCustom) {
+      if (!codes.includes(entry.match.code)) codes.push(entry.match.code)
+      continue
+    }
+
+    const hex = rgbToHex(entry.swatch).slice(1)
+    const existing = customDrills.find(drill => drill.hex === hex)
+    if (existing) {
+      if (!codes.includes(existing.code)) codes.push(existing.code)
+      continue
+    }
+
+    let code = `U${nextNumber}`
+    while (usedCodes.has(code) || catalog.colorMap.has(code)) {
+      nextNumber++
+      code = `U${nextNumber}`
+    }
+    usedCodes.add(code)
+
+    const drill = createCustomDrill(entry.swatch, code)
+    customDrills.push(drill)
+    codes.push(code)
+  }
+
+  return { codes, customDrills }
+}
+
+function acoColorToRgb(space: number, w: number, x: number, y: number, z: number): RGBColor | null {
+  switch (space) {
+    case 0: // RGB, 0-65535
+      return { r: Math.round(w / 257), g: Math.round(x / 257), b: Math.round(y / 257) }
+    case 1: // HSB, 0-65535
+      return hsbToRgb((w / 65535) * 360, x / 65535, y / 65535)
+    case 2: // CMYK, 0 = 100% ink
+      return cmykToRgb(1 - w / 65535, 1 - x / 65535, 1 - y / 65535, 1 - z / 65535)
+    case 7: { // Lab: L 0-10000, a/b signed hundredths
+      const a = x > 32767 ? x - 65536 : x
+      const b = y > 32767 ? y - 65536 : y
+      return labToRgb({ l: w / 100, a: a / 100, b: b / 100 })
+    }
+    case 8: { // Grayscale 0-10000 (0 = white)
+      const value = Math.round(255 * (1 - w / 10000))
+      return { r: value, g: value, b: value }
+    }
+    default:
+      return null
+  }
+}
+
+function aseColorToRgb(model: string, values: number[]): RGBColor | null {
+  switch (model) {
+    case 'RGB':
+      return { r: clampChannel(values[0] * 255), g: clampChannel(values[1] * 255), b: clampChannel(values[2] * 255) }
+    case 'CMYK':
+      return cmykToRgb(values[0], values[1], values[2], values[3])
+    case 'LAB':
+      return labToRgb({ l: values[0] * 100, a: values[1], b: values[2] })
+    case 'Gray': {
+      const value = clampChannel(values[0] * 255)
+      return { r: value, g: value, b: value }
+    }
+    default:
+      return null
+  }
+}
+
+function hsbToRgb(hue: number, saturation: number, brightness: number): RGBColor {
+  const chroma = brightness * saturation
+  const segment = (hue % 360) / 60
+  const secondary = chroma * (1 - Math.abs((segment % 2) - 1))
+  const [r1, g1, b1] =
+    segment < 1 ? [chroma, secondary, 0] :
+    segment < 2 ? [secondary, chroma, 0] :
+    segment < 3 ? [0, chroma, secondary] :
+    segment < 4 ? [0, secondary, chroma] :
+    segment < 5 ? [secondary, 0, chroma] :
+    [chroma, 0, secondary]
+  const m = brightness - chroma
+  return { r: clampChannel((r1 + m) * 255), g: clampChannel((g1 + m) * 255), b: clampChannel((b1 + m) * 255) }
+}
+
+function cmykToRgb(c: number, m: number, y: number, k: number): RGBColor {
+  return {
+    r: clampChannel(255 * (1 - c) * (1 - k)),
+    g: clampChannel(255 * (1 - m) * (1 - k)),
+    b: clampChannel(255 * (1 - y) * (1 - k))
+  }
+}
+
+function readUTF16(view: DataView, offset: number, length: number): string {
+  let text = ''
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint16(offset + i * 2)
+    if (code === 0) break
+    text += String.fromCharCode(code)
+  }
+  return text
+}
+
+function hexToRgb(hex: string): RGBColor {
+  const value = hex.replace(/^#/, '')
+  return {
+    r: parseInt(value.slice(0, 2), 16),
+    g: parseInt(value.slice(2, 4), 16),
+    b: parseInt(value.slice(4, 6), 16)
+  }
+}
+
+function rgbToHex(rgb: RGBColor): string {
+  return '#' + [rgb.r, rgb.g, rgb.b].map(value => value.toString(16).padStart(2, '0')).join('')
+}
+
+function clampChannel(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)))
+}
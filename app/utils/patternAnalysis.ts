@@ -12,6 +12,7 @@ import {
   type DMCFirstPalette
 } from './dmcFirstMatching'
 import { DMC_COLORS } from './dmcColors'
+import { createSeededRandom } from './seededRandom'
 
 export interface PatternColorAnalysis {
   optimal: number
@@ -32,7 +33,8 @@ export interface PatternColorAnalysis {
 export async function analyzePatternColorRequirements(
   pixels: BeadPixel[],
   config: PixelizationConfig,
-  imageData: ImageData
+  imageData: ImageData,
+  seed: number = 1 // Fixed by default so the same image always gets the same recommendation
 ): Promise<PatternColorAnalysis> {
   const totalPixels = pixels.length
   
@@ -75,7 +77,7 @@ export async function analyzePatternColorRequirements(
   const patternDensity = 1 - (standardDeviation / avgFrequency) // 0-1, higher = more even distribution
   
   // Test different color counts with actual DMC matching
-  const testResults = await testDMCMatching(pixelColors, imageData)
+  const testResults = await testDMCMatching(pixelColors, imageData, seed)
   
   // Calculate optimal based on diminishing returns in quality
   const optimal = calculateOptimalFromTests(testResults, {
@@ -112,7 +114,8 @@ export async function analyzePatternColorRequirements(
  */
 async function testDMCMatching(
   pixelColors: RGBColor[],
-  imageData: ImageData
+  imageData: ImageData,
+  seed: number
 ): Promise<Array<{ colorCount: number; quality: number; efficiency: number }>> {
   const testCounts = [8, 12, 16, 20, 25, 30, 35, 40, 50, 60, 80]
   const results = []
@@ -120,7 +123,7 @@ async function testDMCMatching(
   for (const colorCount of testCounts) {
     try {
       // Use actual DMC palette creation logic
-      const paletteResult = await analyzeImageForDMCSelection(imageData, colorCount, 'standard')
+      const paletteResult = await analyzeImageForDMCSelection(imageData, colorCount, 'standard', undefined, createSeededRandom(seed))
       const palette = paletteResult.selectedColors
       
       // Calculate quality metrics
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { type DMCColor } from './dmcColors'
+import { countPaletteUsage, getCellCode, type PatternGrid } from './patternGrid'
+import {
+  createLassoSelection,
+  createRectSelection,
+  mirrorBeads,
+  moveSelection,
+  paintBeads
+} from './patternEditing'
+
+const RED: DMCColor = { code: '321', name: 'Red', hex: '#C72B3B', r: 199, g: 43, b: 59 }
+const BLUE: DMCColor = { code: '820', name: 'Royal Blue', hex: '#0E3691', r: 14, g: 54, b: 145 }
+
+// 6×4 red pattern with a blue pair at (1,1)-(2,1)
+function createTestGrid(): PatternGrid {
+  const grid: PatternGrid = { width: 6, height: 4, palette: [RED], cells: new Uint16Array(24) }
+  return paintBeads(grid, [{ x: 1, y: 1 }, { x: 2, y: 1 }], BLUE)
+}
+
+function countBeads(grid: PatternGrid): number {
+  return countPaletteUsage(grid).reduce((sum, count) => sum + count, 0)
+}
+
+function rows(grid: PatternGrid): string[] {
+  const result: string[] = []
+  for (let y = 0; y < grid.height; y++) {
+    let row = ''
+    for (let x = 0; x < grid.width; x++) {
+      const code = getCellCode(grid, x, y)
+      row += code === '' ? '.' : code === RED.code ? 'R' : 'B'
+    }
+    result.push(row)
+  }
+  return result
+}
+
+describe('moveSelection', () => {
+  it('keeps every bead: vacated cells hold their pre-move beads', () => {
+    const grid = createTestGrid()
+    const selection = createRectSelection(6, 4, { x: 1, y: 1 }, { x: 2, y: 2 })
+    const moved = moveSelection(grid, selection, 2, 0)
+
+    expect(countBeads(moved.grid)).toBe(countBeads(grid))
+    expect(rows(moved.grid)).toEqual(['RRRRRR', 'RBBBBR', 'RRRRRR', 'RRRRRR'])
+    expect(rows(grid)).toEqual(['RRRRRR', 'RBBRRR', 'RRRRRR', 'RRRRRR']) // Input untouched
+  })
+})
+
+describe('mirrorBeads', () => {
+  it('keeps every bead when mirroring the whole pattern', () => {
+    const grid = createTestGrid()
+    const mirrored = mirrorBeads(grid, 'horizontal')
+
+    expect(countBeads(mirrored.grid)).toBe(countBeads(grid))
+    expect(rows(mirrored.grid)).toEqual(['RRRRRR', 'RRRBBR', 'RRRRRR', 'RRRRRR'])
+  })
+
+  it('keeps every bead when mirroring a lasso selection', () => {
+    const grid = createTestGrid()
+    // Triangle covering (0,0), (1,0) and (0,1): its flip doesn't cover (0,1), which keeps its bead
+    const selection = createLassoSelection(6, 4, [{ x: 0, y: 0 }, { x: 3, y: 0 }, { x: 0, y: 3 }])
+    const mirrored = mirrorBeads(paintBeads(grid, [{ x: 0, y: 0 }], BLUE), 'horizontal', selection)
+
+    expect(countBeads(mirrored.grid)).toBe(countBeads(grid))
+    expect(rows(mirrored.grid)).toEqual(['RBRRRR', 'RRBRRR', 'RRRRRR', 'RRRRRR'])
+  })
+})
@@ -0,0 +1,299 @@
+// Bead-Level Pattern Editing
+// Pure edits on a PatternGrid: each returns a new grid (the input is never modified),
+// so undo/redo is just a stack of grids.
+
+import { type DMCColor } from './dmcColors'
+import { type PixelizationConfig, isCellInShape } from './imagePixelization'
+import { EMPTY_CELL, type PatternGrid } from './patternGrid'
+
+// Selected cells of a grid (1 = selected), same size as the grid
+export interface BeadSelection {
+  width: number
+  height: number
+  cells: Uint8Array
+}
+
+export interface BeadPoint {
+  x: number
+  y: number
+}
+
+export type MirrorAxis = 'horizontal' | 'vertical' // horizontal = flip left↔right
+
+/**
+ * Paint beads with a color (pencil). Points outside the grid are ignored.
+ */
+export function paintBeads(grid: PatternGrid, points: BeadPoint[], color: DMCColor): PatternGrid {
+  const { palette, index } = withPaletteColor(grid.palette, color)
+  const cells = grid.cells.slice()
+  for (const { x, y } of points) {
+    if (x >= 0 && y >= 0 && x < grid.width && y < grid.height) {
+      cells[y * grid.width + x] = index
+    }
+  }
+  return { ...grid, palette, cells }
+}
+
+/**
+ * Bucket fill: recolor the 4-connected region of beads sharing the color at (x, y)
+ */
+export function fillRegion(grid: PatternGrid, x: number, y: number, color: DMCColor): PatternGrid {
+  if (x < 0 || y < 0 || x >= grid.width || y >= grid.height) return grid
+  const { width, height } = grid
+  const target = grid.cells[y * width + x]
+  const { palette, index } = withPaletteColor(grid.palette, color)
+  if (target === index) return grid
+
+  const cells = grid.cells.slice()
+  const stack = [y * width + x]
+  cells[y * width + x] = index
+  while (stack.length > 0) {
+    const cell = stack.pop()!
+    const cx = cell % width
+    const cy = (cell - cx) / width
+    const neighbours = [
+      cx > 0 ? cell - 1 : -1,
+      cx < width - 1 ? cell + 1 : -1,
+      cy > 0 ? cell - width : -1,
+      cy < height - 1 ? cell + width : -1
+    ]
+    for (const next of neighbours) {
+      if (next >= 0 && cells[next] === target) {
+        cells[next] = index
+        stack.push(next)
+      }
+    }
+  }
+  return { ...grid, palette, cells }
+}
+
+/**
+ * Select the cells of a rectangle given by two opposite corners (inclusive)
+ */
+export function createRectSelection(width: number, height: number, from: BeadPoint, to: BeadPoint): BeadSelection {
+  const cells = new Uint8Array(width * height)
+  const x0 = Math.max(0, Math.min(from.x, to.x))
+  const x1 = Math.min(width - 1, Math.max(from.x, to.x))
+  const y0 = Math.max(0, Math.min(from.y, to.y))
+  const y1 = Math.min(height - 1, Math.max(from.y, to.y))
+  for (let y = y0; y <= y1; y++) {
+    cells.fill(1, y * width + x0, y * width + x1 + 1)
+  }
+  return { width, height, cells }
+}
+
+/**
+ * Select the cells whose centers lie inside a freehand outline (points in cell units, even-odd rule)
+ */
+export function createLassoSelection(width: number, height: number, outline: BeadPoint[]): BeadSelection {
+  const cells = new Uint8Array(width * height)
+  if (outline.length < 3) return { width, height, cells }
+
+  for (let y = 0; y < height; y++) {
+    const cy = y + 0.5
+    for (let x = 0; x < width; x++) {
+      const cx = x + 0.5
+      let inside = false
+      for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+        const a = outline[i]
+        const b = outline[j]
+        if ((a.y > cy) !== (b.y > cy) && cx < ((b.x - a.x) * (cy - a.y)) / (b.y - a.y) + a.x) {
+          inside = !inside
+        }
+      }
+      if (inside) cells[y * width + x] = 1
+    }
+  }
+  return { width, height, cells }
+}
+
+/**
+ * Check whether any cell is selected
+ */
+export function hasSelection(selection: BeadSelection | null): selection is BeadSelection {
+  return !!selection && selection.cells.some(value => value === 1)
+}
+
+/**
+ * Copy the selected beads into a clip: a grid the size of the selection's bounding box,
+ * with unselected cells empty (pasting skips them)
+ */
+export function copySelection(grid: PatternGrid, selection: BeadSelection): PatternGrid | null {
+  const bounds = getSelectionBounds(selection)
+  if (!bounds) return null
+
+  const width = bounds.maxX - bounds.minX + 1
+  const height = bounds.maxY - bounds.minY + 1
+  const cells = new Uint16Array(width * height).fill(EMPTY_CELL)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (bounds.minY + y) * grid.width + bounds.minX + x
+      if (selection.cells[source]) cells[y * width + x] = grid.cells[source]
+    }
+  }
+  return { width, height, palette: grid.palette, cells }
+}
+
+/**
+ * Paste a clip with its top-left corner at (left, top); empty clip cells leave the pattern as is
+ */
+export function pasteClip(grid: PatternGrid, clip: PatternGrid, left: number, top: number): PatternGrid {
+  let palette = grid.palette
+  const indexMap = clip.palette.map(color => {
+    const added = withPaletteColor(palette, color)
+    palette = added.palette
+    return added.index
+  })
+
+  const cells = grid.cells.slice()
+  for (let y = 0; y < clip.height; y++) {
+    const gy = top + y
+    if (gy < 0 || gy >= grid.height) continue
+    for (let x = 0; x < clip.width; x++) {
+      const gx = left + x
+      const value = clip.cells[y * clip.width + x]
+      if (gx < 0 || gx >= grid.width || value === EMPTY_CELL) continue
+      cells[gy * grid.width + gx] = indexMap[value]
+    }
+  }
+  return { ...grid, palette, cells }
+}
+
+/**
+ * Move the selected beads by (dx, dy); returns the moved selection too.
+ * Vacated cells keep the beads they had before the move (only erasing leaves a cell without a drill).
+ */
+export function moveSelection(
+  grid: PatternGrid,
+  selection: BeadSelection,
+  dx: number,
+  dy: number
+): { grid: PatternGrid, selection: BeadSelection } {
+  const clip = copySelection(grid, selection)
+  const bounds = getSelectionBounds(selection)
+  if (!clip || !bounds) return { grid, selection }
+
+  return {
+    grid: pasteClip(grid, clip, bounds.minX + dx, bounds.minY + dy),
+    selection: translateSelection(selection, dx, dy)
+  }
+}
+
+/**
+ * Mirror the selected beads within their bounding box (or the whole pattern without a selection).
+ * Selected cells the flipped shape doesn't cover keep their beads.
+ */
+export function mirrorBeads(
+  grid: PatternGrid,
+  axis: MirrorAxis,
+  selection?: BeadSelection | null
+): { grid: PatternGrid, selection: BeadSelection | null } {
+  const area = hasSelection(selection ?? null)
+    ? selection!
+    : { width: grid.width, height: grid.height, cells: new Uint8Array(grid.width * grid.height).fill(1) }
+  const clip = copySelection(grid, area)
+  const bounds = getSelectionBounds(area)
+  if (!clip || !bounds) return { grid, selection: selection ?? null }
+
+  const flipped = flipGrid(clip, axis)
+  const mirroredGrid = pasteClip(grid, flipped, bounds.minX, bounds.minY)
+  if (!hasSelection(selection ?? null)) {
+    return { grid: mirroredGrid, selection: null }
+  }
+
+  // The selection outline flips with its beads
+  const cells = new Uint8Array(grid.width * grid.height)
+  for (let y = 0; y < flipped.height; y++) {
+    for (let x = 0; x < flipped.width; x++) {
+      if (isFlippedSelected(area, bounds, axis, x, y)) {
+        cells[(bounds.minY + y) * grid.width + bounds.minX + x] = 1
+      }
+    }
+  }
+  return { grid: mirroredGrid, selection: { width: grid.width, height: grid.height, cells } }
+}
+
+/**
+ * Empty every cell outside the pattern's canvas shape (edits may not place drills there)
+ */
+export function restrictToShape(grid: PatternGrid, config: PixelizationConfig): PatternGrid {
+  if (!config.shapeMask) return grid
+  let cells: Uint16Array | null = null
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      const i = y * grid.width + x
+      if (grid.cells[i] !== EMPTY_CELL && !isCellInShape(config, x, y)) {
+        cells = cells || grid.cells.slice()
+        cells[i] = EMPTY_CELL
+      }
+    }
+  }
+  return cells ? { ...grid, cells } : grid
+}
+
+/**
+ * Palette with the color present (matched by code), and its index
+ */
+function withPaletteColor(palette: DMCColor[], color: DMCColor): { palette: DMCColor[], index: number } {
+  const existing = palette.findIndex(entry => entry.code === color.code)
+  if (existing >= 0) return { palette, index: existing }
+  if (palette.length >= EMPTY_CELL) {
+    throw new Error(`Pattern grid supports at most ${EMPTY_CELL} colors`)
+  }
+  return { palette: [...palette, color], index: palette.length }
+}
+
+function getSelectionBounds(selection: BeadSelection): { minX: number, minY: number, maxX: number, maxY: number } | null {
+  let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1
+  for (let y = 0; y < selection.height; y++) {
+    for (let x = 0; x < selection.width; x++) {
+      if (!selection.cells[y * selection.width + x]) continue
+      minX = Math.min(minX, x)
+      minY = Math.min(minY, y)
+      maxX = Math.max(maxX, x)
+      maxY = Math.max(maxY, y)
+    }
+  }
+  return maxX < 0 ? null : { minX, minY, maxX, maxY }
+}
+
+function translateSelection(selection: BeadSelection, dx: number, dy: number): BeadSelection {
+  const { width, height } = selection
+  const cells = new Uint8Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const tx = x + dx
+      const ty = y + dy
+      if (selection.cells[y * width + x] && tx >= 0 && ty >= 0 && tx < width && ty < height) {
+        cells[ty * width + tx] = 1
+      }
+    }
+  }
+  return { width, height, cells }
+}
+
+function flipGrid(grid: PatternGrid, axis: MirrorAxis): PatternGrid {
+  const { width, height } = grid
+  const cells = new Uint16Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sx = axis === 'horizontal' ? width - 1 - x : x
+      const sy = axis === 'vertical' ? height - 1 - y : y
+      cells[y * width + x] = grid.cells[sy * width + sx]
+    }
+  }
+  return { ...grid, cells }
+}
+
+// Whether the cell at (x, y) of the flipped bounding box came from a selected cell
+function isFlippedSelected(
+  selection: BeadSelection,
+  bounds: { minX: number, minY: number, maxX: number, maxY: number },
+  axis: MirrorAxis,
+  x: number,
+  y: number
+): boolean {
+  const sx = axis === 'horizontal' ? bounds.maxX - x : bounds.minX + x
+  const sy = axis === 'vertical' ? bounds.maxY - y : bounds.minY + y
+  return selection.cells[sy * selection.width + sx] === 1
+}
@@ -0,0 +1,218 @@
+// Off-Main-Thread Pattern Generation
+// generateFullDMCPattern in a Web Worker so the page stays responsive. The worker is reused between
+// runs so its full-catalog match cache makes color count changes cheap; aborting during matching
+// terminates it, aborting later tells it to stop at the next phase.
+// The rate–distortion measurement runs in a worker of its own.
+
+import {
+  generateFullDMCPattern,
+  type FullDMCGenerationOptions,
+  type FullDMCPattern,
+  type PatternGenerationPhase,
+  type PatternGenerationProgress
+} from './dmcFirstMatching'
+import { type DMCColor } from './dmcColors'
+import { getDrillCatalog } from './drillCatalogs'
+import { type PixelizationConfig } from './imagePixelization'
+import { computeRateDistortionCurve, type RateDistortionCurve } from './rateDistortion'
+import {
+  type PatternWorkerCancel,
+  type PatternWorkerMessage,
+  type PatternWorkerRequest
+} from '../workers/patternGeneration.worker'
+import { type RateDistortionWorkerMessage, type RateDistortionWorkerRequest } from '../workers/rateDistortion.worker'
+
+const PHASE_LABELS: Record<PatternGenerationPhase, string> = {
+  matching: 'Matching colors',
+  analyzing: 'Analyzing color usage',
+  reducing: 'Reducing colors',
+  remapping: 'Remapping beads',
+  cleanup: 'Cleaning up confetti',
+  highlights: 'Placing AB highlights'
+}
+
+// Worker kept alive between runs; requests queue up in it (one runs at a time) and replies carry the request id
+let sharedWorker: Worker | null = null
+let lastRequestId = 0
+
+/**
+ * Same result as generateFullDMCPattern, computed in a worker.
+ * The image's pixel buffer is transferred, so imageData is unusable after the call.
+ * Rejects with an AbortError (see isAbortError) when signal aborts. A run cancelled while still
+ * matching terminates the worker. Past matching, the worker is sent a cancel message and stops as
+ * the next phase starts, keeping its full-catalog match cache for the next run (a long phase, such
+ * as k-medoids reduction, still finishes before the next queued request starts).
+ */
+export function generateFullDMCPatternInWorker(
+  imageData: ImageData,
+  config: PixelizationConfig,
+  targetColorCount: number,
+  analysisQuality: 'fast' | 'standard' | 'high' = 'standard',
+  customColorCodes?: string[],
+  generationOptions: Omit<FullDMCGenerationOptions, 'signal'> = {},
+  signal?: AbortSignal
+): Promise<FullDMCPattern> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError())
+  }
+
+  // No worker support: same pipeline on this thread (cancelled between phases)
+  if (typeof Worker === 'undefined') {
+    return generateFullDMCPattern(imageData, config, targetColorCount, analysisQuality, customColorCodes, { ...generationOptions, signal })
+  }
+
+  const { onProgress, ...options } = generationOptions
+  const catalog = getDrillCatalog(options.catalogId)
+
+  return new Promise((resolve, reject) => {
+    const worker = sharedWorker ?? new Worker(new URL('../workers/patternGeneration.worker.ts', import.meta.url))
+    sharedWorker = worker
+    const id = ++lastRequestId
+    let isMatched = false
+
+    const finish = (keepWorker: boolean) => {
+      signal?.removeEventListener('abort', handleAbort)
+      if (!keepWorker) {
+        worker.terminate()
+        if (sharedWorker === worker) sharedWorker = null
+      }
+    }
+    const handleAbort = () => {
+      if (isMatched) {
+        const cancel: PatternWorkerCancel = { type: 'cancel', id }
+        worker.postMessage(cancel)
+      }
+      finish(isMatched)
+      reject(createAbortError())
+    }
+    signal?.addEventListener('abort', handleAbort)
+
+    worker.onmessage = (event: MessageEvent<PatternWorkerMessage>) => {
+      const message = event.data
+      if (message.id !== id) return // Reply to a cancelled run
+      if (message.type === 'progress') {
+        isMatched = isMatched || message.progress.phase !== 'matching'
+        onProgress?.(message.progress)
+        return
+      }
+
+      finish(message.type === 'done')
+      if (message.type === 'done') {
+        resolve(message.pattern)
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      finish(false)
+      reject(new Error(event.message || 'Pattern generation worker failed'))
+    }
+
+    const pixels = imageData.data.buffer as ArrayBuffer
+    const request: PatternWorkerRequest = {
+      type: 'generate',
+      id,
+      width: imageData.width,
+      height: imageData.height,
+      pixels,
+      config,
+      targetColorCount,
+      analysisQuality,
+      customColorCodes,
+      generationOptions: options,
+      catalog: catalog.builtIn ? undefined : catalog
+    }
+    worker.postMessage(request, [pixels])
+  })
+}
+
+/**
+ * Same result as computeRateDistortionCurve, computed in a worker that is terminated when the
+ * measurement finishes or signal aborts (rejecting with an AbortError).
+ * The image's pixel buffer is transferred, so imageData is unusable after the call.
+ */
+export function computeRateDistortionCurveInWorker(
+  imageData: ImageData,
+  config: PixelizationConfig,
+  maxColors: number,
+  catalogColors: DMCColor[],
+  signal?: AbortSignal
+): Promise<RateDistortionCurve> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError())
+  }
+
+  // No worker support: measure on this thread
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(computeRateDistortionCurve(imageData, config, maxColors, catalogColors))
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/rateDistortion.worker.ts', import.meta.url))
+
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort)
+      worker.terminate()
+    }
+    const handleAbort = () => {
+      finish()
+      reject(createAbortError())
+    }
+    signal?.addEventListener('abort', handleAbort)
+
+    worker.onmessage = (event: MessageEvent<RateDistortionWorkerMessage>) => {
+      const message = event.data
+      finish()
+      if (message.type === 'done') {
+        resolve(message.curve)
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || 'Rate–distortion worker failed'))
+    }
+
+    const pixels = imageData.data.buffer as ArrayBuffer
+    const request: RateDistortionWorkerRequest = {
+      width: imageData.width,
+      height: imageData.height,
+      pixels,
+      config,
+      maxColors,
+      catalogColors
+    }
+    worker.postMessage(request, [pixels])
+  })
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted (checkpoint between async steps)
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError()
+  }
+}
+
+/**
+ * Check whether an error comes from a cancelled generation rather than a failure
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+/**
+ * Short status line, e.g. "Matching colors 42%"
+ */
+export function describeGenerationProgress(progress: PatternGenerationProgress): string {
+  const label = PHASE_LABELS[progress.phase]
+  return progress.fraction !== undefined ? `${label} ${Math.round(progress.fraction * 100)}%` : `${label}...`
+}
+
+function createAbortError(): Error {
+  const error = new Error('Pattern generation cancelled')
+  error.name = 'AbortError'
+  return error
+}
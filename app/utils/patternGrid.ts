@@ -0,0 +1,114 @@
+// Pattern Grid Model
+// Compact bead grid shared by the preview, exporters and icon placement:
+// one palette index per cell (2 bytes) instead of an object per bead
+
+import { type DMCColor } from './dmcColors'
+import { type FullMatchedPixel } from './dmcFirstMatching'
+
+// Cell value for "no drill" (outside the canvas shape or transparent)
+export const EMPTY_CELL = 0xFFFF
+
+export interface PatternGrid {
+  width: number
+  height: number
+  palette: DMCColor[] // Drills used by the pattern; cells hold indexes into this table
+  cells: Uint16Array // width × height, row-major palette indexes (EMPTY_CELL = no drill)
+}
+
+/**
+ * Build a grid from matched beads. Palette order follows the given palette;
+ * bead colors missing from it (by code) are appended.
+ */
+export function buildPatternGrid(
+  pixels: FullMatchedPixel[],
+  width: number,
+  height: number,
+  palette: DMCColor[] = []
+): PatternGrid {
+  const table: DMCColor[] = []
+  const indexByCode = new Map<string, number>()
+  const addColor = (color: DMCColor) => {
+    let index = indexByCode.get(color.code)
+    if (index === undefined) {
+      index = table.length
+      if (index >= EMPTY_CELL) {
+        throw new Error(`Pattern grid supports at most ${EMPTY_CELL} colors`)
+      }
+      table.push(color)
+      indexByCode.set(color.code, index)
+    }
+    return index
+  }
+  palette.forEach(addColor)
+
+  const cells = new Uint16Array(width * height).fill(EMPTY_CELL)
+  for (const pixel of pixels) {
+    if (pixel.x < width && pixel.y < height) {
+      cells[pixel.y * width + pixel.x] = addColor(pixel.matchedDMCColor)
+    }
+  }
+
+  return { width, height, palette: table, cells }
+}
+
+/**
+ * Drill at a cell, or null for an empty cell (or outside the grid)
+ */
+export function getCellColor(grid: PatternGrid, x: number, y: number): DMCColor | null {
+  if (x < 0 || y < 0 || x >= grid.width || y >= grid.height) return null
+  const index = grid.cells[y * grid.width + x]
+  return index === EMPTY_CELL ? null : grid.palette[index]
+}
+
+/**
+ * Drill code at a cell ('' for an empty cell)
+ */
+export function getCellCode(grid: PatternGrid, x: number, y: number): string {
+  return getCellColor(grid, x, y)?.code ?? ''
+}
+
+/**
+ * Visit every bead (non-empty cell) in row-major order
+ */
+export function forEachBead(
+  grid: PatternGrid,
+  callback: (x: number, y: number, color: DMCColor, paletteIndex: number) => void
+): void {
+  const { width, height, cells, palette } = grid
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = cells[y * width + x]
+      if (index !== EMPTY_CELL) {
+        callback(x, y, palette[index], index)
+      }
+    }
+  }
+}
+
+/**
+ * Bead count per palette index
+ */
+export function countPaletteUsage(grid: PatternGrid): Uint32Array {
+  const counts = new Uint32Array(grid.palette.length)
+  for (let i = 0; i < grid.cells.length; i++) {
+    const index = grid.cells[i]
+    if (index !== EMPTY_CELL) counts[index]++
+  }
+  return counts
+}
+
+/**
+ * Drills that actually appear in the grid, in order of first appearance (row-major)
+ */
+export function getUsedColors(grid: PatternGrid): DMCColor[] {
+  const seen = new Uint8Array(grid.palette.length)
+  const used: DMCColor[] = []
+  for (let i = 0; i < grid.cells.length; i++) {
+    const index = grid.cells[i]
+    if (index !== EMPTY_CELL && !seen[index]) {
+      seen[index] = 1
+      used.push(grid.palette[index])
+    }
+  }
+  return used
+}
@@ -2,6 +2,7 @@
 // Creates visual representations with icons, grids, and colors
 
 import { DMCFirstPattern } from '../hooks/useDMCFirstPatternGeneration'
+import { forEachBead, getUsedColors } from './patternGrid'
 import { assignIconsToColors, type Icon } from './iconPlacement'
 import { convertSVGToPNG } from './svgIconGenerator'
 
@@ -38,29 +39,6 @@ const DEFAULT_RENDER_OPTIONS: PatternRenderOptions = {
   iconColor: '#000000'
 }
 
-/**
- * Create a pattern grid from DMC pattern data
- */
-function createPatternGrid(pattern: DMCFirstPattern): Array<Array<string>> {
-  const grid: Array<Array<string>> = []
-  const width = pattern.config.beadGridWidth
-  const height = pattern.config.beadGridHeight
-  
-  // Initialize grid
-  for (let y = 0; y < height; y++) {
-    grid[y] = new Array(width).fill('')
-  }
-  
-  // Fill grid with DMC codes
-  for (const pixel of pattern.constrainedPixels) {
-    if (pixel.x < width && pixel.y < height) {
-      grid[pixel.y][pixel.x] = pixel.selectedDMCColor.code
-    }
-  }
-  
-  return grid
-}
-
 /**
  * Render pattern as canvas with colors, grid, and icons
  * Updated to use SVG→PNG system for perfect icon quality!
@@ -91,9 +69,8 @@ export async function renderPatternToCanvas(
   canvas.height = canvasHeight
 
   // Create pattern grid and assign icons
-  const patternGrid = createPatternGrid(pattern)
-  const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
-  const iconAssignments = assignIconsToColors(uniqueColors, patternGrid)
+  const uniqueColors = getUsedColors(pattern.grid).map(color => color.code)
+  const iconAssignments = assignIconsToColors(uniqueColors, pattern.grid)
 
   // 🌟 Pre-convert all SVG icons to high-res PNG for canvas rendering
   const iconPngCache = new Map<string, string>()
@@ -123,31 +100,31 @@ export async function renderPatternToCanvas(
   ctx.fillRect(0, 0, canvasWidth, canvasHeight)
 
   // Draw background colors first
-  for (const pixel of pattern.constrainedPixels) {
-    const x = pixel.x * opts.scale
-    const y = pixel.y * opts.scale
+  forEachBead(pattern.grid, (beadX, beadY, color) => {
+    const x = beadX * opts.scale
+    const y = beadY * opts.scale
     
     // Draw color background if enabled
     if (opts.showColors) {
-      ctx.fillStyle = `rgb(${pixel.selectedDMCColor.r}, ${pixel.selectedDMCColor.g}, ${pixel.selectedDMCColor.b})`
+      ctx.fillStyle = `rgb(${color.r}, ${color.g}, ${color.b})`
       ctx.fillRect(x, y, opts.scale, opts.scale)
     }
-  }
+  })
 
   // Draw all icons after backgrounds (for proper layering)
   if (opts.showIcons) {
     const iconDrawPromises: Promise<void>[] = []
     
-    for (const pixel of pattern.constrainedPixels) {
-      const x = pixel.x * opts.scale
-      const y = pixel.y * opts.scale
-      const pngIconData = iconPngCache.get(pixel.selectedDMCColor.code)
+    forEachBead(pattern.grid, (beadX, beadY, color) => {
+      const x = beadX * opts.scale
+      const y = beadY * opts.scale
+      const pngIconData = iconPngCache.get(color.code)
       
       if (pngIconData) {
         const drawPromise = drawSVGIconOnCanvas(ctx, pngIconData, x, y, opts.scale, opts.iconSize)
         iconDrawPromises.push(drawPromise)
       }
-    }
+    })
     
     // Wait for all icons to be drawn
     await Promise.all(iconDrawPromises)
@@ -308,9 +285,9 @@ export function createPatternLegend(
   iconAssignments: Map<string, Icon>,
   cellSize: number = 40
 ): HTMLCanvasElement {
-  const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
-  const itemsPerRow = Math.min(10, uniqueColors.length)
-  const rows = Math.ceil(uniqueColors.length / itemsPerRow)
+  const usedColors = getUsedColors(pattern.grid)
+  const itemsPerRow = Math.min(10, usedColors.length)
+  const rows = Math.ceil(usedColors.length / itemsPerRow)
   
   const canvas = document.createElement('canvas')
   const ctx = canvas.getContext('2d')!
@@ -327,11 +304,11 @@ export function createPatternLegend(
   ctx.fillRect(0, 0, canvas.width, canvas.height)
   
   // Draw legend items
-  uniqueColors.forEach((dmcCode, index) => {
-    const dmcColor = pattern.constrainedPixels.find(p => p.selectedDMCColor.code === dmcCode)?.selectedDMCColor
+  usedColors.forEach((dmcColor, index) => {
+    const dmcCode = dmcColor.code
     const icon = iconAssignments.get(dmcCode)
     
-    if (!dmcColor || !icon) return
+    if (!icon) return
     
     const row = Math.floor(index / itemsPerRow)
     const col = index % itemsPerRow
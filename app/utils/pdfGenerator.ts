@@ -4,7 +4,9 @@
 import jsPDF from 'jspdf'
 import { assignIconsToColors } from './iconPlacement'
 import { DMCFirstPattern } from '../hooks/useDMCFirstPatternGeneration'
+import { forEachBead, getUsedColors } from './patternGrid'
 import { createVectorIconForPDF } from './svgIconGenerator'
+import { isSpecialtyDrill, getDrillFinishInfo, getFinishMarkPoints, type DrillFinishInfo } from './drillFinishes'
 
 // Standard font support for jsPDF
 // Use standard fonts for better compatibility
@@ -301,21 +303,20 @@ async function generateRealSizePatternCanvas(
   ctx.fillRect(0, 0, canvasWidthPx, canvasHeightPx)
   
   // Generate icon assignments
-  const patternGrid = createPatternGrid(pattern)
-  const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
-  const iconAssignments = assignIconsToColors(uniqueColors, patternGrid)
+  const uniqueColors = getUsedColors(pattern.grid).map(color => color.code)
+  const iconAssignments = assignIconsToColors(uniqueColors, pattern.grid)
   
   // 🚀 NEW: Pre-generate VECTOR icon data for INFINITE RESOLUTION rendering!
   const iconVectorCache = new Map<string, ReturnType<typeof createVectorIconForPDF>>()
   
   // Get unique icons to avoid duplicates
   const uniqueIcons = new Map<string, any>()
-  for (const pixel of pattern.constrainedPixels) {
-    const icon = iconAssignments.get(pixel.selectedDMCColor.code)
+  forEachBead(pattern.grid, (beadX, beadY, color) => {
+    const icon = iconAssignments.get(color.code)
     if (icon && !uniqueIcons.has(icon.symbol)) {
       uniqueIcons.set(icon.symbol, icon)
     }
-  }
+  })
   
   
   // Prepare all unique icons for vector rendering (INSTANT PROCESSING - NO PNG CONVERSION!)
@@ -331,24 +332,24 @@ async function generateRealSizePatternCanvas(
   console.log(`✅ Vector icon preparation completed. Cache size: ${iconVectorCache.size} (ZERO rasterization!)`)
   
   // Draw each bead
-  for (const pixel of pattern.constrainedPixels) {
-    const x = pixel.x * beadSizePx
-    const y = pixel.y * beadSizePx
+  forEachBead(pattern.grid, (beadX, beadY, color) => {
+    const x = beadX * beadSizePx
+    const y = beadY * beadSizePx
     
     // Draw color background
-    ctx.fillStyle = `rgb(${pixel.selectedDMCColor.r}, ${pixel.selectedDMCColor.g}, ${pixel.selectedDMCColor.b})`
+    ctx.fillStyle = `rgb(${color.r}, ${color.g}, ${color.b})`
     ctx.fillRect(x, y, beadSizePx, beadSizePx)
     
     // Note: Icons will be drawn after all background colors are complete
     // This ensures proper layering and avoids async drawing issues
-  }
+  })
   
   // 🌟 Draw all icons using Canvas text rendering (CONSISTENT WITH VECTOR PDF!)
-  for (const pixel of pattern.constrainedPixels) {
-    const x = pixel.x * beadSizePx
-    const y = pixel.y * beadSizePx
+  forEachBead(pattern.grid, (beadX, beadY, color) => {
+    const x = beadX * beadSizePx
+    const y = beadY * beadSizePx
     
-    const icon = iconAssignments.get(pixel.selectedDMCColor.code)
+    const icon = iconAssignments.get(color.code)
     if (icon) {
       const iconSizePx = Math.max(beadSizePx * 0.6, 8)
       const cacheKey = `${icon.symbol}-${iconSizePx}`
@@ -377,25 +378,44 @@ async function generateRealSizePatternCanvas(
         ctx.fillText(vectorData.symbol, centerX, centerY)
       }
     }
-  }
+    
+    // Specialty drill corner mark
+    if (isSpecialtyDrill(color)) {
+      const [p1, p2, p3] = getFinishMarkPoints(x, y, beadSizePx)
+      ctx.fillStyle = '#000000'
+      ctx.beginPath()
+      ctx.moveTo(p1[0], p1[1])
+      ctx.lineTo(p2[0], p2[1])
+      ctx.lineTo(p3[0], p3[1])
+      ctx.closePath()
+      ctx.fill()
+    }
+  })
   
   // Draw grid lines
   ctx.strokeStyle = '#000000'
   ctx.lineWidth = Math.max(0.5, beadSizePx * 0.02)
   ctx.beginPath()
   
-  // Vertical lines
-  for (let i = 0; i <= pattern.config.beadGridWidth; i++) {
-    const xPos = i * beadSizePx
-    ctx.moveTo(xPos, 0)
-    ctx.lineTo(xPos, canvasHeightPx)
-  }
-  
-  // Horizontal lines
-  for (let i = 0; i <= pattern.config.beadGridHeight; i++) {
-    const yPos = i * beadSizePx
-    ctx.moveTo(0, yPos)
-    ctx.lineTo(canvasWidthPx, yPos)
+  if (pattern.config.shapeMask) {
+    // Shaped canvas: outline bead cells only, empty cells stay blank
+    forEachBead(pattern.grid, (beadX, beadY) => {
+      ctx.rect(beadX * beadSizePx, beadY * beadSizePx, beadSizePx, beadSizePx)
+    })
+  } else {
+    // Vertical lines
+    for (let i = 0; i <= pattern.config.beadGridWidth; i++) {
+      const xPos = i * beadSizePx
+      ctx.moveTo(xPos, 0)
+      ctx.lineTo(xPos, canvasHeightPx)
+    }
+    
+    // Horizontal lines
+    for (let i = 0; i <= pattern.config.beadGridHeight; i++) {
+      const yPos = i * beadSizePx
+      ctx.moveTo(0, yPos)
+      ctx.lineTo(canvasWidthPx, yPos)
+    }
   }
   
   ctx.stroke()
@@ -403,29 +423,6 @@ async function generateRealSizePatternCanvas(
   return canvas
 }
 
-/**
- * Create pattern grid from DMC pattern
- */
-function createPatternGrid(pattern: DMCFirstPattern): Array<Array<string>> {
-  const grid: Array<Array<string>> = []
-  const width = pattern.config.beadGridWidth
-  const height = pattern.config.beadGridHeight
-  
-  // Initialize grid
-  for (let y = 0; y < height; y++) {
-    grid[y] = new Array(width).fill('')
-  }
-  
-  // Fill grid with DMC codes
-  for (const pixel of pattern.constrainedPixels) {
-    if (pixel.x < width && pixel.y < height) {
-      grid[pixel.y][pixel.x] = pixel.selectedDMCColor.code
-    }
-  }
-  
-  return grid
-}
-
 /**
  * Color table entry for PDF generation
  */
@@ -436,6 +433,7 @@ interface ColorTableEntry {
   icon: any
   count: number
   percentage: number
+  finish?: DrillFinishInfo
 }
 
 /**
@@ -443,9 +441,8 @@ interface ColorTableEntry {
  */
 function prepareColorTableData(pattern: DMCFirstPattern): ColorTableEntry[] {
   // Create pattern grid and assign icons
-  const patternGrid = createPatternGrid(pattern)
-  const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
-  const iconAssignments = assignIconsToColors(uniqueColors, patternGrid)
+  const uniqueColors = getUsedColors(pattern.grid).map(color => color.code)
+  const iconAssignments = assignIconsToColors(uniqueColors, pattern.grid)
 
   const tableData: ColorTableEntry[] = []
   
@@ -465,7 +462,8 @@ function prepareColorTableData(pattern: DMCFirstPattern): ColorTableEntry[] {
         color: { r: dmcColor.r, g: dmcColor.g, b: dmcColor.b },
         icon,
         count: Number(count),
-        percentage: (Number(count) / pattern.statistics.totalPixels) * 100
+        percentage: (Number(count) / pattern.statistics.totalPixels) * 100,
+        finish: getDrillFinishInfo(dmcColor)
       })
     }
   }
@@ -479,7 +477,13 @@ function prepareColorTableData(pattern: DMCFirstPattern): ColorTableEntry[] {
 /**
  * Add color table pages to PDF (A4 portrait, max 100 rows per page)
  */
-async function addColorTablePages(pdf: any, colorTableData: ColorTableEntry[], optimalPaper: OptimalPaper) {
+async function addColorTablePages(
+  pdf: any,
+  colorTableData: ColorTableEntry[],
+  optimalPaper: OptimalPaper,
+  title: string = 'DMC Color & Icon Reference',
+  startOnNewPage: boolean = false
+) {
   // Calculate actual items per page based on A4 dimensions
   const pageWidth = 210  // A4 width in mm
   const pageHeight = 297 // A4 height in mm
@@ -508,7 +512,7 @@ async function addColorTablePages(pdf: any, colorTableData: ColorTableEntry[], o
   
   for (let pageIndex = 0; pageIndex < totalPages; pageIndex++) {
     // Add new page for color table (A4 portrait) - except for the first page
-    if (pageIndex > 0) {
+    if (pageIndex > 0 || startOnNewPage) {
       pdf.addPage([pageWidth, pageHeight], 'portrait')
     }
     
@@ -523,7 +527,7 @@ async function addColorTablePages(pdf: any, colorTableData: ColorTableEntry[], o
     // Page header
     pdf.setFontSize(16)
     setStandardFont(pdf, 'bold')
-    pdf.text('DMC Color & Icon Reference', 20, 30)
+    pdf.text(title, 20, 30)
     
     // Page info
     pdf.setFontSize(12)
@@ -578,6 +582,11 @@ async function addColorTablePages(pdf: any, colorTableData: ColorTableEntry[], o
       pdf.rect(35, yPos - 5, 15, 5, 'F')
       pdf.setDrawColor(0, 0, 0)
       pdf.rect(35, yPos - 5, 15, 5, 'S')
+      if (entry.finish) {
+        const [p1, p2, p3] = getFinishMarkPoints(45, yPos - 5, 5)
+        pdf.setFillColor(0, 0, 0)
+        pdf.triangle(p1[0], p1[1], p2[0], p2[1], p3[0], p3[1], 'F')
+      }
       
       // 🌟 Icon - Use vector rendering (consistent with PDF generation!)
       const iconXPos = 55
@@ -686,9 +695,8 @@ export async function generateVectorPDF(
     const actualBeadSizeMm = beadSizeMm || (beadType === 'circular' ? 2.8 : 2.6)
     
     // Generate icon assignments
-    const patternGrid = createPatternGrid(pattern)
-    const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
-    const iconAssignments = assignIconsToColors(uniqueColors, patternGrid)
+    const uniqueColors = getUsedColors(pattern.grid).map(color => color.code)
+    const iconAssignments = assignIconsToColors(uniqueColors, pattern.grid)
     
 
     
@@ -700,12 +708,12 @@ export async function generateVectorPDF(
     
     // Draw each bead as pure vector
     let beadCount = 0
-    for (const pixel of pattern.constrainedPixels) {
-      const x = patternStartX + (pixel.x * actualBeadSizeMm)
-      const y = patternStartY + (pixel.y * actualBeadSizeMm)
+    forEachBead(pattern.grid, (beadX, beadY, color) => {
+      const x = patternStartX + (beadX * actualBeadSizeMm)
+      const y = patternStartY + (beadY * actualBeadSizeMm)
       
       // Draw bead background as rectangle (even for circular beads to eliminate gaps)
-      pdf.setFillColor(pixel.selectedDMCColor.r, pixel.selectedDMCColor.g, pixel.selectedDMCColor.b)
+      pdf.setFillColor(color.r, color.g, color.b)
       pdf.rect(x, y, actualBeadSizeMm, actualBeadSizeMm, 'F')
       
       // Draw white circle background for icon (50% transparency)
@@ -718,7 +726,7 @@ export async function generateVectorPDF(
       pdf.setGState(pdf.GState({ opacity: 1.0 }))
       
       // Draw icon as pure vector text with precise centering
-      const icon = iconAssignments.get(pixel.selectedDMCColor.code)
+      const icon = iconAssignments.get(color.code)
       if (icon) {
         const vectorData = createVectorIconForPDF(icon, actualBeadSizeMm * 0.9) // Reduced icon area for better fit
         
@@ -753,9 +761,16 @@ export async function generateVectorPDF(
         }
       }
       
+      // Specialty drill corner mark
+      if (isSpecialtyDrill(color)) {
+        const [p1, p2, p3] = getFinishMarkPoints(x, y, actualBeadSizeMm)
+        pdf.setFillColor(0, 0, 0)
+        pdf.triangle(p1[0], p1[1], p2[0], p2[1], p3[0], p3[1], 'F')
+      }
+      
       beadCount++
       
-    }
+    })
     
     console.log(`✅ Pattern rendering completed: ${beadCount} beads as PERFECT VECTOR SQUARES with optimized icons!`)
     
@@ -769,6 +784,9 @@ export async function generateVectorPDF(
     pdf.text(`Size: ${calculatedSize.actualWidth} × ${calculatedSize.actualHeight} cm`, infoX, infoY)
     pdf.text(`Beads: ${calculatedSize.totalBeads.toLocaleString()}`, infoX, infoY + 4)
     pdf.text(`Type: ${beadType === 'circular' ? 'Circular' : 'Square'} (${actualBeadSizeMm}mm)`, infoX, infoY + 8)
+    if (pattern.seed !== undefined) {
+      pdf.text(`Seed: ${pattern.seed}`, infoX, infoY + 12) // Lets the exact chart be regenerated for reprints
+    }
     
     // Save the PDF with detailed filename
     const cleanImageName = imageName.replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9가-힣]/g, '_')
@@ -821,7 +839,14 @@ export async function generateRealSizePDF(
         orientation: 'portrait' as const,
         marginMm: 10  // Standard margin for A4 table layout
       }
-      await addColorTablePages(pdf, colorTableData, a4Paper)
+      // Specialty drills (AB, glow, ...) are listed in their own table
+      const standardEntries = colorTableData.filter(entry => !entry.finish)
+      const specialtyEntries = colorTableData.filter(entry => entry.finish)
+      
+      await addColorTablePages(pdf, standardEntries, a4Paper)
+      if (specialtyEntries.length > 0) {
+        await addColorTablePages(pdf, specialtyEntries, a4Paper, 'Specialty Drill Reference (marked corner)', standardEntries.length > 0)
+      }
     } else {
       // Add empty page with message if no colors
       setStandardFont(pdf)
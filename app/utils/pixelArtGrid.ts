@@ -0,0 +1,173 @@
+// Pixel Art Grid Detection
+// Finds the native pixel scale/offset of upscaled sprite art so each art pixel becomes exactly one bead
+
+import { createShapeMask, type CanvasShapeOption } from './canvasShapes'
+import { calculateBeadConfig, type PixelizationConfig } from './imagePixelization'
+
+export interface PixelArtGrid {
+  scale: number // Source pixels per art pixel
+  offsetX: number // First art pixel boundary (0 ≤ offset < scale); earlier columns are a partial cell
+  offsetY: number
+  gridWidth: number // Art pixels horizontally = beads
+  gridHeight: number
+  confidence: number // Share of color edges that fall on the detected grid lines (0-1)
+}
+
+const MAX_SCALE = 64
+const MIN_CONFIDENCE = 0.9
+const EDGE_TOLERANCE = 48 // Summed RGB difference below this is treated as the same color (JPEG noise)
+const MAX_NATIVE_SIZE = 320 // Unscaled (1:1) art larger than this is more likely a photo
+
+/**
+ * Detect the art pixel grid of an upscaled sprite.
+ * Returns null when the image doesn't look like pixel art (no consistent grid).
+ */
+export function detectPixelArtGrid(imageData: ImageData): PixelArtGrid | null {
+  const { width, height } = imageData
+  const columnEdges = new Uint32Array(width)
+  const rowEdges = new Uint32Array(height)
+  let totalColumnEdges = 0
+  let totalRowEdges = 0
+
+  // Count color changes between neighbouring columns and rows
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4
+      if (x > 0 && colorsDiffer(imageData.data, index - 4, index)) {
+        columnEdges[x]++
+        totalColumnEdges++
+      }
+      if (y > 0 && colorsDiffer(imageData.data, index - width * 4, index)) {
+        rowEdges[y]++
+        totalRowEdges++
+      }
+    }
+  }
+
+  if (totalColumnEdges + totalRowEdges === 0) {
+    return null // Solid color, nothing to detect
+  }
+
+  // Largest scale whose grid lines explain (almost) every color edge
+  const maxScale = Math.min(MAX_SCALE, Math.floor(Math.min(width, height) / 2))
+  for (let scale = maxScale; scale >= 1; scale--) {
+    const columns = findBestOffset(columnEdges, totalColumnEdges, scale)
+    const rows = findBestOffset(rowEdges, totalRowEdges, scale)
+    const confidence = Math.min(columns.ratio, rows.ratio)
+    if (confidence < MIN_CONFIDENCE) continue
+
+    const gridWidth = getCellStarts(width, scale, columns.offset).length
+    const gridHeight = getCellStarts(height, scale, rows.offset).length
+    if (scale === 1 && (gridWidth > MAX_NATIVE_SIZE || gridHeight > MAX_NATIVE_SIZE)) {
+      return null
+    }
+
+    return {
+      scale,
+      offsetX: columns.offset,
+      offsetY: rows.offset,
+      gridWidth,
+      gridHeight,
+      confidence
+    }
+  }
+
+  return null
+}
+
+/**
+ * Downsample to one pixel per art pixel, taking each cell's center pixel as-is (no averaging)
+ */
+export function extractPixelArtImage(imageData: ImageData, grid: PixelArtGrid): ImageData {
+  const columnStarts = getCellStarts(imageData.width, grid.scale, grid.offsetX)
+  const rowStarts = getCellStarts(imageData.height, grid.scale, grid.offsetY)
+  const data = new Uint8ClampedArray(columnStarts.length * rowStarts.length * 4)
+
+  const centers = (starts: number[], size: number) => starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : Math.min(start + grid.scale, size)
+    return Math.floor((start + end - 1) / 2)
+  })
+  const centerXs = centers(columnStarts, imageData.width)
+  const centerYs = centers(rowStarts, imageData.height)
+
+  for (let y = 0; y < centerYs.length; y++) {
+    for (let x = 0; x < centerXs.length; x++) {
+      const source = (centerYs[y] * imageData.width + centerXs[x]) * 4
+      const target = (y * centerXs.length + x) * 4
+      data[target] = imageData.data[source]
+      data[target + 1] = imageData.data[source + 1]
+      data[target + 2] = imageData.data[source + 2]
+      data[target + 3] = imageData.data[source + 3]
+    }
+  }
+
+  return new ImageData(data, centerXs.length, centerYs.length)
+}
+
+/**
+ * Bead grid for pixel-art mode: one bead per art pixel, physical size follows from the bead size
+ */
+export function calculatePixelArtConfig(
+  grid: PixelArtGrid,
+  beadType: 'circular' | 'square',
+  beadSize?: number,
+  canvasShape?: CanvasShapeOption
+): PixelizationConfig {
+  const beadConfig = calculateBeadConfig(beadType, beadSize)
+
+  return {
+    targetWidth: grid.gridWidth / beadConfig.beadsPerCm,
+    targetHeight: grid.gridHeight / beadConfig.beadsPerCm,
+    beadGridWidth: grid.gridWidth,
+    beadGridHeight: grid.gridHeight,
+    beadConfig,
+    shapeMask: canvasShape ? createShapeMask(canvasShape, grid.gridWidth, grid.gridHeight) : undefined
+  }
+}
+
+function colorsDiffer(data: Uint8ClampedArray, a: number, b: number): boolean {
+  if (Math.abs(data[a + 3] - data[b + 3]) > 64) return true
+  if (data[a + 3] === 0 && data[b + 3] === 0) return false // Both transparent
+  return Math.abs(data[a] - data[b]) + Math.abs(data[a + 1] - data[b + 1]) + Math.abs(data[a + 2] - data[b + 2]) > EDGE_TOLERANCE
+}
+
+/**
+ * Offset whose grid lines (offset, offset + scale, ...) collect the most edges
+ */
+function findBestOffset(edges: Uint32Array, totalEdges: number, scale: number): { offset: number, ratio: number } {
+  if (totalEdges === 0) {
+    return { offset: 0, ratio: 1 } // No edges in this direction (e.g. stripes); any offset fits
+  }
+
+  let bestOffset = 0
+  let bestCount = -1
+  for (let offset = 0; offset < scale; offset++) {
+    let count = 0
+    for (let i = offset; i < edges.length; i += scale) {
+      count += edges[i]
+    }
+    if (count > bestCount) {
+      bestCount = count
+      bestOffset = offset
+    }
+  }
+
+  return { offset: bestOffset, ratio: bestCount / totalEdges }
+}
+
+/**
+ * Start positions of art pixels along one axis. Partial cells at either edge are kept
+ * when at least half an art pixel is visible.
+ */
+function getCellStarts(size: number, scale: number, offset: number): number[] {
+  const starts: number[] = []
+  if (offset > 0 && offset * 2 >= scale) {
+    starts.push(0)
+  }
+  for (let start = offset; start < size; start += scale) {
+    if ((size - start) * 2 >= scale) {
+      starts.push(start)
+    }
+  }
+  return starts
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { DMC_COLORS } from './dmcColors'
+import { calculateBeadConfig, type PixelizationConfig } from './imagePixelization'
+import { computeRateDistortionCurve } from './rateDistortion'
+
+// Three vertical stripes of exact catalog colors, one source pixel per bead
+function createStripeImage(width: number, height: number): { imageData: ImageData, config: PixelizationConfig } {
+  const stripes = [DMC_COLORS[0], DMC_COLORS[100], DMC_COLORS[200]]
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = stripes[Math.floor((x * stripes.length) / width)]
+      data.set([color.r, color.g, color.b, 255], (y * width + x) * 4)
+    }
+  }
+  const config: PixelizationConfig = {
+    targetWidth: width,
+    targetHeight: height,
+    beadGridWidth: width,
+    beadGridHeight: height,
+    beadConfig: calculateBeadConfig('square')
+  }
+  return { imageData: { width, height, data, colorSpace: 'srgb' } as ImageData, config }
+}
+
+describe('computeRateDistortionCurve', () => {
+  it('stops at the number of colors the image uses, with error falling at each step', () => {
+    const { imageData, config } = createStripeImage(12, 4)
+    const curve = computeRateDistortionCurve(imageData, config, 60)
+
+    expect(curve.points.map(point => point.colorCount)).toEqual([1, 2, 3])
+    expect(curve.points[0].meanDeltaE).toBeGreaterThan(curve.points[1].meanDeltaE)
+    expect(curve.points[1].meanDeltaE).toBeGreaterThan(curve.points[2].meanDeltaE)
+    expect(curve.kneeColorCount).toBeGreaterThanOrEqual(1)
+    expect(curve.kneeColorCount).toBeLessThanOrEqual(3)
+    expect(curve.sampledBeads).toBe(48)
+  })
+})
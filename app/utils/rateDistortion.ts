@@ -0,0 +1,146 @@
+// Rate–Distortion Analysis
+// Measured color error for every palette size from a single greedy palette build,
+// so users can see what each extra drill color actually buys them.
+
+import { DMC_COLORS, type DMCColor } from './dmcColors'
+import { rgbToLab, deltaE2000, type LABColor } from './colorMatching'
+import { type PixelizationConfig } from './imagePixelization'
+import { getCatalogColorLab } from './drillCatalogs'
+import { isSpecialtyDrill } from './drillFinishes'
+import { pixelizeWithFullDMCMatching } from './dmcFirstMatching'
+
+export interface RateDistortionPoint {
+  colorCount: number
+  meanDeltaE: number // Mean ΔE2000 between each bead's color and its nearest palette drill
+  p95DeltaE: number // 95th percentile of the same distances (worst visible beads)
+}
+
+export interface RateDistortionCurve {
+  points: RateDistortionPoint[] // One per color count, ascending from 1
+  kneeColorCount: number // Where extra colors stop paying off (largest bend of the mean curve)
+  sampledBeads: number
+}
+
+// Error is measured on an evenly spaced subset of beads on large grids
+const MAX_SAMPLED_BEADS = 6000
+
+/**
+ * Mean and 95th-percentile ΔE for every color count from 1 to maxColors in one pass.
+ * Palettes are grown greedily (each step adds the catalog color that lowers total usage-weighted
+ * ΔE the most), the same build the optimized palette reducer starts from, so each point is the
+ * error of a real palette of that size rather than an estimate.
+ */
+export function computeRateDistortionCurve(
+  imageData: ImageData,
+  config: PixelizationConfig,
+  maxColors: number = 60,
+  catalogColors: DMCColor[] = DMC_COLORS
+): RateDistortionCurve {
+  const matchableColors = catalogColors.filter(color => !isSpecialtyDrill(color))
+  const beads = pixelizeWithFullDMCMatching(imageData, config, matchableColors)
+  if (beads.length === 0) {
+    return { points: [], kneeColorCount: 0, sampledBeads: 0 }
+  }
+
+  const step = Math.ceil(beads.length / MAX_SAMPLED_BEADS)
+  const beadLabs: LABColor[] = []
+  for (let i = 0; i < beads.length; i += step) {
+    beadLabs.push(rgbToLab(beads[i].averageColor))
+  }
+
+  // Palette selection works on the full-catalog matches, weighted by bead count
+  const usage = new Map<string, { color: DMCColor, count: number }>()
+  for (const bead of beads) {
+    const entry = usage.get(bead.matchedDMCColor.code)
+    if (entry) {
+      entry.count++
+    } else {
+      usage.set(bead.matchedDMCColor.code, { color: bead.matchedDMCColor, count: 1 })
+    }
+  }
+  const usedColors = Array.from(usage.values())
+  const usedLabs = usedColors.map(entry => getCatalogColorLab(entry.color))
+  const candidateLabs = matchableColors.map(color => getCatalogColorLab(color))
+
+  // distances[c * U + u] = ΔE between candidate c and used color u
+  const usedCount = usedColors.length
+  const distances = new Float32Array(matchableColors.length * usedCount)
+  candidateLabs.forEach((lab, c) => {
+    for (let u = 0; u < usedCount; u++) {
+      distances[c * usedCount + u] = deltaE2000(lab, usedLabs[u])
+    }
+  })
+
+  // More colors than the full-catalog match uses can't lower the error further
+  const limit = Math.max(1, Math.min(maxColors, usedCount))
+  const nearestUsed = new Float64Array(usedCount).fill(Infinity)
+  const nearestBead = new Float64Array(beadLabs.length).fill(Infinity)
+  const chosen = new Uint8Array(matchableColors.length)
+  const points: RateDistortionPoint[] = []
+
+  for (let colorCount = 1; colorCount <= limit; colorCount++) {
+    let bestCandidate = -1
+    let bestCost = Infinity
+    for (let c = 0; c < matchableColors.length; c++) {
+      if (chosen[c]) continue
+      let cost = 0
+      for (let u = 0; u < usedCount; u++) {
+        cost += usedColors[u].count * Math.min(nearestUsed[u], distances[c * usedCount + u])
+      }
+      if (cost < bestCost) {
+        bestCost = cost
+        bestCandidate = c
+      }
+    }
+    if (bestCandidate < 0) break
+
+    chosen[bestCandidate] = 1
+    for (let u = 0; u < usedCount; u++) {
+      nearestUsed[u] = Math.min(nearestUsed[u], distances[bestCandidate * usedCount + u])
+    }
+
+    // Measure on the beads' own colors, not their catalog matches
+    let total = 0
+    for (let b = 0; b < beadLabs.length; b++) {
+      nearestBead[b] = Math.min(nearestBead[b], deltaE2000(beadLabs[b], candidateLabs[bestCandidate]))
+      total += nearestBead[b]
+    }
+    const sorted = Float64Array.from(nearestBead).sort()
+    points.push({
+      colorCount,
+      meanDeltaE: total / beadLabs.length,
+      p95DeltaE: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))]
+    })
+  }
+
+  return { points, kneeColorCount: findKnee(points), sampledBeads: beadLabs.length }
+}
+
+/**
+ * Knee of the mean-error curve (Kneedle): the point farthest above the straight line
+ * from the first to the last point once both axes are normalized to 0-1
+ */
+function findKnee(points: RateDistortionPoint[]): number {
+  if (points.length < 3) {
+    return points.length > 0 ? points[points.length - 1].colorCount : 0
+  }
+
+  const first = points[0]
+  const last = points[points.length - 1]
+  const errorRange = first.meanDeltaE - last.meanDeltaE
+  if (errorRange <= 0) {
+    return first.colorCount
+  }
+
+  let kneeColorCount = first.colorCount
+  let bestGap = -Infinity
+  for (const point of points) {
+    const x = (point.colorCount - first.colorCount) / (last.colorCount - first.colorCount)
+    const y = (first.meanDeltaE - point.meanDeltaE) / errorRange
+    if (y - x > bestGap) {
+      bestGap = y - x
+      kneeColorCount = point.colorCount
+    }
+  }
+  return kneeColorCount
+}
@@ -1,6 +1,8 @@
 // Real Scale Pattern Renderer
 // PRECISION: Renders patterns at exact 1:1 physical scale
 
+import { getCellColor, type PatternGrid } from './patternGrid'
+
 export interface RealScaleConfig {
   beadType: 'circular' | 'square'
   patternWidthCm: number
@@ -91,20 +93,25 @@ export async function renderRealScalePattern(
   ctx.fillRect(0, 0, metrics.patternWidthPx, metrics.patternHeightPx)
   
   // Draw each bead with precise positioning
-  const pixels = pattern.constrainedPixels || []
+  const grid: PatternGrid = pattern.grid
   
-  for (const pixel of pixels) {
-    const x = pixel.x * metrics.beadSizePx
-    const y = pixel.y * metrics.beadSizePx
-    
-    // Draw bead color background
-    ctx.fillStyle = `rgb(${pixel.selectedDMCColor.r}, ${pixel.selectedDMCColor.g}, ${pixel.selectedDMCColor.b})`
-    ctx.fillRect(x, y, metrics.beadSizePx, metrics.beadSizePx)
-    
-    // Draw icon with precise sizing
-    const icon = iconAssignments.get(pixel.selectedDMCColor.code)
-    if (icon) {
-      await drawRealScaleIcon(ctx, icon, x, y, metrics.beadSizePx)
+  for (let beadY = 0; beadY < grid.height; beadY++) {
+    for (let beadX = 0; beadX < grid.width; beadX++) {
+      const color = getCellColor(grid, beadX, beadY)
+      if (!color) continue
+      
+      const x = beadX * metrics.beadSizePx
+      const y = beadY * metrics.beadSizePx
+      
+      // Draw bead color background
+      ctx.fillStyle = `rgb(${color.r}, ${color.g}, ${color.b})`
+      ctx.fillRect(x, y, metrics.beadSizePx, metrics.beadSizePx)
+      
+      // Draw icon with precise sizing
+      const icon = iconAssignments.get(color.code)
+      if (icon) {
+        await drawRealScaleIcon(ctx, icon, x, y, metrics.beadSizePx)
+      }
     }
   }
   
@@ -0,0 +1,257 @@
+// Saliency Map
+// Classical (no ML) estimate of where the subject is: spectral residual + edge density.
+// Used to give the subject more of the color budget and simplify the background.
+
+import { type PixelizationConfig } from './imagePixelization'
+
+export interface SaliencyMap {
+  width: number
+  height: number
+  values: Float32Array // 0-1, row-major, at the map resolution
+}
+
+export interface SaliencyOptions {
+  strength: number // 0 = plain pixel counts, 1 = background counts SALIENCY_FLOOR as much as the subject
+}
+
+// Spectral residual works on a small fixed-size thumbnail (power of two for the FFT)
+const MAP_SIZE = 64
+const SPECTRAL_WEIGHT = 0.6
+const EDGE_WEIGHT = 0.4
+const SALIENCY_FLOOR = 0.1
+
+/**
+ * Compute a saliency map: spectral residual (Hou & Zhang 2007) blended with local edge density
+ */
+export function computeSaliencyMap(imageData: ImageData): SaliencyMap {
+  const luma = downsampleLuma(imageData, MAP_SIZE, MAP_SIZE)
+  const spectral = normalize(spectralResidual(luma, MAP_SIZE))
+  const edges = normalize(boxBlur(sobelMagnitude(luma, MAP_SIZE, MAP_SIZE), MAP_SIZE, MAP_SIZE, 3))
+
+  const values = new Float32Array(MAP_SIZE * MAP_SIZE)
+  for (let i = 0; i < values.length; i++) {
+    values[i] = spectral[i] * SPECTRAL_WEIGHT + edges[i] * EDGE_WEIGHT
+  }
+
+  return { width: MAP_SIZE, height: MAP_SIZE, values: normalize(values) }
+}
+
+/**
+ * Saliency at a position given in source image coordinates
+ */
+export function getSaliencyAt(map: SaliencyMap, x: number, y: number, imageWidth: number, imageHeight: number): number {
+  const mx = Math.min(map.width - 1, Math.floor((x / imageWidth) * map.width))
+  const my = Math.min(map.height - 1, Math.floor((y / imageHeight) * map.height))
+  return map.values[my * map.width + mx]
+}
+
+/**
+ * Convert saliency to a sampling/usage weight for the given strength
+ */
+export function saliencyToWeight(saliency: number, strength: number): number {
+  const clamped = Math.min(Math.max(strength, 0), 1)
+  return 1 - clamped + clamped * (SALIENCY_FLOOR + (1 - SALIENCY_FLOOR) * saliency)
+}
+
+/**
+ * Usage weight per bead grid cell (row-major), for saliency-weighted color counting
+ */
+export function calculateCellSaliencyWeights(map: SaliencyMap, config: PixelizationConfig, strength: number): Float32Array {
+  const weights = new Float32Array(config.beadGridWidth * config.beadGridHeight)
+
+  for (let y = 0; y < config.beadGridHeight; y++) {
+    for (let x = 0; x < config.beadGridWidth; x++) {
+      const saliency = getSaliencyAt(map, x + 0.5, y + 0.5, config.beadGridWidth, config.beadGridHeight)
+      weights[y * config.beadGridWidth + x] = saliencyToWeight(saliency, strength)
+    }
+  }
+
+  return weights
+}
+
+/**
+ * Box-averaged luma thumbnail; transparent pixels count as black
+ */
+function downsampleLuma(imageData: ImageData, width: number, height: number): Float64Array {
+  const luma = new Float64Array(width * height)
+  const counts = new Uint32Array(width * height)
+  const data = imageData.data
+
+  for (let y = 0; y < imageData.height; y++) {
+    const ty = Math.min(height - 1, Math.floor((y / imageData.height) * height))
+    for (let x = 0; x < imageData.width; x++) {
+      const tx = Math.min(width - 1, Math.floor((x / imageData.width) * width))
+      const index = (y * imageData.width + x) * 4
+      const alpha = data[index + 3] / 255
+      luma[ty * width + tx] += (data[index] * 0.299 + data[index + 1] * 0.587 + data[index + 2] * 0.114) * alpha
+      counts[ty * width + tx]++
+    }
+  }
+
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = counts[i] > 0 ? luma[i] / counts[i] / 255 : 0
+  }
+  return luma
+}
+
+/**
+ * Spectral residual: log amplitude minus its local average, transformed back with the original phase
+ */
+function spectralResidual(luma: Float64Array, size: number): Float64Array {
+  const re = Float64Array.from(luma)
+  const im = new Float64Array(size * size)
+  fft2D(re, im, size, false)
+
+  const logAmplitude = new Float64Array(size * size)
+  const phase = new Float64Array(size * size)
+  for (let i = 0; i < re.length; i++) {
+    logAmplitude[i] = Math.log(Math.hypot(re[i], im[i]) + 1e-9)
+    phase[i] = Math.atan2(im[i], re[i])
+  }
+
+  const averaged = boxBlur(logAmplitude, size, size, 1)
+  for (let i = 0; i < re.length; i++) {
+    const magnitude = Math.exp(logAmplitude[i] - averaged[i])
+    re[i] = magnitude * Math.cos(phase[i])
+    im[i] = magnitude * Math.sin(phase[i])
+  }
+
+  fft2D(re, im, size, true)
+  const result = new Float64Array(size * size)
+  for (let i = 0; i < result.length; i++) {
+    result[i] = re[i] * re[i] + im[i] * im[i]
+  }
+
+  // Smooth to blobs (three box passes ≈ Gaussian)
+  return boxBlur(boxBlur(boxBlur(result, size, size, 2), size, size, 2), size, size, 2)
+}
+
+/**
+ * In-place 2D FFT on a square power-of-two grid (rows, then columns)
+ */
+function fft2D(re: Float64Array, im: Float64Array, size: number, inverse: boolean): void {
+  const rowRe = new Float64Array(size)
+  const rowIm = new Float64Array(size)
+
+  for (let pass = 0; pass < 2; pass++) {
+    for (let line = 0; line < size; line++) {
+      for (let i = 0; i < size; i++) {
+        const index = pass === 0 ? line * size + i : i * size + line
+        rowRe[i] = re[index]
+        rowIm[i] = im[index]
+      }
+      fft1D(rowRe, rowIm, inverse)
+      for (let i = 0; i < size; i++) {
+        const index = pass === 0 ? line * size + i : i * size + line
+        re[index] = rowRe[i]
+        im[index] = rowIm[i]
+      }
+    }
+  }
+}
+
+/**
+ * Iterative radix-2 Cooley–Tukey FFT (inverse is scaled by 1/n)
+ */
+function fft1D(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) {
+      j ^= bit
+    }
+    j ^= bit
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]]
+    }
+  }
+
+  for (let length = 2; length <= n; length <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / length
+    const stepRe = Math.cos(angle)
+    const stepIm = Math.sin(angle)
+    for (let start = 0; start < n; start += length) {
+      let wRe = 1
+      let wIm = 0
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k
+        const b = a + length / 2
+        const tRe = re[b] * wRe - im[b] * wIm
+        const tIm = re[b] * wIm + im[b] * wRe
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+        const nextRe = wRe * stepRe - wIm * stepIm
+        wIm = wRe * stepIm + wIm * stepRe
+        wRe = nextRe
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n
+      im[i] /= n
+    }
+  }
+}
+
+function sobelMagnitude(luma: Float64Array, width: number, height: number): Float64Array {
+  const result = new Float64Array(width * height)
+  const at = (x: number, y: number) =>
+    luma[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)
+      result[y * width + x] = Math.hypot(gx, gy)
+    }
+  }
+  return result
+}
+
+/**
+ * Mean over a (2r+1)² window, clamped at the borders
+ */
+function boxBlur(values: Float64Array, width: number, height: number, radius: number): Float64Array {
+  const result = new Float64Array(values.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let total = 0
+      let count = 0
+      for (let dy = -radius; dy <= radius; dy++) {
+        const ny = y + dy
+        if (ny < 0 || ny >= height) continue
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx
+          if (nx < 0 || nx >= width) continue
+          total += values[ny * width + nx]
+          count++
+        }
+      }
+      result[y * width + x] = total / count
+    }
+  }
+  return result
+}
+
+function normalize<T extends Float32Array | Float64Array>(values: T): T {
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0; i < values.length; i++) {
+    min = Math.min(min, values[i])
+    max = Math.max(max, values[i])
+  }
+  const range = max - min
+  for (let i = 0; i < values.length; i++) {
+    values[i] = range > 0 ? (values[i] - min) / range : 0
+  }
+  return values
+}
@@ -0,0 +1,42 @@
+// Seeded Random Numbers
+// Every random choice in pattern generation goes through a RandomSource, so a pattern
+// generated with the same seed and settings is identical bead for bead.
+
+/**
+ * Returns a float in [0, 1), like Math.random
+ */
+export type RandomSource = () => number
+
+/**
+ * Mulberry32: small, fast 32-bit PRNG; plenty for sampling and k-means++ seeding
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Fresh seed for a new pattern (the only non-reproducible step; the seed itself is recorded)
+ */
+export function generatePatternSeed(): number {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0]
+  }
+  return Math.floor(Math.random() * 4294967296)
+}
+
+/**
+ * Parse a user-entered seed; empty or invalid input means "new seed each time"
+ */
+export function parsePatternSeed(input: string): number | null {
+  const trimmed = input.trim()
+  if (!/^\d+$/.test(trimmed)) return null
+  const seed = Number(trimmed)
+  return seed <= 0xFFFFFFFF ? seed : null
+}
@@ -3,30 +3,9 @@
 
 import { assignIconsToColors } from './iconPlacement'
 import { DMCFirstPattern } from '../hooks/useDMCFirstPatternGeneration'
+import { forEachBead, getUsedColors } from './patternGrid'
 import { createVectorIconForPDF } from './svgIconGenerator'
-
-/**
- * Create pattern grid from DMC pattern
- */
-function createPatternGrid(pattern: DMCFirstPattern): Array<Array<string>> {
-  const grid: Array<Array<string>> = []
-  const width = pattern.config.beadGridWidth
-  const height = pattern.config.beadGridHeight
-  
-  // Initialize grid
-  for (let y = 0; y < height; y++) {
-    grid[y] = new Array(width).fill('')
-  }
-  
-  // Fill grid with DMC codes
-  for (const pixel of pattern.constrainedPixels) {
-    if (pixel.x < width && pixel.y < height) {
-      grid[pixel.y][pixel.x] = pixel.selectedDMCColor.code
-    }
-  }
-  
-  return grid
-}
+import { isSpecialtyDrill, getFinishMarkPoints } from './drillFinishes'
 
 /**
  * Generate pure SVG pattern (no margins, no info)
@@ -54,9 +33,8 @@ export function generatePureSVGPattern(
   console.log(`📐 Creating pure SVG pattern: ${patternWidthMm.toFixed(1)}mm × ${patternHeightMm.toFixed(1)}mm`)
   
   // Generate icon assignments
-  const patternGrid = createPatternGrid(pattern)
-  const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
-  const iconAssignments = assignIconsToColors(uniqueColors, patternGrid)
+  const uniqueColors = getUsedColors(pattern.grid).map(color => color.code)
+  const iconAssignments = assignIconsToColors(uniqueColors, pattern.grid)
   
   // Start building SVG content
   let svgContent = `<svg width="${patternWidthMm}mm" height="${patternHeightMm}mm" 
@@ -67,26 +45,26 @@ export function generatePureSVGPattern(
   <!-- Pattern Background -->`
   
   // Draw each bead background
-  for (const pixel of pattern.constrainedPixels) {
-    const x = pixel.x * actualBeadSizeMm
-    const y = pixel.y * actualBeadSizeMm
+  forEachBead(pattern.grid, (beadX, beadY, color) => {
+    const x = beadX * actualBeadSizeMm
+    const y = beadY * actualBeadSizeMm
     
     svgContent += `
   <rect x="${x}" y="${y}" width="${actualBeadSizeMm}" height="${actualBeadSizeMm}" 
-        fill="rgb(${pixel.selectedDMCColor.r}, ${pixel.selectedDMCColor.g}, ${pixel.selectedDMCColor.b})" 
-        stroke="rgb(${pixel.selectedDMCColor.r}, ${pixel.selectedDMCColor.g}, ${pixel.selectedDMCColor.b})" 
+        fill="rgb(${color.r}, ${color.g}, ${color.b})" 
+        stroke="rgb(${color.r}, ${color.g}, ${color.b})" 
         stroke-width="0.1" 
         shape-rendering="crispEdges" />`
-  }
+  })
   
   svgContent += `
   
   <!-- Icon Backgrounds -->`
   
   // Draw white circle backgrounds for icons
-  for (const pixel of pattern.constrainedPixels) {
-    const x = pixel.x * actualBeadSizeMm
-    const y = pixel.y * actualBeadSizeMm
+  forEachBead(pattern.grid, (beadX, beadY) => {
+    const x = beadX * actualBeadSizeMm
+    const y = beadY * actualBeadSizeMm
     
     const centerX = x + actualBeadSizeMm / 2
     const centerY = y + actualBeadSizeMm / 2
@@ -95,18 +73,18 @@ export function generatePureSVGPattern(
     svgContent += `
   <circle cx="${centerX}" cy="${centerY}" r="${circleRadius}" 
           fill="white" opacity="0.1" />`
-  }
+  })
   
   svgContent += `
   
   <!-- Icons -->`
   
   // Draw icons as text elements
-  for (const pixel of pattern.constrainedPixels) {
-    const x = pixel.x * actualBeadSizeMm
-    const y = pixel.y * actualBeadSizeMm
+  forEachBead(pattern.grid, (beadX, beadY, color) => {
+    const x = beadX * actualBeadSizeMm
+    const y = beadY * actualBeadSizeMm
     
-    const icon = iconAssignments.get(pixel.selectedDMCColor.code)
+    const icon = iconAssignments.get(color.code)
     if (icon) {
       const vectorData = createVectorIconForPDF(icon, actualBeadSizeMm * 0.8)
       
@@ -140,7 +118,20 @@ export function generatePureSVGPattern(
     ${escapeXmlEntities(vectorData.symbol)}
   </text>`
     }
-  }
+  })
+  
+  svgContent += `
+  
+  <!-- Specialty Drill Marks -->`
+  
+  // Corner triangle on AB / fluorescent / glow / metallic drills
+  forEachBead(pattern.grid, (beadX, beadY, color) => {
+    if (!isSpecialtyDrill(color)) return
+    
+    const points = getFinishMarkPoints(beadX * actualBeadSizeMm, beadY * actualBeadSizeMm, actualBeadSizeMm)
+    svgContent += `
+  <polygon points="${points.map(([px, py]) => `${px},${py}`).join(' ')}" fill="black" />`
+  })
   
   // Note: Grid lines removed for cleaner SVG output
   
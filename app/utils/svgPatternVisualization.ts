@@ -2,6 +2,7 @@
 // Creates lightweight, scalable SVG patterns for web display
 
 import { DMCFirstPattern } from '../hooks/useDMCFirstPatternGeneration'
+import { forEachBead, getUsedColors } from './patternGrid'
 import { assignIconsToColors, type Icon } from './iconPlacement'
 import { createVectorIconForPDF } from './svgIconGenerator'
 
@@ -29,29 +30,6 @@ const DEFAULT_SVG_OPTIONS: SVGPatternOptions = {
   iconColor: '#000000'
 }
 
-/**
- * Create pattern grid from DMC pattern data
- */
-function createPatternGrid(pattern: DMCFirstPattern): Array<Array<string>> {
-  const grid: Array<Array<string>> = []
-  const width = pattern.config.beadGridWidth
-  const height = pattern.config.beadGridHeight
-  
-  // Initialize grid
-  for (let y = 0; y < height; y++) {
-    grid[y] = new Array(width).fill('')
-  }
-  
-  // Fill grid with DMC codes
-  for (const pixel of pattern.constrainedPixels) {
-    if (pixel.x < width && pixel.y < height) {
-      grid[pixel.y][pixel.x] = pixel.selectedDMCColor.code
-    }
-  }
-  
-  return grid
-}
-
 /**
  * 🚀 Render pattern as SVG for web display (INFINITE SCALABILITY!)
  * Uses same vector logic as PDF generation for consistent quality
@@ -73,9 +51,8 @@ export async function renderPatternToSVG(
   const svgHeight = patternHeight * opts.scale
   
   // Create pattern grid and assign icons
-  const patternGrid = createPatternGrid(pattern)
-  const uniqueColors = Array.from(new Set(pattern.constrainedPixels.map(p => p.selectedDMCColor.code)))
-  const iconAssignments = assignIconsToColors(uniqueColors, patternGrid)
+  const uniqueColors = getUsedColors(pattern.grid).map(color => color.code)
+  const iconAssignments = assignIconsToColors(uniqueColors, pattern.grid)
   
   // Calculate icon size in pixels (converted from vector logic)
   const iconSizePx = opts.scale * opts.iconScale
@@ -88,25 +65,25 @@ export async function renderPatternToSVG(
   
   // Add color backgrounds first (if enabled) - NO GAPS, NO STROKES
   if (opts.showColors) {
-    for (const pixel of pattern.constrainedPixels) {
-      const x = pixel.x * opts.scale
-      const y = pixel.y * opts.scale
-      const color = `rgb(${pixel.selectedDMCColor.r}, ${pixel.selectedDMCColor.g}, ${pixel.selectedDMCColor.b})`
+    forEachBead(pattern.grid, (beadX, beadY, color) => {
+      const x = beadX * opts.scale
+      const y = beadY * opts.scale
+      const fill = `rgb(${color.r}, ${color.g}, ${color.b})`
       
       // 🎯 PERFECT FILL: No stroke, no gaps, seamless color blocks
-      svgContent += `<rect x="${x}" y="${y}" width="${opts.scale}" height="${opts.scale}" fill="${color}" stroke="none" shape-rendering="crispEdges"/>`
-    }
+      svgContent += `<rect x="${x}" y="${y}" width="${opts.scale}" height="${opts.scale}" fill="${fill}" stroke="none" shape-rendering="crispEdges"/>`
+    })
   }
   
   // 🎯 REMOVED: Icon backgrounds completely removed to eliminate white circles
   
   // Add icons (if enabled)
   if (opts.showIcons) {
-    for (const pixel of pattern.constrainedPixels) {
-      const icon = iconAssignments.get(pixel.selectedDMCColor.code)
+    forEachBead(pattern.grid, (beadX, beadY, color) => {
+      const icon = iconAssignments.get(color.code)
       if (icon) {
-        const x = pixel.x * opts.scale
-        const y = pixel.y * opts.scale
+        const x = beadX * opts.scale
+        const y = beadY * opts.scale
         const centerX = x + opts.scale / 2
         const centerY = y + opts.scale / 2
         
@@ -133,7 +110,7 @@ export async function renderPatternToSVG(
           `fill="${opts.iconColor}" ` +
           `style="text-rendering: geometricPrecision; shape-rendering: geometricPrecision;">${escapeXmlEntities(vectorIcon.symbol)}</text>`
       }
-    }
+    })
   }
   
   // 🎯 REMOVED: All grid line rendering completely eliminated
@@ -0,0 +1,114 @@
+// Pattern Generation Worker
+// Runs the matching → reduction → remapping pipeline off the main thread and streams progress back.
+// Started by generateFullDMCPatternInWorker and kept between runs, so the full-catalog match cache
+// survives a color count change; terminated when a run fails or is cancelled while still matching.
+// Requests run one at a time. A run cancelled after matching gets a cancel message instead and
+// stops as its next phase starts, so the request queued behind it doesn't wait for the whole pipeline.
+
+import {
+  generateFullDMCPattern,
+  type FullDMCGenerationOptions,
+  type FullDMCPattern,
+  type PatternGenerationProgress
+} from '../utils/dmcFirstMatching'
+import { getDrillCatalog, registerDrillCatalog, type DrillCatalog } from '../utils/drillCatalogs'
+import { type PixelizationConfig } from '../utils/imagePixelization'
+
+export interface PatternWorkerRequest {
+  type: 'generate'
+  id: number // Echoed in every reply; replies to a cancelled request are ignored
+  width: number
+  height: number
+  pixels: ArrayBuffer // RGBA bytes of the source ImageData, transferred rather than copied
+  config: PixelizationConfig
+  targetColorCount: number
+  analysisQuality: 'fast' | 'standard' | 'high'
+  customColorCodes?: string[]
+  generationOptions: Omit<FullDMCGenerationOptions, 'onProgress' | 'signal'>
+  catalog?: DrillCatalog // User-imported catalog; workers can't read the localStorage registry
+}
+
+export interface PatternWorkerCancel {
+  type: 'cancel'
+  id: number // Request to stop; it posts no further replies
+}
+
+export type PatternWorkerMessage =
+  | { type: 'progress', id: number, progress: PatternGenerationProgress }
+  | { type: 'done', id: number, pattern: FullDMCPattern }
+  | { type: 'error', id: number, message: string }
+
+const worker = self as unknown as Worker
+
+const post = (message: PatternWorkerMessage) => worker.postMessage(message)
+
+// Requests queued or running, by id
+const controllers = new Map<number, AbortController>()
+let queue: Promise<void> = Promise.resolve()
+
+/**
+ * Same catalog as the one already registered? Keeping the registered copy keeps its
+ * color objects, which the cached match refers to.
+ */
+function isRegistered(catalog: DrillCatalog): boolean {
+  const registered = getDrillCatalog(catalog.id)
+  return registered.id === catalog.id &&
+    registered.name === catalog.name &&
+    registered.colors.length === catalog.colors.length &&
+    registered.colors.every((color, i) => {
+      const other = catalog.colors[i]
+      return color.code === other.code && color.name === other.name &&
+        color.r === other.r && color.g === other.g && color.b === other.b && color.finish === other.finish
+    })
+}
+
+worker.onmessage = (event: MessageEvent<PatternWorkerRequest | PatternWorkerCancel>) => {
+  const command = event.data
+  if (command.type === 'cancel') {
+    controllers.get(command.id)?.abort()
+    return
+  }
+
+  const controller = new AbortController()
+  controllers.set(command.id, controller)
+  queue = queue.then(() => runRequest(command, controller.signal))
+}
+
+async function runRequest(request: PatternWorkerRequest, signal: AbortSignal): Promise<void> {
+  try {
+    if (signal.aborted) return
+    if (request.catalog && !isRegistered(request.catalog)) {
+      registerDrillCatalog(request.catalog)
+    }
+    const imageData = new ImageData(new Uint8ClampedArray(request.pixels), request.width, request.height)
+
+    // Matching reports every bead row; only whole-percent steps are posted
+    let lastPercent = -1
+    const pattern = await generateFullDMCPattern(
+      imageData,
+      request.config,
+      request.targetColorCount,
+      request.analysisQuality,
+      request.customColorCodes,
+      {
+        ...request.generationOptions,
+        signal,
+        onProgress: progress => {
+          if (progress.fraction !== undefined) {
+            const percent = Math.floor(progress.fraction * 100)
+            if (percent === lastPercent) return
+            lastPercent = percent
+          }
+          post({ type: 'progress', id: request.id, progress })
+        }
+      }
+    )
+
+    post({ type: 'done', id: request.id, pattern })
+  } catch (error) {
+    if (signal.aborted) return // The main thread stopped listening when it cancelled
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) })
+  } finally {
+    controllers.delete(request.id)
+  }
+}
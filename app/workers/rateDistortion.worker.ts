@@ -0,0 +1,37 @@
+// Rate–Distortion Worker
+// Measures the color error per color count off the main thread (full-catalog match plus the greedy
+// palette build take seconds on large grids). Started by computeRateDistortionCurveInWorker for
+// one measurement and terminated when it is done or cancelled.
+
+import { type DMCColor } from '../utils/dmcColors'
+import { type PixelizationConfig } from '../utils/imagePixelization'
+import { computeRateDistortionCurve, type RateDistortionCurve } from '../utils/rateDistortion'
+
+export interface RateDistortionWorkerRequest {
+  width: number
+  height: number
+  pixels: ArrayBuffer // RGBA bytes of the prepared ImageData, transferred rather than copied
+  config: PixelizationConfig
+  maxColors: number
+  catalogColors: DMCColor[]
+}
+
+export type RateDistortionWorkerMessage =
+  | { type: 'done', curve: RateDistortionCurve }
+  | { type: 'error', message: string }
+
+const worker = self as unknown as Worker
+
+const post = (message: RateDistortionWorkerMessage) => worker.postMessage(message)
+
+worker.onmessage = (event: MessageEvent<RateDistortionWorkerRequest>) => {
+  const request = event.data
+
+  try {
+    const imageData = new ImageData(new Uint8ClampedArray(request.pixels), request.width, request.height)
+    const curve = computeRateDistortionCurve(imageData, request.config, request.maxColors, request.catalogColors)
+    post({ type: 'done', curve })
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
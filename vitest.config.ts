@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the pure pattern utilities, colocated as app/**/*.test.ts
+export default defineConfig({
+  test: {
+    include: ['app/**/*.test.ts'],
+    environment: 'node'
+  }
+})